@@ -1,88 +1,138 @@
 /**
  * [INPUT]: 依赖 components/{Console,Card,ImageCropModal} 的 UI 组件，
- *          依赖 services/geminiService 的 splitTextIntoCards，
- *          依赖 utils/{textSplit,gradientBackground} 的解析与渲染工具，
+ *          依赖 services/ 的切分、导出、导入、项目与字体存储，
+ *          依赖 utils/ 的溢出回流、容量、配置迁移、撤销栈与渲染工具，
  *          依赖 types 的 CardConfig/CardSegment/AspectRatio 等全部核心类型
  * [OUTPUT]: 默认导出 App 组件（React 应用根节点，持有全局状态）
- * [POS]: 全应用的状态管理中枢与布局编排者；CardSegment[] / CardConfig 均源于此；
+ * [POS]: 全应用的状态管理中枢与布局编排者；CardSegment[] / CardConfig 均源于此，自动保存到当前项目并记入撤销栈；
  *        不含任何领域算法，算法委托给 services/ 和 utils/
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
 import React, { useState, useRef, useCallback, useEffect } from "react";
-import { Console, type ConsoleTabId } from "./components/Console";
+import { Console, type ConsoleTabId, type SourceTextareaHandlers } from "./components/Console";
 import { Card, CardHandle, OverflowSplitResult } from "./components/Card";
 import { ImageCropModal } from "./components/ImageCropModal";
 import {
   CardConfig,
   AspectRatio,
-  BackgroundStyle,
   CardSegment,
+  CustomFont,
+  FidelityReport,
   FontStyle,
-  GradientBackgroundConfig,
-  GradientType,
   ImageConfig,
   ImageAspectRatio,
-  WarpShape,
+  ExportFormat,
+  ExportProfile,
+  ExportSettings,
+  Preset,
+  Project,
+  ProjectSummary,
+  SlideshowFormat,
+  SlideshowSettings,
+  SlideshowTransition,
 } from "./types";
-import { splitTextIntoCards } from "./services/geminiService";
-import { toPng } from "html-to-image";
-import { ArrowRight } from "lucide-react";
-import { hasAtomicMarkdownSyntax, isAtomicMarkdownBlock } from "./utils/textSplit";
+import { splitPassageIntoCards, streamTextIntoCards } from "./services/geminiService";
 import {
-  createDefaultGradientBackground,
-  renderGradientBackgroundToDataUrl,
-} from "./utils/gradientBackground";
+  clearSplitCache,
+  getSplitCacheStats,
+  type SplitCacheStats,
+} from "./services/splitCache";
+import {
+  compactProjectImages,
+  createProjectRecord,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  loadProject,
+  readActiveProjectId,
+  renameProject,
+  saveProject,
+  writeActiveProjectId,
+} from "./services/projectStore";
+import {
+  listCustomFonts,
+  registerCustomFonts,
+} from "./services/fontStore";
+import {
+  buildCardFileName,
+  captureCardElement,
+  downloadBlob,
+  downloadDataUrl,
+  exportDeckArchive,
+  DEFAULT_EXPORT_SETTINGS,
+  exportDeckPdf,
+  getExportExtension,
+  toExportBaseName,
+  type DeckExportProgress,
+} from "./services/cardExport";
+import {
+  exportDeckSlideshow,
+  getSlideshowExtension,
+} from "./services/slideshowExport";
+import {
+  attachInlineImages,
+  extractInlineImages,
+  importDocumentFile,
+  importFromUrl,
+  importHtml,
+  isImportableFile,
+  readDeckFile,
+} from "./services/documentImport";
+import { ArrowRight, Lock } from "lucide-react";
+import {
+  applyOverflowSplitToCards,
+  createReflowState,
+  MAX_REFLOW_PASSES,
+  mergeUnderfilledCard,
+  planReflowStep,
+} from "./utils/cardReflow";
+import { isRichHtml } from "./utils/htmlToMarkdown";
+import { serializeDeckMarkdown, type DeckMarkdown } from "./utils/deckMarkdown";
+import { getCapacitySignature } from "./utils/cardCapacity";
+import {
+  CardRange,
+  getNeighborTitles,
+  getUnlockedRanges,
+  hasPinnedCards,
+  joinCardRange,
+  replaceCardRanges,
+} from "./utils/cardRanges";
+import {
+  createDeckHistory,
+  recordDeckHistory,
+  redoDeckHistory,
+  undoDeckHistory,
+  type DeckHistory,
+  type DeckHistoryEntry,
+  type DeckSnapshot,
+} from "./utils/deckHistory";
+import {
+  applyPresetConfig,
+  CONFIG_VERSION,
+  createDefaultConfig,
+  createGradientBackgroundForConfig,
+  getCardHeight,
+  getCardWidth,
+  migrateConfig,
+} from "./utils/cardConfig";
+import {
+  getComposition,
+  getHeroBackgroundClass,
+  listCompositions,
+  usesGradientBackground,
+} from "./utils/compositionRegistry";
+import { renderGradientBackgroundToDataUrl } from "./utils/gradientBackground";
 
 const CAPACITY_REGEN_DEBOUNCE_MS = 700;
-const VALID_COMPOSITIONS = new Set(["classic", "technical", "editorial"]);
-const VALID_ASPECT_RATIOS = new Set([
-  AspectRatio.PORTRAIT,
-  AspectRatio.SQUARE,
-  AspectRatio.WIDE,
-]);
-const VALID_COLORWAYS = new Set(["snow", "neon"]);
-const VALID_BACKGROUND_STYLES = new Set<BackgroundStyle>([
+const PROJECT_AUTOSAVE_DEBOUNCE_MS = 800;
+const HISTORY_MERGE_WINDOW_MS = 1000;
+const VALID_EXPORT_FORMATS = new Set<ExportFormat>(["png", "jpeg", "webp", "svg"]);
+const VALID_SLIDESHOW_FORMATS = new Set<SlideshowFormat>(["webm", "mp4", "gif"]);
+const VALID_SLIDESHOW_TRANSITIONS = new Set<SlideshowTransition>([
+  "slide",
+  "fade",
   "none",
-  "grid",
-  "gradient",
-]);
-const VALID_FONT_STYLES = new Set([
-  FontStyle.CHILL,
-  FontStyle.OPPO,
-  FontStyle.SWEI,
-  FontStyle.SMILEY,
-]);
-const VALID_GRADIENT_TYPES = new Set<GradientType>([
-  "simple",
-  "soft-bezier",
-  "mesh-static",
-  "mesh-grid",
-  "sharp-bezier",
 ]);
-const VALID_WARP_SHAPES = new Set<WarpShape>([
-  "simplex-noise",
-  "circular",
-  "value-noise",
-  "worley-noise",
-  "fbm-noise",
-  "voronoi-noise",
-  "domain-warping",
-  "waves",
-  "smooth-noise",
-  "oval",
-  "rows",
-  "columns",
-  "flat",
-  "gravity",
-]);
-const CONFIG_VERSION = 9;
-const DEFAULT_AUTHOR_NAME = "DAi";
-const DEFAULT_AUTHOR_AVATAR = "/avatars/dai-avatar.png";
-const CARD_BASE_WIDTHS: Record<AspectRatio, number> = {
-  [AspectRatio.PORTRAIT]: 380,
-  [AspectRatio.SQUARE]: 480,
-  [AspectRatio.WIDE]: 600,
-};
 const CONSOLE_COLLAPSED_SAFE_AREA = 92;
 const PORTRAIT_STAGE_INSET_MIN = 24;
 const PORTRAIT_STAGE_INSET_MAX = 72;
@@ -92,48 +142,58 @@ const canDeleteCardAtIndex = (cards: CardSegment[], index: number) =>
   index < cards.length - 1 &&
   cards[index]?.layout !== "cover";
 
-const createRoundedRectPath = (
-  context: CanvasRenderingContext2D,
-  width: number,
-  height: number,
-  radius: number,
-) => {
-  const safeRadius = Math.max(0, Math.min(radius, width / 2, height / 2));
-  context.beginPath();
-  context.moveTo(safeRadius, 0);
-  context.lineTo(width - safeRadius, 0);
-  context.quadraticCurveTo(width, 0, width, safeRadius);
-  context.lineTo(width, height - safeRadius);
-  context.quadraticCurveTo(width, height, width - safeRadius, height);
-  context.lineTo(safeRadius, height);
-  context.quadraticCurveTo(0, height, 0, height - safeRadius);
-  context.lineTo(0, safeRadius);
-  context.quadraticCurveTo(0, 0, safeRadius, 0);
-  context.closePath();
+const normalizeSlideshowSettings = (
+  raw?: Partial<SlideshowSettings>,
+): SlideshowSettings => {
+  const value = raw ?? {};
+  const defaults = DEFAULT_EXPORT_SETTINGS.slideshow;
+  return {
+    format: VALID_SLIDESHOW_FORMATS.has(value.format as SlideshowFormat)
+      ? (value.format as SlideshowFormat)
+      : defaults.format,
+    secondsPerCard:
+      typeof value.secondsPerCard === "number" &&
+      Number.isFinite(value.secondsPerCard)
+        ? clamp(value.secondsPerCard, 1, 10)
+        : defaults.secondsPerCard,
+    transition: VALID_SLIDESHOW_TRANSITIONS.has(
+      value.transition as SlideshowTransition,
+    )
+      ? (value.transition as SlideshowTransition)
+      : defaults.transition,
+    animateBackground:
+      typeof value.animateBackground === "boolean"
+        ? value.animateBackground
+        : defaults.animateBackground,
+  };
 };
 
-const applyTransparentRoundedCorners = async (
-  dataUrl: string,
-  exportWidth: number,
-  exportHeight: number,
-  borderRadius: number,
-) => {
-  const image = await loadImage(dataUrl);
-  const canvas = document.createElement("canvas");
-  canvas.width = image.naturalWidth || exportWidth;
-  canvas.height = image.naturalHeight || exportHeight;
-
-  const context = canvas.getContext("2d");
-  if (!context) {
-    throw new Error("Failed to create export canvas");
-  }
-
-  const radiusScale = Math.min(canvas.width / exportWidth, canvas.height / exportHeight);
-  createRoundedRectPath(context, canvas.width, canvas.height, borderRadius * radiusScale);
-  context.clip();
-  context.drawImage(image, 0, 0, canvas.width, canvas.height);
-
-  return canvas.toDataURL("image/png");
+const normalizeExportSettings = (raw: unknown): ExportSettings => {
+  const value = (raw ?? {}) as Partial<ExportSettings>;
+  const defaults = DEFAULT_EXPORT_SETTINGS;
+  return {
+    format: VALID_EXPORT_FORMATS.has(value.format as ExportFormat)
+      ? (value.format as ExportFormat)
+      : defaults.format,
+    quality:
+      typeof value.quality === "number"
+        ? clamp(value.quality, 0.5, 1)
+        : defaults.quality,
+    sizeMode: value.sizeMode === "width" ? "width" : "pixelRatio",
+    pixelRatio:
+      typeof value.pixelRatio === "number"
+        ? clamp(Math.round(value.pixelRatio), 1, 4)
+        : defaults.pixelRatio,
+    targetWidth:
+      typeof value.targetWidth === "number"
+        ? clamp(Math.round(value.targetWidth), 200, 4096)
+        : defaults.targetWidth,
+    includeManifest:
+      typeof value.includeManifest === "boolean"
+        ? value.includeManifest
+        : defaults.includeManifest,
+    slideshow: normalizeSlideshowSettings(value.slideshow),
+  };
 };
 
 /* ─────────────────────────────────────────────────────────
@@ -196,12 +256,6 @@ const WHEEL_INTERACTION = {
   horizontalBiasRatio: 0.75, // preserve intentional horizontal trackpad gestures
 };
 
-const OVERFLOW_NORMALIZATION = {
-  maxPasses: 48,
-};
-
-const FLOW_FILL_THRESHOLD = 0.92; // absorb next card when below this occupancy
-
 const clamp = (value: number, min: number, max: number) =>
   Math.min(max, Math.max(min, value));
 
@@ -255,80 +309,6 @@ const getPreviewFontClass = (style: FontStyle) => {
   }
 };
 
-const normalizeSourceText = (text: string) => text.replace(/\r\n?/g, "\n");
-
-const escapeRegExp = (value: string) =>
-  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-
-const getBoundarySeparatorFromSource = (
-  sourceText: string,
-  before: string,
-  after: string,
-) => {
-  const normalizedSource = normalizeSourceText(sourceText);
-  const beforeTrimmed = before.trim();
-  const afterTrimmed = after.trim();
-  if (!beforeTrimmed || !afterTrimmed) return "\n\n";
-
-  let searchFrom = 0;
-  while (searchFrom < normalizedSource.length) {
-    const beforeIndex = normalizedSource.indexOf(beforeTrimmed, searchFrom);
-    if (beforeIndex === -1) break;
-
-    const start = beforeIndex + beforeTrimmed.length;
-    const nearbyAfterIndex = normalizedSource.indexOf(afterTrimmed, start);
-    if (nearbyAfterIndex !== -1 && nearbyAfterIndex - start <= 16) {
-      return normalizedSource.slice(start, nearbyAfterIndex);
-    }
-
-    const tail = escapeRegExp(beforeTrimmed.slice(-24));
-    const head = escapeRegExp(afterTrimmed.slice(0, 24));
-    const matcher = new RegExp(`${tail}([\\s\\S]{0,16}?)${head}`, "g");
-    matcher.lastIndex = Math.max(0, beforeIndex + beforeTrimmed.length - 24);
-    const match = matcher.exec(normalizedSource);
-    if (match) return match[1];
-
-    searchFrom = beforeIndex + 1;
-  }
-
-  return "\n\n";
-};
-
-const canNormalizeAdjacentCards = (
-  current: CardSegment | undefined,
-  next: CardSegment | undefined,
-) => {
-  if (!current || !next) return false;
-  if (current.layout === "cover" || next.layout === "cover") return false;
-  if (
-    hasAtomicMarkdownSyntax(current.content) ||
-    hasAtomicMarkdownSyntax(next.content)
-  ) {
-    return false;
-  }
-
-  const currentTitle = current.title.trim();
-  const nextTitle = next.title.trim();
-  if (!currentTitle || !nextTitle) return true;
-
-  return currentTitle === nextTitle;
-};
-
-const getCardWidth = (ratio: AspectRatio, scale: number) =>
-  Math.round(CARD_BASE_WIDTHS[ratio] * scale);
-
-const getAspectRatioValue = (ratio: AspectRatio) => {
-  const [width, height] = ratio.split(":").map(Number);
-  return width / height;
-};
-
-const getCardHeight = (ratio: AspectRatio, scale: number) =>
-  Math.round(getCardWidth(ratio, scale) / getAspectRatioValue(ratio));
-
-const getCapacitySignature = (
-  config: Pick<CardConfig, "cardScale" | "aspectRatio" | "fontSize">,
-) => `${config.cardScale}|${config.aspectRatio}|${config.fontSize}`;
-
 type CropModalState = {
   cardIndex: number;
   ratio: ImageAspectRatio;
@@ -434,207 +414,6 @@ const createImageConfig = (
   panY: overrides?.panY ?? 50,
 });
 
-const normalizeGradientBackground = (
-  raw?: Partial<GradientBackgroundConfig> | null,
-) => {
-  if (!raw) return undefined;
-
-  const fallback = createDefaultGradientBackground();
-
-  const gradientType = VALID_GRADIENT_TYPES.has(raw.gradientType as GradientType)
-    ? (raw.gradientType as GradientType)
-    : "soft-bezier";
-  const warpShape = VALID_WARP_SHAPES.has(raw.warpShape as WarpShape)
-    ? (raw.warpShape as WarpShape)
-    : "smooth-noise";
-  const colors =
-    Array.isArray(raw.colors) &&
-    raw.colors.length >= 2 &&
-    raw.colors.every((color) => typeof color === "string")
-      ? raw.colors.slice(0, 10)
-      : fallback.colors;
-  const fallbackSeed =
-    typeof raw.seed === "number" && Number.isFinite(raw.seed)
-      ? raw.seed
-      : Math.floor(Math.random() * 99999);
-  const controlPoints =
-    Array.isArray(raw.controlPoints) &&
-    raw.controlPoints.length >= 2 &&
-    raw.controlPoints.every(
-      (point) =>
-        point &&
-        typeof point.x === "number" &&
-        Number.isFinite(point.x) &&
-        typeof point.y === "number" &&
-        Number.isFinite(point.y),
-    )
-      ? raw.controlPoints.slice(0, 10).map((point) => ({
-          x: clamp(point.x, 0, 1),
-          y: clamp(point.y, 0, 1),
-        }))
-      : fallback.controlPoints;
-
-  return {
-    gradientType,
-    warpShape,
-    warp:
-      typeof raw.warp === "number" && Number.isFinite(raw.warp)
-        ? clamp(raw.warp, 0, 100)
-        : 27,
-    warpSize:
-      typeof raw.warpSize === "number" && Number.isFinite(raw.warpSize)
-        ? clamp(raw.warpSize, 0, 100)
-        : 33,
-    noise:
-      typeof raw.noise === "number" && Number.isFinite(raw.noise)
-        ? clamp(raw.noise, 0, 100)
-        : 25,
-    seed: fallbackSeed,
-    colors,
-    controlPoints,
-  } satisfies GradientBackgroundConfig;
-};
-
-const usesEditorialGradient = (
-  config: Pick<CardConfig, "composition" | "backgroundStyle">,
-) => config.composition === "editorial" && config.backgroundStyle === "gradient";
-
-const createGradientBackgroundForConfig = (config: CardConfig) =>
-  createDefaultGradientBackground({
-    backgroundColor: config.backgroundColor,
-    textColor: config.textColor,
-    accentColor: config.accentColor,
-    colorway: config.colorway,
-  });
-
-const isLegacyClassicDefaultConfig = (raw: Partial<CardConfig>) =>
-  (raw.composition == null || raw.composition === "classic") &&
-  (raw.colorway == null || raw.colorway === "snow") &&
-  (raw.backgroundStyle == null || raw.backgroundStyle === "grid") &&
-  (raw.backgroundColor == null || raw.backgroundColor === "#f4f4f5") &&
-  (raw.textColor == null || raw.textColor === "#18181b") &&
-  (raw.accentColor == null || raw.accentColor === "#ea580c") &&
-  (raw.fontStyle == null || raw.fontStyle === FontStyle.SWEI) &&
-  (raw.aspectRatio == null || raw.aspectRatio === AspectRatio.PORTRAIT) &&
-  (raw.fontSize == null || raw.fontSize === 1.3) &&
-  (raw.cardScale == null || raw.cardScale === 1.35) &&
-  (raw.editorialTitleScale == null || raw.editorialTitleScale === 0.9) &&
-  (raw.showMetadata == null || raw.showMetadata === true) &&
-  (raw.title == null || raw.title === "") &&
-  (raw.authorName == null || raw.authorName === "");
-
-const isMissingAuthorIdentity = (raw: Partial<CardConfig>) =>
-  raw.authorName == null ||
-  raw.authorName.trim() === "" ||
-  raw.authorAvatar == null ||
-  raw.authorAvatar.trim() === "";
-
-const migrateConfig = (
-  raw: Partial<CardConfig>,
-  defaults: CardConfig,
-  savedVersion: number,
-): CardConfig => {
-  if (savedVersion >= CONFIG_VERSION) {
-    return normalizeConfig(raw, defaults);
-  }
-
-  const next = { ...raw };
-
-  // Upgrade legacy defaults without stomping on deliberate user choices.
-  if (
-    raw.cardScale == null ||
-    raw.cardScale === 1.15 ||
-    raw.cardScale === 1.5
-  ) {
-    next.cardScale = defaults.cardScale;
-  }
-
-  if (raw.fontSize == null || raw.fontSize === 1.0 || raw.fontSize === 1.05) {
-    next.fontSize = defaults.fontSize;
-  }
-
-  if (raw.editorialTitleScale == null || raw.editorialTitleScale === 1.0) {
-    next.editorialTitleScale = defaults.editorialTitleScale;
-  }
-
-  if (raw.backgroundStyle == null) {
-    next.backgroundStyle = defaults.backgroundStyle;
-  }
-
-  if (isLegacyClassicDefaultConfig(raw)) {
-    next.composition = defaults.composition;
-  }
-
-  if (raw.gradientBackground == null && defaults.gradientBackground) {
-    next.gradientBackground = defaults.gradientBackground;
-  }
-
-  if (isMissingAuthorIdentity(raw)) {
-    if (raw.authorName == null || raw.authorName.trim() === "") {
-      next.authorName = defaults.authorName;
-    }
-
-    if (raw.authorAvatar == null || raw.authorAvatar.trim() === "") {
-      next.authorAvatar = defaults.authorAvatar;
-    }
-  }
-
-  return normalizeConfig(next, defaults);
-};
-
-const normalizeConfig = (
-  raw: Partial<CardConfig>,
-  defaults: CardConfig,
-): CardConfig => {
-  const merged = { ...defaults, ...raw } as CardConfig;
-  return {
-    ...merged,
-    composition: VALID_COMPOSITIONS.has(merged.composition)
-      ? merged.composition
-      : defaults.composition,
-    aspectRatio: VALID_ASPECT_RATIOS.has(merged.aspectRatio)
-      ? merged.aspectRatio
-      : defaults.aspectRatio,
-    colorway: VALID_COLORWAYS.has(merged.colorway)
-      ? merged.colorway
-      : defaults.colorway,
-    backgroundStyle: VALID_BACKGROUND_STYLES.has(merged.backgroundStyle)
-      ? merged.backgroundStyle
-      : defaults.backgroundStyle,
-    gradientBackground: normalizeGradientBackground(merged.gradientBackground),
-    fontStyle: VALID_FONT_STYLES.has(merged.fontStyle)
-      ? merged.fontStyle
-      : defaults.fontStyle,
-    fontSize:
-      typeof merged.fontSize === "number" &&
-      Number.isFinite(merged.fontSize) &&
-      merged.fontSize >= 0.7 &&
-      merged.fontSize <= 1.5
-        ? merged.fontSize
-        : defaults.fontSize,
-    cardScale:
-      typeof merged.cardScale === "number" &&
-      Number.isFinite(merged.cardScale) &&
-      merged.cardScale >= 0.9 &&
-      merged.cardScale <= 1.5
-        ? merged.cardScale
-        : defaults.cardScale,
-    editorialTitleScale:
-      typeof merged.editorialTitleScale === "number" &&
-      Number.isFinite(merged.editorialTitleScale) &&
-      merged.editorialTitleScale >= 0.6 &&
-      merged.editorialTitleScale <= 1.6
-        ? merged.editorialTitleScale
-        : defaults.editorialTitleScale,
-  };
-};
-
-const getThemeBgClass = (composition: string) => {
-  if (composition === "classic") return "bg-[#f4f4f2]"; 
-  if (composition === "technical") return "bg-[#fafafa]";
-  return "bg-white";
-};
-
 const App: React.FC = () => {
   // --- State ---
   const [inputText, setInputText] = useState<string>(() => {
@@ -647,6 +426,17 @@ const App: React.FC = () => {
 
   const [cards, setCards] = useState<CardSegment[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [fidelityReport, setFidelityReport] = useState<FidelityReport | null>(
+    null,
+  );
+  const [lastSplitFromCache, setLastSplitFromCache] = useState(false);
+  // Why the last split fell back to the offline splitter, if it did.
+  const [splitFallback, setSplitFallback] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [isWorkspaceReady, setIsWorkspaceReady] = useState(false);
+  const [splitCacheStats, setSplitCacheStats] =
+    useState<SplitCacheStats | null>(null);
   const [zoomLevel, setZoomLevel] = useState(0.85);
   const [viewportSize, setViewportSize] = useState(() => ({
     width: typeof window !== "undefined" ? window.innerWidth : 1440,
@@ -654,6 +444,8 @@ const App: React.FC = () => {
   }));
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [activeCardIndex, setActiveCardIndex] = useState<number | null>(null);
+  // Shift+click extends this from the active card; re-split actions act on it.
+  const [selectedRange, setSelectedRange] = useState<CardRange | null>(null);
   const [activeConsoleTab, setActiveConsoleTab] =
     useState<ConsoleTabId>("style");
   const [isConsoleCollapsed, setIsConsoleCollapsed] = useState(false);
@@ -671,12 +463,30 @@ const App: React.FC = () => {
   const [dismissedCapacitySignature, setDismissedCapacitySignature] = useState<
     string | null
   >(null);
+  const [history, setHistory] = useState<DeckHistory>(createDeckHistory);
+  const [exportProgress, setExportProgress] = useState<DeckExportProgress | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => {
+    try {
+      const saved = localStorage.getItem("textcuts_export_settings");
+      return normalizeExportSettings(saved ? JSON.parse(saved) : null);
+    } catch {
+      return normalizeExportSettings(null);
+    }
+  });
+  const exportAbortRef = useRef<AbortController | null>(null);
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const regenerationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const processingReasonRef = useRef<"manual" | "capacity" | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  // Identity of the open project (id / name / createdAt); content lives in state.
+  const activeProjectRef = useRef<Project | null>(null);
+  const autosaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   const editingIndexRef = useRef<number | null>(null);
   editingIndexRef.current = editingIndex;
+  const cardsRef = useRef<CardSegment[]>(cards);
+  cardsRef.current = cards;
   const isDragging = useRef(false);
   const lastX = useRef(0);
   const dragDistance = useRef(0);
@@ -691,8 +501,7 @@ const App: React.FC = () => {
   const lastWheelFrameTimeRef = useRef<number | null>(null);
   const overflowNormalizationFrameRef = useRef<number | null>(null);
   const overflowNormalizationPassRef = useRef(0);
-  const flowFillStableSetRef = useRef(new Set<number>());
-  const lastFlowFillMergeIndexRef = useRef(-1);
+  const reflowStateRef = useRef(createReflowState());
   const fontNormalizationRequestRef = useRef(0);
 
   // Track active card state for external toolbar
@@ -708,23 +517,7 @@ const App: React.FC = () => {
   >(null);
 
   const [config, setConfig] = useState<CardConfig>(() => {
-    const defaultConfig = {
-      colorway: "snow",
-      backgroundStyle: "grid",
-      backgroundColor: "#f4f4f5",
-      textColor: "#18181b",
-      accentColor: "#ea580c",
-      fontStyle: FontStyle.SWEI,
-      composition: "editorial",
-      aspectRatio: AspectRatio.PORTRAIT,
-      fontSize: 1.3,
-      cardScale: 1.35,
-      editorialTitleScale: 0.9,
-      showMetadata: true,
-      title: "",
-      authorName: DEFAULT_AUTHOR_NAME,
-      authorAvatar: DEFAULT_AUTHOR_AVATAR,
-    } as CardConfig;
+    const defaultConfig = createDefaultConfig();
 
     try {
       const saved = localStorage.getItem("textcuts_config");
@@ -739,6 +532,14 @@ const App: React.FC = () => {
       return defaultConfig;
     }
   });
+  const configRef = useRef<CardConfig>(config);
+  configRef.current = config;
+  const inputTextRef = useRef(inputText);
+  inputTextRef.current = inputText;
+  const hasCardEditsRef = useRef(hasCardEditsSinceGenerate);
+  hasCardEditsRef.current = hasCardEditsSinceGenerate;
+  // History group of the step whose overflow reflow is pending, so that reflow undoes with it.
+  const reflowHistoryGroupRef = useRef<string | null>(null);
 
   // --- Image Upload Refs ---
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -759,6 +560,31 @@ const App: React.FC = () => {
     }),
     [createCardId],
   );
+
+  // Re-split each range on its own, with the titles around it as context.
+  const resplitCardRanges = useCallback(
+    async (
+      sourceCards: CardSegment[],
+      ranges: CardRange[],
+      configSnapshot: CardConfig,
+      signal: AbortSignal,
+    ) => {
+      const replacements: CardSegment[][] = [];
+      let fallback: string | undefined;
+      for (const range of ranges) {
+        const result = await splitPassageIntoCards(
+          joinCardRange(sourceCards, range),
+          configSnapshot,
+          { signal, context: getNeighborTitles(sourceCards, range) },
+        );
+        replacements.push(result.segments.map(withCardId));
+        fallback = result.fallback ?? fallback;
+      }
+      signal.throwIfAborted();
+      return { cards: replaceCardRanges(sourceCards, ranges, replacements), fallback };
+    },
+    [withCardId],
+  );
   const resolveCenteredCardIndex = useCallback(() => {
     const container = scrollContainerRef.current;
     if (!container || cards.length === 0) return activeCardIndex;
@@ -789,6 +615,9 @@ const App: React.FC = () => {
     localStorage.setItem("textcuts_config", JSON.stringify(config));
     localStorage.setItem("textcuts_config_version", String(CONFIG_VERSION));
   }, [config]);
+  useEffect(() => {
+    localStorage.setItem("textcuts_export_settings", JSON.stringify(exportSettings));
+  }, [exportSettings]);
   useEffect(() => {
     const updateViewportSize = () => {
       const { innerWidth, innerHeight } = window;
@@ -1166,14 +995,117 @@ const App: React.FC = () => {
     };
   }, [cards.length]);
 
+  // --- History ---
+  const recordHistory = useCallback(
+    (label: string, options: Pick<DeckHistoryEntry, "group" | "mergeWindowMs"> = {}) => {
+      const snapshot: DeckSnapshot = {
+        cards: cardsRef.current,
+        config: configRef.current,
+        hasCardEdits: hasCardEditsRef.current,
+      };
+      setHistory((prev) => recordDeckHistory(prev, { label, snapshot, ...options }));
+    },
+    [],
+  );
+
+  // Config edits from the Console and inline cover fields; slider drags merge into one step.
+  const setConfigWithHistory: React.Dispatch<React.SetStateAction<CardConfig>> =
+    useCallback(
+      (action) => {
+        recordHistory("Change style", {
+          group: "config",
+          mergeWindowMs: HISTORY_MERGE_WINDOW_MS,
+        });
+        setConfig(action);
+      },
+      [recordHistory],
+    );
+
+  const restoreHistorySnapshot = useCallback((snapshot: DeckSnapshot) => {
+    setCards(snapshot.cards);
+    setConfig(snapshot.config);
+    setEditingIndex(null);
+    setActiveEditConfig(null);
+    setActiveHasImage(false);
+    setHasCardEditsSinceGenerate(snapshot.hasCardEdits ?? snapshot.cards.length > 0);
+    setActiveCardIndex((prev) =>
+      snapshot.cards.length === 0
+        ? null
+        : clamp(prev ?? 0, 0, snapshot.cards.length - 1),
+    );
+  }, []);
+
+  const canUndo = history.past.length > 0 && !isProcessing;
+  const canRedo = history.future.length > 0 && !isProcessing;
+
+  const handleUndo = useCallback(() => {
+    if (isProcessing) return;
+    const result = undoDeckHistory(history, {
+      cards: cardsRef.current,
+      config: configRef.current,
+      hasCardEdits: hasCardEditsRef.current,
+    });
+    if (!result) return;
+    setHistory(result.history);
+    restoreHistorySnapshot(result.snapshot);
+  }, [history, isProcessing, restoreHistorySnapshot]);
+
+  const handleRedo = useCallback(() => {
+    if (isProcessing) return;
+    const result = redoDeckHistory(history, {
+      cards: cardsRef.current,
+      config: configRef.current,
+      hasCardEdits: hasCardEditsRef.current,
+    });
+    if (!result) return;
+    setHistory(result.history);
+    restoreHistorySnapshot(result.snapshot);
+  }, [history, isProcessing, restoreHistorySnapshot]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+
+      // Leave text fields to their native undo.
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleRedo, handleUndo]);
+
   // --- Handlers ---
+  const refreshSplitCacheStats = useCallback(async () => {
+    setSplitCacheStats(await getSplitCacheStats());
+  }, []);
+
+  useEffect(() => {
+    void refreshSplitCacheStats();
+  }, [refreshSplitCacheStats]);
+
   const runGeneration = useCallback(
     async (
       reason: "manual" | "capacity",
       configSnapshot: CardConfig = config,
       signatureSnapshot: string = getCapacitySignature(configSnapshot),
+      options: { bypassCache?: boolean } = {},
     ) => {
-      if (!inputText.trim()) return false;
+      // Imported images sit in the source as references; splitters only see the prose.
+      const { text: splitText, images: inlineImages } = extractInlineImages(inputText);
+      if (!splitText.trim()) return false;
 
       processingReasonRef.current = reason;
 
@@ -1182,29 +1114,128 @@ const App: React.FC = () => {
         regenerationTimeoutRef.current = null;
       }
 
+      // Re-running supersedes any generation that is still streaming.
+      generationAbortRef.current?.abort();
+      const controller = new AbortController();
+      generationAbortRef.current = controller;
+      const previousCards = cardsRef.current;
+      const previousConfig = configRef.current;
+      const previousSnapshot: DeckSnapshot = {
+        cards: previousCards,
+        config: previousConfig,
+        hasCardEdits: hasCardEditsRef.current,
+      };
+      // The reflow that follows this run joins its history step.
+      const historyGroup = `generate:${Date.now().toString(36)}`;
+      const userTitle = configSnapshot.title.trim();
+      const streamedIds: string[] = [];
+
+      const applyGeneratedSegments = (segments: CardSegment[]) => {
+        const nextSegments = segments.map((segment, index) => {
+          // Keep ids stable across stream updates so cards don't remount.
+          streamedIds[index] = streamedIds[index] || createCardId();
+          return { ...segment, id: streamedIds[index] };
+        });
+        if (nextSegments.length > 0 && userTitle) {
+          nextSegments[0] = { ...nextSegments[0], title: userTitle };
+        }
+        return nextSegments;
+      };
+
       setIsProcessing(true);
       setEditingIndex(null);
+      setPendingOverflowNormalization(false);
+
+      // Capacity changes only re-split the text between locked cards and cards with images or overrides.
+      const unlockedRanges =
+        reason === "capacity" && hasPinnedCards(previousCards)
+          ? getUnlockedRanges(previousCards)
+          : null;
+
+      const resplitUnlockedRanges = async (ranges: CardRange[]) => {
+        const { cards: nextCards, fallback } = await resplitCardRanges(
+          previousCards,
+          ranges,
+          configSnapshot,
+          controller.signal,
+        );
+        setHistory((prev) =>
+          recordDeckHistory(prev, {
+            label: "Re-split unlocked cards",
+            snapshot: previousSnapshot,
+            group: historyGroup,
+          }),
+        );
+        setCards(nextCards);
+        setFidelityReport(null);
+        setLastSplitFromCache(false);
+        setSplitFallback(fallback ?? null);
+      };
 
-      try {
-        const segments = await splitTextIntoCards(inputText, configSnapshot);
-        const userTitle = configSnapshot.title.trim();
-        const nextSegments = segments.map(withCardId);
-
-        if (nextSegments.length > 0) {
-          if (userTitle) {
-            nextSegments[0] = { ...nextSegments[0], title: userTitle };
-          } else {
-            const generatedCoverTitle = (nextSegments[0].title || "").trim();
-            if (generatedCoverTitle) {
-              setConfig((prev) => ({ ...prev, title: generatedCoverTitle }));
+      const generateFromSource = async () => {
+        let hasStreamedCards = false;
+        const { segments, fidelity, fromCache, fallback } = await streamTextIntoCards(splitText, configSnapshot, {
+          signal: controller.signal,
+          bypassCache: options.bypassCache,
+          onSegments: (partialSegments) => {
+            if (controller.signal.aborted) return;
+            if (!hasStreamedCards && scrollContainerRef.current) {
+              scrollContainerRef.current.scrollLeft = 0;
             }
+            hasStreamedCards = true;
+            setCards(applyGeneratedSegments(partialSegments));
+          },
+        });
+        const generatedSegments = applyGeneratedSegments(segments);
+        const { cards: nextSegments, droppedCount } = await attachInlineImages(
+          generatedSegments,
+          inlineImages,
+        ).catch((error) => {
+          console.error("Failed to attach imported images:", error);
+          return { cards: generatedSegments, droppedCount: 0 };
+        });
+        controller.signal.throwIfAborted();
+        if (droppedCount > 0) {
+          alert(
+            `${droppedCount} imported image${droppedCount === 1 ? "" : "s"} left out: every card already holds one.`,
+          );
+        }
+        setHistory((prev) =>
+          recordDeckHistory(prev, {
+            label: "Generate cards",
+            snapshot: previousSnapshot,
+            group: historyGroup,
+          }),
+        );
+
+        if (nextSegments.length > 0 && !userTitle) {
+          const generatedCoverTitle = (nextSegments[0].title || "").trim();
+          if (generatedCoverTitle) {
+            setConfig((prev) => ({ ...prev, title: generatedCoverTitle }));
           }
         }
 
         setCards(nextSegments);
+        setFidelityReport(fidelity);
+        setLastSplitFromCache(!!fromCache);
+        setSplitFallback(fallback ?? null);
+        void refreshSplitCacheStats();
+
+        if (!hasStreamedCards && scrollContainerRef.current) {
+          scrollContainerRef.current.scrollLeft = 0;
+        }
+      };
+
+      try {
+        if (unlockedRanges) {
+          await resplitUnlockedRanges(unlockedRanges);
+        } else {
+          await generateFromSource();
+        }
         setLastGeneratedCapacitySignature(signatureSnapshot);
         setHasCardEditsSinceGenerate(false);
         setPendingRegeneration(false);
+        reflowHistoryGroupRef.current = historyGroup;
         setPendingOverflowNormalization(true);
         setOverflowNormalizationRevision(0);
         setDismissedCapacitySignature(null);
@@ -1221,20 +1252,41 @@ const App: React.FC = () => {
           });
         }
 
-        if (scrollContainerRef.current) {
-          scrollContainerRef.current.scrollLeft = 0;
-        }
-
         return true;
       } catch (error) {
+        if (controller.signal.aborted) {
+          // Cancelled by an input edit: drop the half-streamed deck.
+          // Superseded by a new run: that run owns the deck now.
+          if (generationAbortRef.current === controller) {
+            setCards(previousCards);
+          }
+          return false;
+        }
         alert("Failed to process text.");
         return false;
       } finally {
-        processingReasonRef.current = null;
-        setIsProcessing(false);
+        if (generationAbortRef.current === controller) {
+          generationAbortRef.current = null;
+        }
+        if (!generationAbortRef.current) {
+          processingReasonRef.current = null;
+          setIsProcessing(false);
+        }
       }
     },
-    [config, inputText, withCardId],
+    [config, createCardId, inputText, refreshSplitCacheStats, resplitCardRanges],
+  );
+
+  // Editing the source text cancels a generation that is still streaming.
+  useEffect(() => {
+    generationAbortRef.current?.abort();
+  }, [inputText]);
+
+  useEffect(
+    () => () => {
+      generationAbortRef.current?.abort();
+    },
+    [],
   );
 
   const handleProcess = useCallback(async () => {
@@ -1243,7 +1295,7 @@ const App: React.FC = () => {
     setPendingOverflowNormalization(false);
     setOverflowNormalizationRevision(0);
     setDismissedCapacitySignature(null);
-    const nextConfig = usesEditorialGradient(config)
+    const nextConfig = usesGradientBackground(config)
       ? {
           ...config,
           gradientBackground: createGradientBackgroundForConfig(config),
@@ -1261,16 +1313,342 @@ const App: React.FC = () => {
     );
   }, [config, inputText, runGeneration]);
 
+  const handleRefreshSplit = useCallback(async () => {
+    if (!inputText.trim()) return;
+    await runGeneration("manual", config, getCapacitySignature(config), {
+      bypassCache: true,
+    });
+  }, [config, inputText, runGeneration]);
+
+  // Replace only the unlocked cards of `range`; the rest of the deck keeps its edits.
+  const handleResplitCards = useCallback(
+    async (range: CardRange) => {
+      const sourceCards = cardsRef.current;
+      const ranges = getUnlockedRanges(sourceCards, range);
+      if (ranges.length === 0) return;
+
+      generationAbortRef.current?.abort();
+      const controller = new AbortController();
+      generationAbortRef.current = controller;
+      processingReasonRef.current = "manual";
+      setIsProcessing(true);
+      setEditingIndex(null);
+
+      try {
+        const { cards: nextCards, fallback } = await resplitCardRanges(
+          sourceCards,
+          ranges,
+          configRef.current,
+          controller.signal,
+        );
+        const historyGroup = `resplit:${Date.now().toString(36)}`;
+        recordHistory("Re-split cards", { group: historyGroup });
+        reflowHistoryGroupRef.current = historyGroup;
+        setCards(nextCards);
+        setSplitFallback(fallback ?? null);
+        setSelectedRange(null);
+        setHasCardEditsSinceGenerate(true);
+        setPendingOverflowNormalization(true);
+        setOverflowNormalizationRevision(0);
+        overflowNormalizationPassRef.current = 0;
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Failed to re-split cards:", error);
+        alert("Failed to re-split cards.");
+      } finally {
+        if (generationAbortRef.current === controller) {
+          generationAbortRef.current = null;
+        }
+        if (!generationAbortRef.current) {
+          processingReasonRef.current = null;
+          setIsProcessing(false);
+        }
+      }
+    },
+    [recordHistory, resplitCardRanges],
+  );
+
+  // Indices shift whenever cards are added or removed.
+  useEffect(() => {
+    setSelectedRange(null);
+  }, [cards.length]);
+
+  const handleClearSplitCache = useCallback(async () => {
+    await clearSplitCache();
+    setLastSplitFromCache(false);
+    await refreshSplitCacheStats();
+  }, [refreshSplitCacheStats]);
+
+  // --- Workspace ---
+  const applyProject = useCallback(
+    (project: Project) => {
+      generationAbortRef.current?.abort();
+      activeProjectRef.current = project;
+      setActiveProjectId(project.id);
+      writeActiveProjectId(project.id);
+
+      const nextConfig = migrateConfig(
+        project.config,
+        createDefaultConfig(),
+        project.configVersion,
+      );
+      setInputText(project.inputText);
+      setConfig(nextConfig);
+      setCards(project.cards.map(withCardId));
+      setHistory(createDeckHistory());
+      setEditingIndex(null);
+      setActiveCardIndex(project.cards.length > 0 ? 0 : null);
+      setFidelityReport(null);
+      setLastSplitFromCache(false);
+      setSplitFallback(null);
+      setPendingRegeneration(false);
+      setPendingOverflowNormalization(false);
+      setDismissedCapacitySignature(null);
+      setHasCardEditsSinceGenerate(
+        project.cards.length > 0 && Boolean(project.hasCardEditsSinceGenerate),
+      );
+      // Records saved before the deck was persisted carry no signature; assume it matched.
+      setLastGeneratedCapacitySignature(
+        project.cards.length > 0
+          ? project.lastGeneratedCapacitySignature ?? getCapacitySignature(nextConfig)
+          : null,
+      );
+
+      if (scrollContainerRef.current) {
+        scrollContainerRef.current.scrollLeft = 0;
+      }
+    },
+    [withCardId],
+  );
+
+  const persistActiveProject = useCallback(
+    async (expectedProjectId?: string) => {
+      // A save queued for a project that was since deleted or switched away from is dropped.
+      const current = activeProjectRef.current;
+      if (!current) return;
+      if (expectedProjectId && current.id !== expectedProjectId) return;
+
+      const nextProject: Project = {
+        ...current,
+        inputText,
+        config,
+        configVersion: CONFIG_VERSION,
+        cards,
+        lastGeneratedCapacitySignature,
+        hasCardEditsSinceGenerate,
+        updatedAt: Date.now(),
+      };
+      activeProjectRef.current = nextProject;
+
+      try {
+        await saveProject(nextProject);
+        setProjects(await listProjects());
+      } catch (error) {
+        console.error("Failed to save project:", error);
+      }
+    },
+    [cards, config, hasCardEditsSinceGenerate, inputText, lastGeneratedCapacitySignature],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const hydrateWorkspace = async () => {
+      try {
+        const storedId = readActiveProjectId();
+        const stored = storedId ? await loadProject(storedId) : null;
+        if (cancelled) return;
+
+        if (stored) {
+          applyProject(stored);
+        } else {
+          // First run: adopt whatever the single-document localStorage held.
+          const seeded = createProjectRecord({
+            name: configRef.current.title,
+            inputText: inputTextRef.current,
+            config: configRef.current,
+            configVersion: CONFIG_VERSION,
+            cards: [],
+          });
+          await saveProject(seeded);
+          activeProjectRef.current = seeded;
+          setActiveProjectId(seeded.id);
+          writeActiveProjectId(seeded.id);
+        }
+
+        const summaries = await listProjects();
+        if (!cancelled) setProjects(summaries);
+        void compactProjectImages().catch((error) =>
+          console.error("Failed to compact project images:", error),
+        );
+      } catch (error) {
+        console.error("Failed to open workspace:", error);
+      } finally {
+        if (!cancelled) setIsWorkspaceReady(true);
+      }
+    };
+
+    void hydrateWorkspace();
+    return () => {
+      cancelled = true;
+    };
+    // Hydrate once on mount (applyProject is stable); later edits are picked up by autosave.
+  }, [applyProject]);
+
+  useEffect(() => {
+    if (!isWorkspaceReady || !activeProjectId || isProcessing) return;
+
+    const timeout = setTimeout(() => {
+      autosaveTimeoutRef.current = null;
+      void persistActiveProject(activeProjectId);
+    }, PROJECT_AUTOSAVE_DEBOUNCE_MS);
+    autosaveTimeoutRef.current = timeout;
+    return () => clearTimeout(timeout);
+  }, [activeProjectId, isProcessing, isWorkspaceReady, persistActiveProject]);
+
+  const handleSelectProject = useCallback(
+    async (projectId: string) => {
+      if (projectId === activeProjectRef.current?.id) return;
+      await persistActiveProject();
+
+      try {
+        const project = await loadProject(projectId);
+        if (!project) return;
+        applyProject(project);
+        setProjects(await listProjects());
+      } catch (error) {
+        console.error("Failed to open project:", error);
+      }
+    },
+    [applyProject, persistActiveProject],
+  );
+
+  const handleCreateProject = useCallback(async () => {
+    await persistActiveProject();
+
+    // A fresh project keeps the current look but starts with an empty source.
+    const project = createProjectRecord({
+      inputText: "",
+      config: { ...config, title: "" },
+      configVersion: CONFIG_VERSION,
+      cards: [],
+    });
+
+    try {
+      await saveProject(project);
+      applyProject(project);
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to create project:", error);
+    }
+  }, [applyProject, config, persistActiveProject]);
+
+  const handleDuplicateProject = useCallback(async () => {
+    const current = activeProjectRef.current;
+    if (!current) return;
+    await persistActiveProject();
+
+    try {
+      const copy = await duplicateProject(current.id);
+      if (!copy) return;
+      applyProject(copy);
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to duplicate project:", error);
+    }
+  }, [applyProject, persistActiveProject]);
+
+  const handleRenameProject = useCallback(async (name: string) => {
+    const current = activeProjectRef.current;
+    if (!current) return;
+
+    try {
+      await renameProject(current.id, name);
+      const renamed = await loadProject(current.id);
+      if (renamed && activeProjectRef.current?.id === current.id) {
+        activeProjectRef.current = { ...activeProjectRef.current, name: renamed.name };
+      }
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to rename project:", error);
+    }
+  }, []);
+
+  const handleDeleteProject = useCallback(async () => {
+    const current = activeProjectRef.current;
+    if (!current) return;
+    if (!window.confirm(`Delete "${current.name}"? This cannot be undone.`)) return;
+
+    // Detach the project first so a queued autosave cannot write it back.
+    if (autosaveTimeoutRef.current) clearTimeout(autosaveTimeoutRef.current);
+    autosaveTimeoutRef.current = null;
+    activeProjectRef.current = null;
+
+    try {
+      await deleteProject(current.id);
+      const remaining = await listProjects();
+      const next = remaining.length > 0 ? await loadProject(remaining[0].id) : null;
+
+      if (next) {
+        applyProject(next);
+      } else {
+        const project = createProjectRecord({
+          inputText: "",
+          config: { ...config, title: "" },
+          configVersion: CONFIG_VERSION,
+          cards: [],
+        });
+        await saveProject(project);
+        applyProject(project);
+      }
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      if (!activeProjectRef.current) activeProjectRef.current = current;
+    }
+  }, [applyProject, config]);
+
+  // --- Presets ---
+  const handleApplyPreset = useCallback(
+    (preset: Preset) => {
+      recordHistory(`Apply preset "${preset.name}"`);
+      setConfig((prev) => applyPresetConfig(prev, preset));
+    },
+    [recordHistory],
+  );
+
+  // --- Custom fonts ---
+  useEffect(() => {
+    listCustomFonts()
+      .then(registerCustomFonts)
+      .catch((error) => console.error("Failed to load fonts:", error));
+  }, []);
+
+  const handleFontDeleted = useCallback(
+    (font: CustomFont) => {
+      const current = configRef.current;
+      if (current.titleFont !== font.id && current.bodyFont !== font.id) return;
+      recordHistory(`Delete font "${font.name}"`);
+      setConfig((prev) => ({
+        ...prev,
+        titleFont: prev.titleFont === font.id ? undefined : prev.titleFont,
+        bodyFont: prev.bodyFont === font.id ? undefined : prev.bodyFont,
+      }));
+    },
+    [recordHistory],
+  );
+
   const handleRandomizeGradient = useCallback(() => {
+    recordHistory("Shuffle gradient");
     setConfig((prev) =>
-      usesEditorialGradient(prev)
+      usesGradientBackground(prev)
         ? {
             ...prev,
             gradientBackground: createGradientBackgroundForConfig(prev),
           }
         : prev,
     );
-  }, []);
+  }, [recordHistory]);
 
   const handleRegenerateForCapacityChange = useCallback(async () => {
     if (
@@ -1289,7 +1667,9 @@ const App: React.FC = () => {
       }
 
       const confirmed = window.confirm(
-        "Card capacity changed. Re-generate cards to match the new text capacity? This will overwrite your current card-level edits.",
+        cardsRef.current.some((card) => card.locked)
+          ? "Card capacity changed. Re-split the unlocked cards to match the new text capacity? Locked cards stay exactly as they are."
+          : "Card capacity changed. Re-generate cards to match the new text capacity? This will overwrite your current card-level edits.",
       );
 
       if (!confirmed) {
@@ -1382,6 +1762,10 @@ const App: React.FC = () => {
   ]);
 
   const handleUpdateCard = (index: number, updatedSegment: CardSegment) => {
+    recordHistory("Edit card", {
+      group: `card:${index}`,
+      mergeWindowMs: HISTORY_MERGE_WINDOW_MS,
+    });
     setHasCardEditsSinceGenerate(true);
     // Handle editorial cover card special updates
     const raw = updatedSegment as any;
@@ -1448,83 +1832,53 @@ const App: React.FC = () => {
         setHasCardEditsSinceGenerate(true);
       }
 
-      setCards((prev) => {
-        const next = [...prev];
-        if (!next[index]) return prev;
-        next[index] = {
-          ...splitResult.keptSegment,
-          id: next[index].id || createCardId(),
-        };
-
-        const movedContent = splitResult.movedSegment.content.trim();
-        const nextCard = next[index + 1];
-        const shouldKeepAtomicSplitIsolated =
-          isAtomicMarkdownBlock(splitResult.keptSegment.content) ||
-          isAtomicMarkdownBlock(movedContent);
-
-        // Small remnant (< 80 chars): prepend to the next body card instead of
-        // creating a standalone tiny card that would cause merge-split oscillation.
-        if (
-          !shouldKeepAtomicSplitIsolated &&
-          movedContent.length < 80 &&
-          nextCard &&
-          nextCard.layout !== "cover"
-        ) {
-          const sep = getBoundarySeparatorFromSource(
-            inputText,
-            movedContent,
-            nextCard.content,
-          );
-          next[index + 1] = {
-            ...nextCard,
-            content: `${movedContent}${sep}${nextCard.content.trim()}`.trim(),
-          };
-        } else {
-          next.splice(index + 1, 0, withCardId(splitResult.movedSegment));
-        }
-
-        return next;
-      });
+      setCards((prev) =>
+        applyOverflowSplitToCards(prev, index, splitResult, inputText, withCardId),
+      );
     },
-    [createCardId, inputText, withCardId],
+    [inputText, withCardId],
   );
 
   const applyUnderfillMerge = useCallback(
     (index: number) => {
-      setCards((prev) => {
-        if (!prev[index] || !prev[index + 1]) return prev;
-
-        const next = [...prev];
-        const boundary = getBoundarySeparatorFromSource(
-          inputText,
-          next[index].content,
-          next[index + 1].content,
-        );
-        next[index] = {
-          ...next[index],
-          title: next[index].title.trim() || next[index + 1].title.trim(),
-          content: `${next[index].content.trim()}${boundary}${next[index + 1].content.trim()}`.trim(),
-        };
-        next.splice(index + 1, 1);
-        return next;
-      });
+      setCards((prev) => mergeUnderfilledCard(prev, index, inputText));
     },
     [inputText],
   );
 
   const handleSplitCard = useCallback((index: number, splitSegment: CardSegment) => {
+    // Card splits call onUpdate then onSplit; both land in the same step.
+    recordHistory("Split card", {
+      group: `card:${index}`,
+      mergeWindowMs: HISTORY_MERGE_WINDOW_MS,
+    });
     setHasCardEditsSinceGenerate(true);
     setCards((prev) => {
       const newCards = [...prev];
       newCards.splice(index + 1, 0, withCardId(splitSegment));
       return newCards;
     });
-  }, [withCardId]);
+  }, [recordHistory, withCardId]);
+
+  const handleToggleCardLock = useCallback((index: number) => {
+    const card = cardsRef.current[index];
+    if (!card) return;
+    recordHistory(card.locked ? "Unlock card" : "Lock card");
+    setCards((prev) => {
+      if (!prev[index]) return prev;
+      const next = [...prev];
+      next[index] = { ...next[index], locked: !next[index].locked };
+      return next;
+    });
+  }, [recordHistory]);
 
   const handleDeleteCard = useCallback((index: number) => {
     let didDelete = false;
     let nextFocusedIndex: number | null = null;
 
+    if (!canDeleteCardAtIndex(cardsRef.current, index)) return;
+    recordHistory("Delete card");
+
     setHasCardEditsSinceGenerate(true);
     setCards((prev) => {
       if (!canDeleteCardAtIndex(prev, index)) return prev;
@@ -1554,7 +1908,7 @@ const App: React.FC = () => {
     });
     setActiveEditConfig(null);
     setActiveHasImage(false);
-  }, []);
+  }, [recordHistory]);
 
   const handleStartEdit = (requestedIndex: number) => {
     if (editingIndex !== null && editingIndex !== requestedIndex) {
@@ -1609,6 +1963,7 @@ const App: React.FC = () => {
           heightRatio: existingCard?.imageConfig?.heightRatio,
           aspectRatio: existingCard?.imageConfig?.aspectRatio,
         });
+        recordHistory("Add image");
         setHasCardEditsSinceGenerate(true);
         // Keep editing-state preview in sync immediately.
         cardRefs.current[targetIdx]?.setImage(result);
@@ -1644,6 +1999,7 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (ev) => {
       const result = ev.target?.result as string;
+      recordHistory("Change avatar");
       setConfig(prev => ({ ...prev, authorAvatar: result }));
     };
     reader.readAsDataURL(file);
@@ -1652,6 +2008,10 @@ const App: React.FC = () => {
 
   const handleUpdateImageConfig = (updates: Partial<ImageConfig>) => {
     if (activeCardIndex === null) return;
+    recordHistory("Adjust image", {
+      group: `image:${activeCardIndex}`,
+      mergeWindowMs: HISTORY_MERGE_WINDOW_MS,
+    });
     setHasCardEditsSinceGenerate(true);
     cardRefs.current[activeCardIndex]?.updateImageConfig(updates);
     setCards((prev) => {
@@ -1684,6 +2044,7 @@ const App: React.FC = () => {
         heightRatio: activeCard.imageConfig?.heightRatio,
       });
 
+      recordHistory("Reset image frame");
       setHasCardEditsSinceGenerate(true);
       cardRefs.current[activeCardIndex]?.setImage(originalImage);
       cardRefs.current[activeCardIndex]?.updateImageConfig(restoredConfig);
@@ -1753,6 +2114,7 @@ const App: React.FC = () => {
           panY: 50,
         });
 
+        recordHistory("Crop image");
         setHasCardEditsSinceGenerate(true);
         cardRefs.current[cardIndex]?.setImage(croppedImage);
         cardRefs.current[cardIndex]?.updateImageConfig(nextImageConfig);
@@ -1779,11 +2141,12 @@ const App: React.FC = () => {
         setCropModalState(null);
       }
     },
-    [cards, cropModalState, editingIndex],
+    [cards, cropModalState, editingIndex, recordHistory],
   );
 
   const handleRemoveImage = () => {
     if (activeCardIndex === null) return;
+    recordHistory("Remove image");
     setHasCardEditsSinceGenerate(true);
     cardRefs.current[activeCardIndex]?.removeImage();
     setCards((prev) => {
@@ -1818,70 +2181,47 @@ const App: React.FC = () => {
       overflowNormalizationFrameRef.current = requestAnimationFrame(() => {
         overflowNormalizationFrameRef.current = null;
 
-        if (
-          overflowNormalizationPassRef.current >= OVERFLOW_NORMALIZATION.maxPasses
-        ) {
+        if (overflowNormalizationPassRef.current >= MAX_REFLOW_PASSES) {
           overflowNormalizationPassRef.current = 0;
-          flowFillStableSetRef.current.clear();
-          lastFlowFillMergeIndexRef.current = -1;
+          reflowStateRef.current = createReflowState();
           setPendingOverflowNormalization(false);
           setOverflowNormalizationRevision(0);
           return;
         }
 
-        // Phase 1: resolve any overflow (split)
-        let sawUnresolvedOverflow = false;
-        for (let index = 1; index < cards.length - 1; index += 1) {
-          const handle = cardRefs.current[index];
-          if (!handle?.isOverflowing()) continue;
-
-          const splitResult = handle.resolveOverflow();
-          if (!splitResult) {
-            sawUnresolvedOverflow = true;
-            continue;
-          }
+        // Every pass of one generation's reflow undoes together with the
+        // generate / re-split step that caused it.
+        const recordReflowStep = () =>
+          recordHistory("Reflow cards", {
+            group:
+              reflowHistoryGroupRef.current ?? `reflow:${fontNormalizationRequestRef.current}`,
+          });
 
-          // Only mark as stable when this split was caused by a Phase 2 merge
-          // (merge-then-split cycle). Initial overflow splits should NOT block
-          // Phase 2 from filling the card later.
-          if (index === lastFlowFillMergeIndexRef.current) {
-            flowFillStableSetRef.current.add(index);
-          }
-          lastFlowFillMergeIndexRef.current = -1;
+        const step = planReflowStep(
+          cards,
+          (index) => cardRefs.current[index],
+          reflowStateRef.current,
+        );
+        if (step.type === "split") {
           overflowNormalizationPassRef.current += 1;
-          applyOverflowSplit(index, splitResult, { markEdited: false });
+          recordReflowStep();
+          applyOverflowSplit(step.index, step.split, { markEdited: false });
           return;
         }
-
-        // Phase 2: flow-fill — find the first underfilled card and absorb the
-        // next card into it.  After absorption the merged card will likely
-        // overflow, which Phase 1 handles on the next pass — together they
-        // implement a left-to-right reflow that fills every card to capacity.
-        for (let index = 1; index < cards.length - 2; index += 1) {
-          const handle = cardRefs.current[index];
-          if (!handle) continue;
-
-          const currentCard = cards[index];
-          const nextCard = cards[index + 1];
-          if (!canNormalizeAdjacentCards(currentCard, nextCard)) continue;
-
-          const occupancy = handle.getBodyOccupancy();
-          if (occupancy <= 0 || occupancy >= FLOW_FILL_THRESHOLD) continue;
-          if (flowFillStableSetRef.current.has(index)) continue;
-          lastFlowFillMergeIndexRef.current = index;
+        if (step.type === "merge") {
           overflowNormalizationPassRef.current += 1;
-          applyUnderfillMerge(index);
+          recordReflowStep();
+          applyUnderfillMerge(step.index);
           return;
         }
-
-        if (sawUnresolvedOverflow) {
+        if (step.type === "wait") {
           overflowNormalizationPassRef.current += 1;
           setOverflowNormalizationRevision((prev) => prev + 1);
           return;
         }
 
         overflowNormalizationPassRef.current = 0;
-        flowFillStableSetRef.current.clear();
+        reflowStateRef.current = createReflowState();
         setPendingOverflowNormalization(false);
         setOverflowNormalizationRevision(0);
       });
@@ -1901,65 +2241,241 @@ const App: React.FC = () => {
     isProcessing,
     pendingOverflowNormalization,
     overflowNormalizationRevision,
+    recordHistory,
   ]);
 
   const handleDownload = useCallback(async (index: number) => {
     const handle = cardRefs.current[index];
     if (!handle || !handle.element) return;
-    const el = handle.element;
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 50));
-      const width = el.offsetWidth;
-      const height = el.offsetHeight;
-      const computedStyle = window.getComputedStyle(el);
-      const borderRadius = Number.parseFloat(computedStyle.borderTopLeftRadius) || 0;
-
-      const rawDataUrl = await toPng(el, {
-        cacheBust: true,
-        pixelRatio: 3,
-        width: width,
-        height: height,
-        style: {
-          width: `${width}px`,
-          height: `${height}px`,
-          zoom: "1",
-          transform: "none",
-          margin: "0",
-          maxHeight: "none",
-        },
-        filter: (node) => {
-          if (
-            node.tagName === "LINK" &&
-            (node as HTMLLinkElement).href.includes("lxgw-zhi-song-screen-web")
-          ) {
-            return false;
-          }
-          return true;
-        },
-        fetchRequestInit: {
-          mode: "cors",
-        },
-      });
-      const dataUrl =
-        borderRadius > 0
-          ? await applyTransparentRoundedCorners(rawDataUrl, width, height, borderRadius)
-          : rawDataUrl;
-      const link = document.createElement("a");
-      link.download = `card-${String(index + 1).padStart(2, "0")}.png`;
-      link.href = dataUrl;
-      link.click();
+      const dataUrl = await captureCardElement(handle.element, exportSettings);
+      downloadDataUrl(
+        dataUrl,
+        buildCardFileName(index, cards.length, getExportExtension(exportSettings.format)),
+      );
     } catch (err) {
       console.error("Download failed", err);
     }
+  }, [cards.length, exportSettings]);
+
+  const runDeckExport = useCallback(
+    async (format: "zip" | "pdf" | "slideshow") => {
+      if (!cards.length || exportAbortRef.current) return;
+
+      const controller = new AbortController();
+      exportAbortRef.current = controller;
+      setExportProgress({ completed: 0, total: cards.length });
+
+      const getElement = (index: number) => cardRefs.current[index]?.element ?? null;
+      const baseName = toExportBaseName(config.title);
+
+      try {
+        if (format === "pdf") {
+          const pdf = await exportDeckPdf({
+            cards,
+            getElement,
+            signal: controller.signal,
+            onProgress: setExportProgress,
+          });
+          downloadBlob(pdf, `${baseName}.pdf`);
+        } else if (format === "slideshow") {
+          const video = await exportDeckSlideshow({
+            cards,
+            getElement,
+            settings: exportSettings,
+            gradientBackground: usesGradientBackground(config)
+              ? config.gradientBackground
+              : null,
+            signal: controller.signal,
+            onProgress: setExportProgress,
+          });
+          downloadBlob(
+            video,
+            `${baseName}.${getSlideshowExtension(exportSettings.slideshow.format)}`,
+          );
+        } else {
+          const archive = await exportDeckArchive({
+            cards,
+            getElement,
+            meta: { title: config.title, authorName: config.authorName },
+            settings: exportSettings,
+            signal: controller.signal,
+            onProgress: setExportProgress,
+          });
+          downloadBlob(archive, `${baseName}.zip`);
+        }
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Batch export failed", err);
+          alert("Failed to export cards.");
+        }
+      } finally {
+        exportAbortRef.current = null;
+        setExportProgress(null);
+      }
+    },
+    [cards, config, exportSettings],
+  );
+
+  const handleDownloadAll = useCallback(() => runDeckExport("zip"), [runDeckExport]);
+  const handleDownloadPdf = useCallback(() => runDeckExport("pdf"), [runDeckExport]);
+  const handleDownloadSlideshow = useCallback(
+    () => runDeckExport("slideshow"),
+    [runDeckExport],
+  );
+
+  // Round-trippable source of the edited deck; importing the file restores it exactly.
+  const handleDownloadMarkdown = useCallback(() => {
+    if (!cards.length) return;
+    const markdown = serializeDeckMarkdown(cards, {
+      title: config.title,
+      authorName: config.authorName,
+    });
+    downloadBlob(
+      new Blob([markdown], { type: "text/markdown;charset=utf-8" }),
+      `${toExportBaseName(config.title)}.md`,
+    );
+  }, [cards, config.authorName, config.title]);
+
+  const handleApplyExportProfile = useCallback(
+    (profile: ExportProfile) => {
+      setConfigWithHistory((prev) => ({
+        ...prev,
+        aspectRatio: profile.aspectRatio,
+        safeAreaInset: profile.safeAreaInset,
+      }));
+      // Profiles pin exact pixels, which SVG cannot honour.
+      setExportSettings((prev) => ({
+        ...prev,
+        format: prev.format === "svg" ? "png" : prev.format,
+        sizeMode: "width",
+        targetWidth: profile.width,
+      }));
+    },
+    [setConfigWithHistory],
+  );
+
+  // ── Import ──────────────────────────────────────────────────
+
+  // Imports append to the source so several documents can be combined.
+  const appendImportedText = useCallback((markdown: string) => {
+    if (!markdown.trim()) return;
+    setInputText((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${markdown}` : markdown));
   }, []);
 
-  const handleDownloadAll = useCallback(async () => {
-    for (let i = 0; i < cards.length; i++) {
-      await handleDownload(i);
-      await new Promise((r) => setTimeout(r, 200));
-    }
-  }, [cards.length, handleDownload]);
+  // An exported deck replaces the cards as-is, without going through a splitter.
+  const applyImportedDeck = useCallback(
+    (deck: DeckMarkdown) => {
+      if (deck.cards.length === 0) return;
+      // Detach the cancelled run so it doesn't put its previous deck back over the import.
+      generationAbortRef.current?.abort();
+      generationAbortRef.current = null;
+      recordHistory("Import deck");
+      setCards(deck.cards.map(withCardId));
+      setConfig((prev) => ({
+        ...prev,
+        title: deck.title ?? prev.title,
+        authorName: deck.authorName ?? prev.authorName,
+      }));
+      // Titles go back in as headings so a later re-split keeps them.
+      const bodyCards = deck.cards.filter((card) => card.layout !== "cover");
+      setInputText(joinCardRange(bodyCards, { start: 0, end: bodyCards.length }));
+      setEditingIndex(null);
+      setActiveCardIndex(0);
+      setFidelityReport(null);
+      setLastSplitFromCache(false);
+      setSplitFallback(null);
+      setPendingRegeneration(false);
+      setPendingOverflowNormalization(false);
+      setDismissedCapacitySignature(null);
+      // Treat the file as hand-edited: capacity changes ask before re-splitting it.
+      setHasCardEditsSinceGenerate(true);
+      setLastGeneratedCapacitySignature(getCapacitySignature(configRef.current));
+
+      if (scrollContainerRef.current) {
+        scrollContainerRef.current.scrollLeft = 0;
+      }
+    },
+    [recordHistory, withCardId],
+  );
+
+  const handleImportFiles = useCallback(
+    async (files: File[]) => {
+      setIsImporting(true);
+      try {
+        for (const file of files) {
+          const deck = await readDeckFile(file);
+          if (deck) applyImportedDeck(deck);
+          else appendImportedText(await importDocumentFile(file));
+        }
+      } catch (error) {
+        console.error("Import failed:", error);
+        alert("Failed to import file.");
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [appendImportedText, applyImportedDeck],
+  );
+
+  const handleImportUrl = useCallback(
+    async (url: string) => {
+      setIsImporting(true);
+      try {
+        appendImportedText(await importFromUrl(url));
+        return true;
+      } catch (error) {
+        console.error("URL import failed:", error);
+        alert("Failed to import URL. The site may not allow reading its pages from another origin.");
+        return false;
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [appendImportedText],
+  );
+
+  /** Rich clipboard HTML replaces the textarea selection with its Markdown. */
+  const handlePasteHtml = useCallback(
+    async (html: string, selectionStart: number, selectionEnd: number) => {
+      setIsImporting(true);
+      try {
+        const markdown = await importHtml(html);
+        setInputText((prev) => `${prev.slice(0, selectionStart)}${markdown}${prev.slice(selectionEnd)}`);
+      } catch (error) {
+        console.error("Paste conversion failed:", error);
+        alert("Failed to convert pasted content.");
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [],
+  );
+
+  // Shared by every source textarea: rich paste converts, dropped documents import.
+  const sourceTextareaHandlers: SourceTextareaHandlers = {
+    onPaste: (e) => {
+      const html = e.clipboardData.getData("text/html");
+      if (!html || !isRichHtml(html)) return;
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      void handlePasteHtml(html, selectionStart, selectionEnd);
+    },
+    onDragOver: (e) => {
+      if (Array.from(e.dataTransfer.types).includes("Files")) e.preventDefault();
+    },
+    onDrop: (e) => {
+      const files = Array.from(e.dataTransfer.files).filter(isImportableFile);
+      if (files.length === 0) return;
+      e.preventDefault();
+      void handleImportFiles(files);
+    },
+  };
+
+  const handleCancelExport = useCallback(() => {
+    exportAbortRef.current?.abort();
+  }, []);
 
   const hasContent = cards.length > 0;
   const isLayoutSettling = hasContent && pendingOverflowNormalization;
@@ -1977,18 +2493,19 @@ const App: React.FC = () => {
     };
   };
 
+  const heroPanel = getComposition(config.composition)?.heroPanel ?? "editorial";
   const activeCardWidth = getCardWidth(config.aspectRatio, config.cardScale);
   const activeCardHeight = getCardHeight(config.aspectRatio, config.cardScale);
 
   useEffect(() => {
-    if (!usesEditorialGradient(config)) {
+    if (!usesGradientBackground(config)) {
       setEditorialBackgroundImage(null);
       return;
     }
 
     if (!config.gradientBackground) {
       setConfig((prev) =>
-        usesEditorialGradient(prev)
+        usesGradientBackground(prev)
           ? {
               ...prev,
               gradientBackground: createGradientBackgroundForConfig(prev),
@@ -2050,10 +2567,13 @@ const App: React.FC = () => {
     inputText,
     setInputText,
     config,
-    setConfig,
+    setConfig: setConfigWithHistory,
     isProcessing,
     onProcess: handleProcess,
     onDownloadAll: handleDownloadAll,
+    onDownloadPdf: handleDownloadPdf,
+    onDownloadSlideshow: handleDownloadSlideshow,
+    onDownloadMarkdown: handleDownloadMarkdown,
     onRandomizeGradient: handleRandomizeGradient,
     hasContent,
     zoomLevel,
@@ -2083,7 +2603,44 @@ const App: React.FC = () => {
     onDeleteCard: () =>
       editorTargetIndex !== null && handleDeleteCard(editorTargetIndex),
     activeCardCanDelete,
+    activeCardLocked: editorTargetIndex !== null && !!cards[editorTargetIndex]?.locked,
+    onToggleLock: () =>
+      editorTargetIndex !== null && handleToggleCardLock(editorTargetIndex),
+    selectedCardCount: selectedRange ? selectedRange.end - selectedRange.start : 0,
+    onResplitFromHere: () =>
+      editorTargetIndex !== null &&
+      handleResplitCards({ start: editorTargetIndex, end: cards.length }),
+    onResplitSelected: () => selectedRange && handleResplitCards(selectedRange),
     capacityFeedback,
+    fidelityReport,
+    splitFromCache: lastSplitFromCache,
+    splitFallback,
+    splitCacheStats,
+    onRefreshSplit: handleRefreshSplit,
+    onClearSplitCache: handleClearSplitCache,
+    projects,
+    activeProjectId,
+    onSelectProject: handleSelectProject,
+    onCreateProject: handleCreateProject,
+    onDuplicateProject: handleDuplicateProject,
+    onRenameProject: handleRenameProject,
+    onDeleteProject: handleDeleteProject,
+    exportProgress,
+    onCancelExport: handleCancelExport,
+    exportSettings,
+    onUpdateExportSettings: (updates: Partial<ExportSettings>) =>
+      setExportSettings((prev) => ({ ...prev, ...updates })),
+    onApplyExportProfile: handleApplyExportProfile,
+    onApplyPreset: handleApplyPreset,
+    onFontDeleted: handleFontDeleted,
+    isImporting,
+    onImportFiles: handleImportFiles,
+    onImportUrl: handleImportUrl,
+    sourceTextareaHandlers,
+    canUndo,
+    canRedo,
+    onUndo: handleUndo,
+    onRedo: handleRedo,
     isCollapsed: isConsoleCollapsed,
     onToggleCollapse: () => setIsConsoleCollapsed((prev) => !prev),
     onHeightChange: setConsoleHeight,
@@ -2140,25 +2697,23 @@ const App: React.FC = () => {
               {/* Theme/Composition Tabs */}
               <div className="relative mx-auto flex w-full max-w-4xl flex-col">
                 <div className="flex overflow-x-auto overscroll-x-contain -space-x-[14px] -mb-[1px] pr-1 pt-2 pb-1 no-scrollbar sm:-space-x-[18px] sm:pt-4">
-                  {[
-                    { id: "classic", label: "Classic", zBase: 30 },
-                    { id: "technical", label: "Technical", zBase: 20 },
-                    { id: "editorial", label: "Editorial", zBase: 10 },
-                  ].map((comp, index) => {
+                  {listCompositions().map((comp, index, compositions) => {
                     const isActive = config.composition === comp.id;
+                    // Earlier tabs stack above later ones.
+                    const zBase = (compositions.length - 1 - index) * 10;
                     const isFirst = index === 0;
                     const isVisualStraightLeft = isFirst || isActive;
                     return (
                       <button
                         key={comp.id}
-                        onClick={() => setConfig((prev) => ({ ...prev, composition: comp.id as any }))}
+                        onClick={() => setConfigWithHistory((prev) => ({ ...prev, composition: comp.id }))}
                         className={`
                           relative h-[42px] px-5 text-[10px] font-bold tracking-[0.24em] uppercase transition-all duration-300
                           flex items-center justify-center min-w-[112px] shrink-0 group outline-none sm:h-[46px] sm:min-w-[124px] sm:px-8 sm:text-[11px]
                           ${isActive ? "translate-y-[1px]" : "translate-y-[2px]"}
                         `}
                         style={{
-                          zIndex: isActive ? 40 : comp.zBase,
+                          zIndex: isActive ? 40 : zBase,
                         }}
                       >
                         {/* Trapezoid Folder Background */}
@@ -2166,7 +2721,7 @@ const App: React.FC = () => {
                           className={`
                             absolute inset-0 transition-all duration-500 ease-out
                             border-x border-t border-black/[0.08] shadow-[0_-2px_8px_rgba(15,23,42,0.04)]
-                            ${isActive ? `${getThemeBgClass(config.composition)} scale-y-[1.12]` : `bg-[#f4f4f5] scale-y-[0.98]`}
+                            ${isActive ? `${getHeroBackgroundClass(config.composition)} scale-y-[1.12]` : `bg-[#f4f4f5] scale-y-[0.98]`}
                           `}
                           style={{
                             transformOrigin: "bottom left",
@@ -2177,7 +2732,7 @@ const App: React.FC = () => {
                         
                         {/* Seamless Connection Line (only on active) */}
                         {isActive && (
-                          <div className={`absolute inset-x-[1px] -bottom-[1px] h-[3px] ${getThemeBgClass(config.composition)} z-20 transition-opacity duration-300`}></div>
+                          <div className={`absolute inset-x-[1px] -bottom-[1px] h-[3px] ${getHeroBackgroundClass(config.composition)} z-20 transition-opacity duration-300`}></div>
                         )}
 
                         {/* Label Content */}
@@ -2188,7 +2743,7 @@ const App: React.FC = () => {
                             ${isVisualStraightLeft ? "-translate-x-1.5" : "translate-x-0"}
                           `}
                         >
-                          {comp.label}
+                          {comp.heroLabel ?? comp.label}
                         </span>
                       </button>
                     );
@@ -2197,11 +2752,11 @@ const App: React.FC = () => {
 
                 {/* Hero Input Area */}
                 <div 
-                  className={`relative isolate group flex w-full min-h-[22rem] flex-col overflow-hidden rounded-tl-none rounded-tr-[1.75rem] rounded-b-[1.75rem] border border-black/[0.06] ${getThemeBgClass(config.composition)} shadow-[0_2px_8px_-2px_rgba(15,23,42,0.06),0_12px_24px_-4px_rgba(15,23,42,0.08),0_24px_64px_-12px_rgba(15,23,42,0.12)] transition-all duration-300 focus-within:border-black/10 focus-within:shadow-[0_8px_16px_-4px_rgba(15,23,42,0.08),0_24px_48px_-12px_rgba(15,23,42,0.12),0_48px_84px_-24px_rgba(15,23,42,0.16)] md:min-h-[26rem] md:max-h-[min(68dvh,42rem)]`}
+                  className={`relative isolate group flex w-full min-h-[22rem] flex-col overflow-hidden rounded-tl-none rounded-tr-[1.75rem] rounded-b-[1.75rem] border border-black/[0.06] ${getHeroBackgroundClass(config.composition)} shadow-[0_2px_8px_-2px_rgba(15,23,42,0.06),0_12px_24px_-4px_rgba(15,23,42,0.08),0_24px_64px_-12px_rgba(15,23,42,0.12)] transition-all duration-300 focus-within:border-black/10 focus-within:shadow-[0_8px_16px_-4px_rgba(15,23,42,0.08),0_24px_48px_-12px_rgba(15,23,42,0.12),0_48px_84px_-24px_rgba(15,23,42,0.16)] md:min-h-[26rem] md:max-h-[min(68dvh,42rem)]`}
                   style={{ zIndex: 35 }}
                 >
                   
-                  {config.composition === 'editorial' && (
+                  {heroPanel === 'editorial' && (
                     <>
                       <div className="relative z-10 flex flex-col flex-1 min-h-0 px-5 pt-6 pb-5 sm:px-8 sm:pt-7 sm:pb-6">
                         <div className="flex items-center mb-1 shrink-0">
@@ -2209,7 +2764,7 @@ const App: React.FC = () => {
                           <input
                             type="text"
                             value={config.title}
-                            onChange={(e) => setConfig(prev => ({ ...prev, title: e.target.value }))}
+                            onChange={(e) => setConfigWithHistory(prev => ({ ...prev, title: e.target.value }))}
                             placeholder="Add a title..."
                             className="w-full h-10 bg-transparent text-lg font-bold outline-none text-black/90 placeholder:text-black/20 tracking-[0.01em] font-oppo sm:text-xl"
                           />
@@ -2219,7 +2774,7 @@ const App: React.FC = () => {
                           <input
                             type="text"
                             value={config.authorName}
-                            onChange={(e) => setConfig(prev => ({ ...prev, authorName: e.target.value }))}
+                            onChange={(e) => setConfigWithHistory(prev => ({ ...prev, authorName: e.target.value }))}
                             placeholder="Add an author..."
                             className="w-full h-8 bg-transparent text-sm font-medium outline-none text-black/60 placeholder:text-black/20 tracking-[0.01em] font-oppo sm:text-base"
                           />
@@ -2229,6 +2784,7 @@ const App: React.FC = () => {
                           <textarea
                             value={inputText}
                             onChange={(e) => setInputText(e.target.value)}
+                            {...sourceTextareaHandlers}
                             placeholder="Paste your article or notes here..."
                             className="w-full h-full flex-1 text-base text-black/90 placeholder:text-black/20 outline-none resize-none bg-transparent leading-[1.8] font-oppo tracking-wide selection:bg-orange-100 pr-4 -mr-4 custom-scrollbar sm:text-lg"
                             spellCheck={false}
@@ -2262,7 +2818,7 @@ const App: React.FC = () => {
                     </>
                   )}
 
-                  {config.composition === 'classic' && (
+                  {heroPanel === 'classic' && (
                     <div className="relative z-10 flex flex-col flex-1 h-full font-sans transition-opacity duration-300 animate-in fade-in">
                       <div className="flex flex-col sm:flex-row border-b border-black/[0.08]">
                          <div className="flex-1 border-b sm:border-b-0 sm:border-r border-black/[0.08] px-5 pt-5 pb-3 sm:px-6 sm:pt-6 sm:pb-3 flex flex-col justify-center transition-colors focus-within:bg-white/40">
@@ -2273,7 +2829,7 @@ const App: React.FC = () => {
                             <input
                               type="text"
                               value={config.title}
-                              onChange={(e) => setConfig(prev => ({ ...prev, title: e.target.value }))}
+                              onChange={(e) => setConfigWithHistory(prev => ({ ...prev, title: e.target.value }))}
                               className="w-full bg-transparent text-lg sm:text-xl font-bold outline-none text-black/90 placeholder:text-black/20 font-oppo"
                               placeholder="Document identifier..."
                             />
@@ -2286,7 +2842,7 @@ const App: React.FC = () => {
                             <input
                               type="text"
                               value={config.authorName}
-                              onChange={(e) => setConfig(prev => ({ ...prev, authorName: e.target.value }))}
+                              onChange={(e) => setConfigWithHistory(prev => ({ ...prev, authorName: e.target.value }))}
                               className="w-full bg-transparent text-base sm:text-lg font-medium outline-none text-black/70 placeholder:text-black/20 font-oppo"
                               placeholder="Creator name..."
                             />
@@ -2307,6 +2863,7 @@ const App: React.FC = () => {
                          <textarea
                            value={inputText}
                            onChange={(e) => setInputText(e.target.value)}
+                           {...sourceTextareaHandlers}
                            className="w-full flex-1 bg-transparent text-base sm:text-lg leading-[1.8] outline-none resize-none placeholder:text-black/20 text-black/80 font-oppo selection:bg-[#ea580c]/20 custom-scrollbar pr-2"
                            placeholder="Enter primary structural content here..."
                            spellCheck={false}
@@ -2339,7 +2896,7 @@ const App: React.FC = () => {
                     </div>
                   )}
 
-                  {config.composition === 'technical' && (
+                  {heroPanel === 'technical' && (
                     <div className="relative z-10 flex flex-col flex-1 h-full font-mono text-black/90 transition-opacity duration-300 animate-in fade-in">
                       <div className="relative z-10 p-5 sm:p-6 sm:pb-0 flex flex-col gap-4 sm:gap-5">
                          <div className="flex flex-col sm:flex-row gap-4 sm:gap-8 border-b border-black/10 pb-3">
@@ -2351,7 +2908,7 @@ const App: React.FC = () => {
                                <input
                                  type="text"
                                  value={config.title}
-                                 onChange={(e) => setConfig(prev => ({ ...prev, title: e.target.value }))}
+                                 onChange={(e) => setConfigWithHistory(prev => ({ ...prev, title: e.target.value }))}
                                  className="w-full bg-transparent text-lg sm:text-xl font-bold outline-none placeholder:text-black/15 font-oppo"
                                  placeholder="[ ENTER TITLE ]"
                                />
@@ -2364,7 +2921,7 @@ const App: React.FC = () => {
                                <input
                                  type="text"
                                  value={config.authorName}
-                                 onChange={(e) => setConfig(prev => ({ ...prev, authorName: e.target.value }))}
+                                 onChange={(e) => setConfigWithHistory(prev => ({ ...prev, authorName: e.target.value }))}
                                  className="w-full bg-transparent text-base sm:text-lg font-medium outline-none placeholder:text-black/15 font-oppo"
                                  placeholder="[ ENTER AUTHOR ]"
                                />
@@ -2381,6 +2938,7 @@ const App: React.FC = () => {
                          <textarea
                            value={inputText}
                            onChange={(e) => setInputText(e.target.value)}
+                           {...sourceTextareaHandlers}
                            className="w-full flex-1 bg-transparent text-base sm:text-lg leading-[1.8] outline-none resize-none placeholder:text-black/15 text-black/80 font-oppo selection:bg-[#ea580c]/20 custom-scrollbar"
                            placeholder="> PASTE DATA STREAM HERE..."
                            spellCheck={false}
@@ -2447,6 +3005,15 @@ const App: React.FC = () => {
                           const container = scrollContainerRef.current;
                           const wrapper = event.currentTarget as HTMLDivElement;
 
+                          setSelectedRange(
+                            event.shiftKey && activeCardIndex !== null && activeCardIndex !== idx
+                              ? {
+                                  start: Math.min(activeCardIndex, idx),
+                                  end: Math.max(activeCardIndex, idx) + 1,
+                                }
+                              : null,
+                          );
+                          if (event.shiftKey && activeCardIndex !== null) return;
                           setActiveCardIndex(idx);
 
                           if (container) {
@@ -2482,7 +3049,11 @@ const App: React.FC = () => {
                               activeCardIndex === idx,
                               activeConsoleTab,
                               editingIndex === idx,
-                            )} ${isScrolling && editingIndex !== idx ? 'pointer-events-none' : ''}`}
+                            )} ${isScrolling && editingIndex !== idx ? 'pointer-events-none' : ''} ${
+                              selectedRange && idx >= selectedRange.start && idx < selectedRange.end
+                                ? 'outline outline-2 outline-offset-4 outline-[#ea580c]/70'
+                                : ''
+                            }`}
                             style={{
                               ...getCardStyle(config.aspectRatio, config.cardScale),
                               // @ts-ignore
@@ -2518,9 +3089,19 @@ const App: React.FC = () => {
                             }
                             onAvatarUpload={triggerAvatarUpload}
                             showOverflowControl={
-                              hasCardEditsSinceGenerate && !pendingOverflowNormalization
+                              hasCardEditsSinceGenerate &&
+                              !pendingOverflowNormalization &&
+                              !segment.locked
                             }
                           />
+                          {segment.locked && (
+                            <div
+                              className="pointer-events-none absolute right-2.5 top-2.5 z-10 flex h-6 w-6 items-center justify-center rounded-full bg-black/55 text-white"
+                              title="Locked"
+                            >
+                              <Lock size={11} strokeWidth={2.5} />
+                            </div>
+                          )}
                         </div>
                       </div>
                     ))}
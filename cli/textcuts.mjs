@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+/**
+ * [INPUT]: 依赖 vite 的 createServer（以项目自身的 vite.config.ts 起一个本地服务），依赖 puppeteer-core 驱动本机已装的
+ *          Chrome / Chromium（--browser、TEXTCUTS_BROWSER 或 PUPPETEER_EXECUTABLE_PATH 指定路径，缺省找 Chrome 稳定版），
+ *          依赖 components/RenderHost 在页面上暴露的 window.textcutsRender
+ * [OUTPUT]: 命令行入口 `textcuts render <input.md> --config config.json --out dir/`
+ * [POS]: cli/ 的无界面渲染入口，供 CI 与脚本批量出图；自身不含切分 / 排版逻辑——
+ *        输入文本与配置原样交给浏览器里的同一套 Card 组件与导出管线，再把结果写入磁盘
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const OUTPUTS = new Set(["png", "jpeg", "webp", "svg", "zip", "pdf"]);
+const SPLIT_MODES = new Set(["ai", "local"]);
+const RENDER_READY_TIMEOUT_MS = 60_000;
+// AI splits of long documents stream for a while; give the page call room.
+const RENDER_TIMEOUT_MS = 10 * 60_000;
+// The app bundles no provider keys, so AI mode hands these to the page per job.
+const API_KEY_ENV = { gemini: "GEMINI_API_KEY", openai: "OPENAI_API_KEY", anthropic: "ANTHROPIC_API_KEY" };
+
+const USAGE = `Usage: textcuts render <input.md> [options]
+
+Options:
+  --config <file>          CardConfig JSON (the value the app stores as textcuts_config),
+                           or a saved project / preset record carrying config + configVersion
+  --config-version <n>     Version the config was saved with (default: the record's, else 0,
+                           so configs of unknown age are migrated like the app does)
+  --out <dir>              Output directory (default: current directory)
+  --format <format>        png | jpeg | webp | svg | zip | pdf (default: png)
+  --mode <mode>            Override the split mode: ai | local
+  --width <px>             Export every card at this pixel width
+  --pixel-ratio <n>        Export at this multiple of the on-screen size
+  --quality <0-1>          JPEG / WebP quality
+  --no-manifest            Leave manifest.json out of ZIP output
+  --browser <path>         Chrome / Chromium executable (default: $TEXTCUTS_BROWSER,
+                           $PUPPETEER_EXECUTABLE_PATH, then the installed Chrome)
+  --no-sandbox             Run Chrome without its sandbox (containers; implied when run as root)
+  -h, --help               Show this help
+`;
+
+const parseNumber = (value, name) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`--${name} expects a positive number, got "${value}"`);
+  }
+  return number;
+};
+
+const parseConfigVersion = (value) => {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`--config-version expects a whole number, got "${value}"`);
+  }
+  return version;
+};
+
+const isObject = (value) => Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/** A bare CardConfig, or a saved record (project / preset) that says which version wrote it. */
+const readConfig = async (file) => {
+  if (!file) return { config: {} };
+  const parsed = JSON.parse(await readFile(file, "utf8"));
+  if (!isObject(parsed)) {
+    throw new Error(`${file} does not contain a CardConfig object`);
+  }
+  if (isObject(parsed.config) && typeof parsed.configVersion === "number") {
+    return { config: parsed.config, configVersion: parsed.configVersion };
+  }
+  return { config: parsed };
+};
+
+/** puppeteer-core ships no browser: use the one named, or the installed stable Chrome. */
+const resolveBrowserLaunch = ({ browser: browserPath, "no-sandbox": noSandbox }) => {
+  const executablePath =
+    browserPath || process.env.TEXTCUTS_BROWSER || process.env.PUPPETEER_EXECUTABLE_PATH;
+  // Chrome refuses to start sandboxed as root, which is the norm in CI containers.
+  const runAsRoot = process.getuid?.() === 0;
+  if (runAsRoot && !noSandbox) {
+    console.error("textcuts: running as root, starting Chrome with --no-sandbox");
+  }
+  const args = [
+    // Container /dev/shm is often too small for page rendering.
+    "--disable-dev-shm-usage",
+    ...(noSandbox || runAsRoot ? ["--no-sandbox", "--disable-setuid-sandbox"] : []),
+  ];
+  return executablePath ? { executablePath, args } : { channel: "chrome", args };
+};
+
+const buildJob = async (inputFile, values) => {
+  const output = values.format ?? "png";
+  if (!OUTPUTS.has(output)) {
+    throw new Error(`Unknown --format "${output}"`);
+  }
+  if (values.mode && !SPLIT_MODES.has(values.mode)) {
+    throw new Error(`Unknown --mode "${values.mode}"`);
+  }
+
+  const { config, configVersion } = await readConfig(values.config);
+  if (values.mode) config.splitMode = values.mode;
+
+  const width = parseNumber(values.width, "width");
+  const pixelRatio = parseNumber(values["pixel-ratio"], "pixel-ratio");
+  const quality = parseNumber(values.quality, "quality");
+  const exportSettings = {
+    ...(width ? { sizeMode: "width", targetWidth: Math.round(width) } : {}),
+    ...(pixelRatio ? { sizeMode: "pixelRatio", pixelRatio } : {}),
+    ...(quality ? { quality: Math.min(1, quality) } : {}),
+    ...(values["no-manifest"] ? { includeManifest: false } : {}),
+  };
+
+  return {
+    text: await readFile(inputFile, "utf8"),
+    config,
+    // Unversioned configs may predate any migration, so they start from 0 as in the app.
+    configVersion: parseConfigVersion(values["config-version"]) ?? configVersion ?? 0,
+    output,
+    exportSettings,
+    apiKeys: Object.fromEntries(
+      Object.entries(API_KEY_ENV)
+        .map(([id, name]) => [id, process.env[name]])
+        .filter(([, key]) => key),
+    ),
+  };
+};
+
+const renderDeck = async (job, launchOptions) => {
+  const [{ createServer }, { default: puppeteer }] = await Promise.all([
+    import("vite"),
+    import("puppeteer-core"),
+  ]);
+
+  const server = await createServer({
+    root: ROOT,
+    logLevel: "error",
+    server: { host: "127.0.0.1", port: 4317, strictPort: false, hmr: false },
+  });
+  let browser;
+
+  try {
+    await server.listen();
+    const baseUrl = server.resolvedUrls?.local[0];
+    if (!baseUrl) throw new Error("Failed to start the render server");
+
+    const launch = resolveBrowserLaunch(launchOptions);
+    try {
+      browser = await puppeteer.launch({ ...launch, protocolTimeout: RENDER_TIMEOUT_MS });
+    } catch (error) {
+      throw new Error(
+        `Failed to launch ${launch.executablePath ?? "Chrome"} (pass --browser <path>): ${
+          error instanceof Error ? error.message : error
+        }`,
+      );
+    }
+    const page = await browser.newPage();
+    page.on("pageerror", (error) => console.error("textcuts: page error:", error.message));
+    await page.setViewport({ width: 1600, height: 1200 });
+    await page.goto(`${baseUrl}?render`, { waitUntil: "load" });
+    await page.waitForFunction(() => typeof window.textcutsRender === "function", {
+      timeout: RENDER_READY_TIMEOUT_MS,
+    });
+
+    return await page.evaluate((renderJob) => window.textcutsRender(renderJob), job);
+  } finally {
+    await browser?.close();
+    await server.close();
+  }
+};
+
+const runRender = async (positionals, values) => {
+  const [inputFile] = positionals;
+  if (!inputFile) {
+    throw new Error("Missing input file");
+  }
+
+  const job = await buildJob(inputFile, values);
+  const result = await renderDeck(job, values);
+  const outDir = path.resolve(values.out ?? ".");
+  await mkdir(outDir, { recursive: true });
+
+  for (const file of result.files) {
+    const target = path.join(outDir, file.name);
+    await writeFile(target, Buffer.from(file.base64, "base64"));
+    console.log(path.relative(process.cwd(), target) || target);
+  }
+  if (result.fallback) {
+    console.error(`textcuts: warning: the AI splitter failed, cards were split offline (${result.fallback})`);
+  }
+  console.error(`textcuts: rendered ${result.cards.length} cards`);
+};
+
+const main = async () => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      "config-version": { type: "string" },
+      out: { type: "string" },
+      format: { type: "string" },
+      mode: { type: "string" },
+      width: { type: "string" },
+      "pixel-ratio": { type: "string" },
+      quality: { type: "string" },
+      "no-manifest": { type: "boolean" },
+      browser: { type: "string" },
+      "no-sandbox": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== "render") {
+    throw new Error(`Unknown command "${command}"`);
+  }
+  await runRender(rest, values);
+};
+
+main().catch((error) => {
+  console.error(`textcuts: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -1,9 +1,15 @@
 /**
- * [INPUT]: 依赖 react-markdown 的 Markdown 渲染，依赖 ../types 的 CardConfig/CardSegment/ImageConfig/Composition，
- *          依赖 ../utils/textSplit 的 carvePrefixForRebalance / splitIntoSentences 等切分工具
+ * [INPUT]: 依赖 react-markdown 的 Markdown 渲染，依赖 ../types 的 CardConfig/CardSegment/ImageConfig/Composition/ThemeTokens，
+ *          依赖 ../utils/textSplit 的 carvePrefixForRebalance / splitIntoSentences 等切分工具，
+ *          依赖 ../utils/themeTokens 的 resolveThemeTokens / withAlpha（所有配色都读令牌，不判断 colorway），
+ *          依赖 ../utils/fontFamilies 的 resolveFontFamily（标题 / 正文可分别使用内置或上传字体），
+ *          依赖 ../services/fontStore 的 waitForCustomFonts / subscribeToFontRegistration（上传字体注册完成后重新测量溢出），
+ *          依赖 ../utils/compositionRegistry 的构图定义与选项，依赖 ./compositions（导入即登记构图模块）
  * [OUTPUT]: 对外提供 Card 组件 (forwardRef)、CardHandle 接口（命令式 API）、OverflowSplitResult 接口
  * [POS]: components/ 的核心渲染单元；一张 Card 对应一个 CardSegment；
- *        通过 CardHandle 向 App.tsx 暴露编辑与溢出处理能力，避免状态下沉
+ *        通过 CardHandle 向 App.tsx 暴露编辑与溢出处理能力，避免状态下沉；
+ *        classic / technical / editorial 在本文件内渲染，注册表中带 renderBody 的构图模块经 CompositionRenderContext 渲染，
+ *        其 measure 钩子（正文自适应缩放、占用率、溢出判定）在这里执行
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
 import React, { useState, useEffect, useRef, useLayoutEffect, forwardRef, useImperativeHandle } from 'react';
@@ -20,14 +26,14 @@ const ensureMermaidInitialized = () => {
 
 const waitForNextFrame = () => new Promise<void>(r => requestAnimationFrame(() => r()));
 
-// Module-level SVG cache: key = code|isDark|accentColor|textColor
+// Module-level SVG cache: key = code|tone|node|edge|accentColor|textColor
 // Once a diagram is rendered it's stored here and restored synchronously on
 // any subsequent mount — no async gap, no opacity animation, no flicker.
 const mermaidSvgCache = new Map<string, string>();
 
 function applyMermaidStyles(
   svgEl: SVGSVGElement,
-  accentColor: string, isDark: boolean, textColor: string
+  accentColor: string, theme: ThemeTokens
 ) {
   svgEl.style.maxWidth = '100%';
   svgEl.style.height = 'auto';
@@ -39,11 +45,10 @@ function applyMermaidStyles(
   const r = parseInt(hex.slice(0, 2), 16);
   const g = parseInt(hex.slice(2, 4), 16);
   const b = parseInt(hex.slice(4, 6), 16);
-  const nodeFill = isDark
-    ? `rgba(${r},${g},${b},0.14)`
-    : `rgba(${r},${g},${b},0.06)`;
-  const edgeColor = isDark ? 'rgba(248,250,252,0.68)' : 'rgba(0,0,0,0.20)';
-  const labelColor = isDark ? '#f8fafc' : textColor;
+  const isDark = theme.tone === 'dark';
+  const nodeFill = theme.mermaidNode;
+  const edgeColor = theme.mermaidEdge;
+  const labelColor = theme.text;
   const accentStroke = isDark ? `rgba(${r},${g},${b},0.96)` : accentColor;
   const accentGlow = isDark ? `drop-shadow(0 0 8px rgba(${r},${g},${b},0.20))` : 'none';
 
@@ -73,8 +78,8 @@ function applyMermaidStyles(
   });
   svgEl.querySelectorAll<SVGElement>('.labelBox, .sequenceNumber').forEach(el => {
     if (isDark) {
-      el.setAttribute('fill', 'rgba(19,24,31,0.92)');
-      el.style.fill = 'rgba(19,24,31,0.92)';
+      el.setAttribute('fill', withAlpha(theme.surface, 0.92));
+      el.style.fill = withAlpha(theme.surface, 0.92);
     }
     el.setAttribute('stroke', accentStroke);
     el.style.stroke = accentStroke;
@@ -90,14 +95,15 @@ function applyMermaidStyles(
 }
 
 interface MermaidBlockProps {
-  code: string; isDark: boolean; accentColor: string; textColor: string; backgroundColor: string;
+  code: string; theme: ThemeTokens; accentColor: string;
 }
 
-const MermaidBlock: React.FC<MermaidBlockProps> = React.memo(({ code, isDark, accentColor, textColor }) => {
+const MermaidBlock: React.FC<MermaidBlockProps> = React.memo(({ code, theme, accentColor }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [hasError, setHasError] = useState(false);
   const renderRunRef = useRef(0);
-  const cacheKey = `${code}|${isDark}|${accentColor}|${textColor}`;
+  const isDark = theme.tone === 'dark';
+  const cacheKey = `${code}|${theme.tone}|${theme.mermaidNode}|${theme.mermaidEdge}|${accentColor}|${theme.text}`;
   const accentHex = accentColor.replace('#', '').padEnd(6, '0');
   const accentR = parseInt(accentHex.slice(0, 2), 16);
   const accentG = parseInt(accentHex.slice(2, 4), 16);
@@ -111,7 +117,7 @@ const MermaidBlock: React.FC<MermaidBlockProps> = React.memo(({ code, isDark, ac
     if (cached) {
       el.innerHTML = cached;
       const svg = el.querySelector('svg') as SVGSVGElement | null;
-      if (svg) applyMermaidStyles(svg, accentColor, isDark, textColor);
+      if (svg) applyMermaidStyles(svg, accentColor, theme);
       el.style.transition = 'none';
       el.style.opacity = '1';
     } else {
@@ -139,7 +145,7 @@ const MermaidBlock: React.FC<MermaidBlockProps> = React.memo(({ code, isDark, ac
         if (!el) return;
         el.innerHTML = svg;
         const svgEl = el.querySelector('svg') as SVGSVGElement | null;
-        if (svgEl) applyMermaidStyles(svgEl, accentColor, isDark, textColor);
+        if (svgEl) applyMermaidStyles(svgEl, accentColor, theme);
         await waitForNextFrame(); if (gone()) return;
         await waitForNextFrame(); if (gone()) return;
         el.style.transition = 'opacity 0.18s ease';
@@ -162,8 +168,8 @@ const MermaidBlock: React.FC<MermaidBlockProps> = React.memo(({ code, isDark, ac
       className="my-4 w-full flex justify-center overflow-hidden rounded-xl [&>svg]:max-w-full [&>svg]:h-auto"
       style={{
         padding: '16px 12px',
-        background: isDark ? 'rgba(15,16,20,0.88)' : '#f4f4f5',
-        border: `1px solid ${isDark ? 'rgba(255,255,255,0.08)' : '#e4e4e7'}`,
+        background: isDark ? withAlpha(theme.surface, 0.88) : theme.surface,
+        border: `1px solid ${theme.border}`,
         boxShadow: isDark
           ? `inset 0 1px 0 rgba(255,255,255,0.03), 0 0 0 1px rgba(${accentR},${accentG},${accentB},0.06)`
           : 'none',
@@ -171,7 +177,7 @@ const MermaidBlock: React.FC<MermaidBlockProps> = React.memo(({ code, isDark, ac
     />
   );
 });
-import { CardConfig, AspectRatio, CardSegment, FontStyle, Composition, ImageConfig } from '../types';
+import { CardConfig, AspectRatio, CardSegment, FontStyle, Composition, ImageConfig, ThemeTokens } from '../types';
 import {
   carvePrefixForRebalance,
   hasAtomicMarkdownSyntax,
@@ -181,6 +187,11 @@ import {
   splitIntoClauses,
   splitAtNearestPunctuation,
 } from '../utils/textSplit';
+import { resolveThemeTokens, withAlpha } from '../utils/themeTokens';
+import { resolveFontFamily } from '../utils/fontFamilies';
+import { subscribeToFontRegistration, waitForCustomFonts } from '../services/fontStore';
+import { CompositionDefinition, CompositionTitleOptions, getComposition, getCompositionOptions } from '../utils/compositionRegistry';
+import './compositions';
 import { Scissors, Trash2, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, ZoomIn, Scaling, Move, ScanLine, Square, RectangleHorizontal, RectangleVertical } from 'lucide-react';
 
 interface CardProps {
@@ -246,8 +257,11 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   const [isOverflowing, setIsOverflowing] = useState(false);
   const [bodyOccupancy, setBodyOccupancy] = useState(0);
   const [snapGuides, setSnapGuides] = useState<{ x: boolean; y: boolean }>({ x: false, y: false });
+  const [bodyFitScale, setBodyFitScale] = useState(1);
+  const [fontsReadyRevision, setFontsReadyRevision] = useState(0);
 
   const contentRef = useRef<HTMLDivElement>(null);
+  const bodyFitRef = useRef<HTMLDivElement>(null);
   const contentMeasureRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const titleInputRef = useRef<HTMLTextAreaElement | HTMLInputElement>(null);
@@ -260,6 +274,12 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   const displayIndex = String(index).padStart(2, '0');
   const displayTotal = String(Math.max(0, total - 2)).padStart(2, '0');
 
+  // --- COMPOSITION ---
+  const compositionDefinition = getComposition(config.composition);
+  const compositionOptions = getCompositionOptions(config);
+  const [minBodyFitScale, maxBodyFitScale] = compositionDefinition?.measure?.fitScale?.(compositionOptions) ?? [1, 1];
+  const hasBodyFit = Boolean(compositionDefinition?.measure?.fitScale);
+
   const handleSave = () => {
     if (onUpdate) onUpdate({
       title: editTitle,
@@ -762,7 +782,8 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
       const contentNode = contentMeasureRef.current;
       if (!frame || !contentNode || isEditing) return 0;
       if (frame.clientHeight <= 0) return 0;
-      return contentNode.scrollHeight / frame.clientHeight;
+      const occupancy = contentNode.scrollHeight / frame.clientHeight;
+      return compositionDefinition?.measure?.getBodyOccupancy?.(occupancy) ?? occupancy;
     },
   }));
 
@@ -788,17 +809,68 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     }
   }, [editImage, editImageConfig, isEditing, onEditChange]);
 
+  // Uploaded fonts register asynchronously and change text metrics once they
+  // apply, so measure again when they (and any pending webfonts) are ready.
+  useEffect(() => {
+    let cancelled = false;
+    waitForCustomFonts()
+      .then(() => document.fonts.ready)
+      .then(() => {
+        if (!cancelled) setFontsReadyRevision(prev => prev + 1);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [config.fontStyle, config.titleFont, config.bodyFont]);
+
+  useEffect(
+    () => subscribeToFontRegistration(() => setFontsReadyRevision(prev => prev + 1)),
+    [],
+  );
+
   useLayoutEffect(() => {
     if (contentRef.current && contentMeasureRef.current && !isEditing) {
       const { clientHeight } = contentRef.current;
       const { scrollHeight } = contentMeasureRef.current;
       setBodyOccupancy(clientHeight > 0 ? scrollHeight / clientHeight : 0);
-      setIsOverflowing(scrollHeight > clientHeight + 4);
+      const isOverflowingBody = compositionDefinition?.measure?.isOverflowing;
+      setIsOverflowing(
+        isOverflowingBody ? isOverflowingBody(scrollHeight, clientHeight) : scrollHeight > clientHeight + 4,
+      );
     } else {
       setBodyOccupancy(0);
       setIsOverflowing(false);
     }
-  }, [content, editContent, currentLayout, config.fontSize, config.cardScale, config.aspectRatio, config.title, config.authorName, isEditing, config.fontStyle, config.composition, editImage, editImageConfig]);
+  }, [content, editContent, currentLayout, config.fontSize, config.cardScale, config.aspectRatio, config.title, config.authorName, isEditing, config.fontStyle, config.titleFont, config.bodyFont, fontsReadyRevision, config.composition, editImage, editImageConfig, bodyFitScale]);
+
+  // Compositions with a fitScale grow the body to the largest scale that still
+  // fits its frame. The overflow effect above re-measures at that scale, so a
+  // body that overflows even at the minimum splits like any other card.
+  useLayoutEffect(() => {
+    const scaler = bodyFitRef.current;
+    const frame = contentRef.current;
+    const measure = contentMeasureRef.current;
+    if (!hasBodyFit || isEditing || !scaler || !frame || !measure) return;
+
+    const fits = (scale: number) => {
+      scaler.style.fontSize = `${scale}em`;
+      return measure.scrollHeight <= frame.clientHeight;
+    };
+    let best = minBodyFitScale;
+    if (fits(maxBodyFitScale)) {
+      best = maxBodyFitScale;
+    } else {
+      let high = maxBodyFitScale;
+      for (let step = 0; step < 8; step += 1) {
+        const mid = (best + high) / 2;
+        if (fits(mid)) best = mid;
+        else high = mid;
+      }
+    }
+    const nextScale = Math.floor(best * 100) / 100;
+    scaler.style.fontSize = `${nextScale}em`;
+    setBodyFitScale(nextScale);
+  }, [content, editContent, currentLayout, config.fontSize, config.cardScale, config.aspectRatio, config.authorName, isEditing, config.fontStyle, config.titleFont, config.bodyFont, fontsReadyRevision, config.composition, editImage, editImageConfig, hasBodyFit, minBodyFitScale, maxBodyFitScale]);
 
   useLayoutEffect(() => {
     const input = contentInputRef.current;
@@ -826,8 +898,10 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   const getCardAspectRatioValue = (ratio: AspectRatio) => {
     switch (ratio) {
       case AspectRatio.PORTRAIT: return 3/4;
+      case AspectRatio.FEED: return 4/5;
       case AspectRatio.SQUARE: return 1;
       case AspectRatio.WIDE: return 16/9;
+      case AspectRatio.STORY: return 9/16;
       default: return 3/4;
     }
   };
@@ -900,11 +974,11 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   };
 
   // Shared Styles
-  const isDark = config.colorway === 'neon';
-  const gridColor = isDark ? 'bg-white/5' : 'bg-black/5';
-  const borderColor = isDark ? 'border-white/10' : 'border-black/10';
-  const secondaryTextColor = isDark ? 'text-white/40' : 'text-black/40';
-  const inputBgColor = isDark ? 'bg-white/10' : 'bg-black/5';
+  const theme = resolveThemeTokens(config);
+  const isDark = theme.tone === 'dark';
+  // Unset title / body fonts resolve to undefined so the fontStyle classes apply.
+  const titleFontFamily = resolveFontFamily(config.titleFont, config.fontStyle);
+  const bodyFontFamily = resolveFontFamily(config.bodyFont, config.fontStyle);
   const BODY_TYPOGRAPHY = {
     fontScale: 0.86,         // ~14px base feel at current standard device scales
     lineHeight: 2.0,         // Clean, airy line height of 2 as requested
@@ -918,23 +992,15 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   const px = (value: number) => `${Math.round(value * chromeScale)}px`;
   const rem = (value: number) => `${(value * chromeScale).toFixed(3)}rem`;
   const bodyFontSize = `${(config.fontSize * BODY_TYPOGRAPHY.fontScale).toFixed(3)}rem`;
-  const codeBlockTheme = isDark
-    ? {
-        shellBackground: "#3f3f46",
-        shellBorder: "rgba(255,255,255,0.12)",
-        headerBackground: "#52525b",
-        headerBorder: "rgba(255,255,255,0.1)",
-        headerText: "rgba(255,255,255,0.72)",
-        codeText: "#fafafa",
-      }
-    : {
-        shellBackground: "#ffffff",
-        shellBorder: "rgba(15,23,42,0.12)",
-        headerBackground: "#f4f4f5",
-        headerBorder: "rgba(15,23,42,0.08)",
-        headerText: "rgba(63,63,70,0.7)",
-        codeText: "#27272a",
-      };
+  const codeBlockTheme = {
+    shellBackground: theme.codeBackground,
+    shellBorder: theme.border,
+    // The subtle fill laid over the code background keeps the header a step apart.
+    headerBackground: `linear-gradient(${theme.subtle}, ${theme.subtle}) ${theme.codeBackground}`,
+    headerBorder: theme.border,
+    headerText: theme.muted,
+    codeText: theme.text,
+  };
   const titleEditBaseStyle: React.CSSProperties = {
     color: config.textColor,
     background: 'transparent',
@@ -943,7 +1009,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     border: 'none',
     outline: 'none',
     resize: 'none',
-    fontFamily: 'inherit',
+    fontFamily: titleFontFamily ?? 'inherit',
     letterSpacing: 'inherit',
     wordSpacing: 'inherit',
     textRendering: 'geometricPrecision',
@@ -1103,8 +1169,10 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   const renderMarkdownContent = () => (
     <div 
       ref={contentRef}
-      className={`max-w-none h-full overflow-hidden ${config.composition === 'technical' ? 'flex flex-col justify-center' : ''}`}
+      className={`max-w-none h-full overflow-hidden ${config.composition === 'technical' || compositionDefinition?.body?.center ? 'flex flex-col justify-center' : ''}`}
       style={{
+        // Safe centering keeps an overflowing body top-aligned so split points measure correctly.
+        ...(compositionDefinition?.body?.center ? { justifyContent: 'safe center' } : {}),
         fontSize: 'inherit',
         fontFamily: 'inherit',
         lineHeight: 'inherit',
@@ -1119,7 +1187,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
             p: ({node, ...props}) => (
               <p
                 className="mb-[1.5em] last:mb-0 hyphens-auto font-normal"
-                style={{ textAlign: 'justify', textAlignLast: 'left', lineHeight: 'inherit' }}
+                style={{ textAlign: compositionDefinition?.body?.align ?? 'justify', textAlignLast: 'left', lineHeight: 'inherit' }}
                 {...props}
               />
             ),
@@ -1179,7 +1247,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                   className="mt-3 mb-[1em] rounded-r-2xl border-l-[3px] px-5 py-3 italic [&>p]:mb-0 [&>p+p]:mt-3"
                   style={{
                     borderColor: config.accentColor,
-                    backgroundColor: isDark ? "rgba(255,255,255,0.04)" : "rgba(0,0,0,0.035)",
+                    backgroundColor: theme.subtle,
                     color: config.textColor,
                     opacity: 0.82,
                   }}
@@ -1204,10 +1272,8 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                 return (
                   <MermaidBlock
                     code={codeText.trim()}
-                    isDark={isDark}
+                    theme={theme}
                     accentColor={config.accentColor}
-                    textColor={config.textColor}
-                    backgroundColor={config.backgroundColor}
                   />
                 );
               }
@@ -1277,7 +1343,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                 <code
                   className="rounded-md px-[0.35em] py-[0.12em] font-mono text-[0.9em]"
                   style={{
-                    backgroundColor: isDark ? "rgba(255,255,255,0.08)" : "rgba(0,0,0,0.06)",
+                    backgroundColor: theme.subtle,
                     color: config.accentColor,
                   }}
                   {...props}
@@ -1289,7 +1355,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
             a: ({node, ...props}) => <span className="underline decoration-1 underline-offset-4 decoration-dotted opacity-80" {...props} />
           }}
         >
-          {normalizeMarkdownParagraphs(editContent)}
+          {normalizeMarkdownParagraphs(compositionDefinition?.body?.format?.(editContent) ?? editContent)}
         </ReactMarkdown>
       </div>
     </div>
@@ -1297,7 +1363,10 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
 
   const renderOverflowBtn = () => (
     showOverflowControl && isOverflowing && !isEditing && (
-      <div className={`absolute bottom-0 left-0 right-0 h-24 ${isDark ? 'bg-gradient-to-t from-black/90' : 'bg-gradient-to-t from-white/90'} to-transparent flex items-end justify-center pb-4 z-20`}>
+      <div
+        className="absolute bottom-0 left-0 right-0 h-24 flex items-end justify-center pb-4 z-20"
+        style={{ background: `linear-gradient(to top, ${withAlpha(theme.surface, 0.9)}, transparent)` }}
+      >
           <button 
             onClick={handleSplitCard}
             className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white text-xs font-bold uppercase tracking-widest rounded shadow-lg transition-transform hover:scale-105 active:scale-95 animate-bounce"
@@ -1319,14 +1388,14 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     <div className="flex flex-col h-full w-full">
       {/* Header */}
       <div
-        className={`shrink-0 flex items-center justify-between border-b ${borderColor} font-sans`}
-        style={{ height: px(64), paddingInline: px(32) }}
+        className="shrink-0 flex items-center justify-between border-b font-sans"
+        style={{ height: px(64), paddingInline: px(32), borderColor: theme.border }}
       >
         <div className="flex flex-col justify-center h-full">
            {!isFirst && (
              <span
-               className={`font-mono uppercase tracking-[0.25em] ${secondaryTextColor} mb-0.5`}
-               style={{ fontSize: px(9) }}
+               className="font-mono uppercase tracking-[0.25em] mb-0.5"
+               style={{ fontSize: px(9), color: theme.muted }}
              >
                Project
              </span>
@@ -1341,8 +1410,8 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
         <div className="flex items-center" style={{ gap: px(16) }}>
            {showNumber && (
              <div
-               className={`font-mono tracking-widest ${secondaryTextColor}`}
-               style={{ fontSize: px(10) }}
+               className="font-mono tracking-widest"
+               style={{ fontSize: px(10), color: theme.muted }}
              >
                {displayIndex}<span className="opacity-30 mx-1">/</span>{displayTotal}
              </div>
@@ -1359,7 +1428,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
         className="flex-1 relative flex flex-col overflow-hidden"
         style={{ padding: px(BODY_TYPOGRAPHY.sideInset), paddingTop: px(BODY_TYPOGRAPHY.topInset) }}
       >
-        {!isCover && <div className={`absolute top-0 h-full ${gridColor}`} style={{ left: px(BODY_TYPOGRAPHY.sideInset + 6), width: '1px' }}></div>}
+        {!isCover && <div className="absolute top-0 h-full" style={{ left: px(BODY_TYPOGRAPHY.sideInset + 6), width: '1px', backgroundColor: theme.subtle }}></div>}
         <div
           className={`flex-1 relative z-10 flex flex-col h-full ${isCover ? 'justify-center' : ''}`}
           style={
@@ -1390,7 +1459,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                         <textarea ref={titleInputRef as React.RefObject<HTMLTextAreaElement>} value={editTitle} onChange={(e) => setEditTitle(e.target.value)} placeholder="ENTER TITLE" spellCheck={false}
                           className={`w-full font-bold ${getFontClass(config.fontStyle)}`} rows={3} style={{ ...titleEditBaseStyle, fontSize: rem(2.7), lineHeight: 1.05 }} />
                      ) : (
-                       <h2 className={`font-bold leading-[1.05] text-left break-words whitespace-pre-wrap ${getFontClass(config.fontStyle)}`} style={{ color: config.textColor, fontSize: rem(2.7) }}>
+                       <h2 className={`font-bold leading-[1.05] text-left break-words whitespace-pre-wrap ${getFontClass(config.fontStyle)}`} style={{ color: config.textColor, fontSize: rem(2.7), fontFamily: titleFontFamily }}>
                         {renderHighlightedTitle(editTitle || "UNTITLED")}
                        </h2>
                      )}
@@ -1412,7 +1481,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                       <input ref={titleInputRef as any} value={editTitle} onChange={(e) => setEditTitle(e.target.value)} placeholder="(No Title)" spellCheck={false}
                         className={`w-full font-bold leading-tight placeholder:text-current/20 ${getFontClass(config.fontStyle)}`} style={{ ...titleEditBaseStyle, fontSize: rem(1.75), lineHeight: 'inherit' }} />
                     ) : (
-                      <h2 className={`font-bold leading-tight whitespace-pre-wrap ${getFontClass(config.fontStyle)}`} style={{ color: config.textColor, fontSize: rem(1.75) }}>{editTitle}</h2>
+                      <h2 className={`font-bold leading-tight whitespace-pre-wrap ${getFontClass(config.fontStyle)}`} style={{ color: config.textColor, fontSize: rem(1.75), fontFamily: titleFontFamily }}>{editTitle}</h2>
                     )}
                   </div>
                   <div className="opacity-20 shrink-0" style={{ backgroundColor: config.accentColor, width: px(48), height: '2px', marginBottom: px(20) }}></div>
@@ -1441,8 +1510,8 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
 
       {/* Footer */}
       <div
-        className={`shrink-0 border-t ${borderColor} flex items-center justify-between ${isDark ? 'bg-white/5' : 'bg-black/5'} font-sans`}
-        style={{ height: px(48), paddingInline: px(32) }}
+        className="shrink-0 border-t flex items-center justify-between font-sans"
+        style={{ height: px(48), paddingInline: px(32), borderColor: theme.border, backgroundColor: theme.subtle }}
       >
         <div className="flex items-center" style={{ gap: px(16) }}>
            {config.authorName && <span className="font-bold tracking-widest uppercase opacity-40" style={{ fontSize: px(9) }}>Authored by {config.authorName}</span>}
@@ -1457,7 +1526,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
   const renderTechnical = () => {
     const baseFont = getFontClass(); 
     const isHorizontal = editImageConfig.position === 'left' || editImageConfig.position === 'right';
-    const technicalBadgeTextColor = config.colorway === 'neon' ? '#000000' : '#ffffff';
+    const technicalBadgeTextColor = isDark ? '#000000' : '#ffffff';
     
     // Helper to render the framed technical image
     const renderTechnicalImage = (marginTop = false) => {
@@ -1478,7 +1547,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     };
 
     return (
-      <div className={`flex flex-col h-full w-full relative ${baseFont} overflow-hidden select-none`}>
+      <div className={`flex flex-col h-full w-full relative ${baseFont} overflow-hidden select-none`} style={{ fontFamily: bodyFontFamily }}>
          
          {/* Header */}
          <div
@@ -1540,7 +1609,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                        <textarea ref={titleInputRef as React.RefObject<HTMLTextAreaElement>} value={editTitle} onChange={(e) => setEditTitle(e.target.value)} spellCheck={false}
                          className="w-full font-bold uppercase tracking-tighter leading-[1.0]" rows={4} style={{ ...titleEditBaseStyle, fontSize: rem(3.4), lineHeight: 1 }} />
                     ) : (
-                      <h1 className="font-bold uppercase tracking-tighter leading-[1.0] break-words hyphens-auto whitespace-pre-wrap" style={{ fontSize: rem(3.4) }}>
+                      <h1 className="font-bold uppercase tracking-tighter leading-[1.0] break-words hyphens-auto whitespace-pre-wrap" style={{ fontSize: rem(3.4), fontFamily: titleFontFamily }}>
                         {renderHighlightedTitle(editTitle || "UNTITLED")}
                       </h1>
                     )}
@@ -1584,7 +1653,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                        <input ref={titleInputRef as any} value={editTitle} onChange={(e) => setEditTitle(e.target.value)} spellCheck={false}
                          className="font-bold uppercase tracking-tight w-full" style={{ ...titleEditBaseStyle, fontSize: rem(1.25), lineHeight: 'inherit' }} placeholder="DATA BLOCK" />
                      ) : (
-                       <h2 className="font-bold uppercase tracking-tight leading-none" style={{ fontSize: rem(1.25) }}>
+                       <h2 className="font-bold uppercase tracking-tight leading-none" style={{ fontSize: rem(1.25), fontFamily: titleFontFamily }}>
                          {renderHighlightedTitle(editTitle)}
                        </h2>
                      )}
@@ -1611,7 +1680,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                     )}
 
                     {/* Text Body */}
-                    <div className={`flex-1 min-h-0 relative flex flex-col justify-center ${getFontClass(config.fontStyle)}`} style={{ fontSize: bodyFontSize, lineHeight: bodyLineHeight, letterSpacing: BODY_TYPOGRAPHY.letterSpacing, color: config.textColor }}>
+                    <div className={`flex-1 min-h-0 relative flex flex-col justify-center ${getFontClass(config.fontStyle)}`} style={{ fontSize: bodyFontSize, lineHeight: bodyLineHeight, letterSpacing: BODY_TYPOGRAPHY.letterSpacing, color: config.textColor, fontFamily: bodyFontFamily }}>
                        {isEditing ? (
                          <textarea ref={contentInputRef} value={editContent} onChange={(e) => setEditContent(e.target.value)} className="w-full max-h-full resize-none" style={bodyEditStyle} />
                        ) : renderMarkdownContent()}
@@ -1682,7 +1751,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     };
 
     // Muted gray — solid color matching the visual weight of semi-transparent text
-    const mutedColor = isDark ? 'rgba(255,255,255,0.4)' : 'rgba(0,0,0,0.4)';
+    const mutedColor = theme.muted;
 
     /* ── EDITORIAL TYPE SCALE ──────────────────────────
      *  Display:  coverTitle 4.5rem / standardTitle 3.0rem (× titleScale only, NOT cardScale)
@@ -1698,12 +1767,8 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     const coverBadgePaddingY = px(6 * titleScale);
     const coverBadgePaddingX = px(16 * titleScale);
     const coverBadgeMarginTop = px(24 * titleScale);
-    const editorialGridVerticalColor = isDark
-      ? 'rgba(255,255,255,0.032)'
-      : 'rgba(24,24,27,0.03)';
-    const editorialGridHorizontalColor = isDark
-      ? 'rgba(255,255,255,0.02)'
-      : 'rgba(24,24,27,0.018)';
+    const editorialGridVerticalColor = withAlpha(theme.text, isDark ? 0.032 : 0.03);
+    const editorialGridHorizontalColor = withAlpha(theme.text, isDark ? 0.02 : 0.018);
     const editorialGridBackgroundImage = `
       linear-gradient(to right, ${editorialGridVerticalColor} 1px, transparent 1px),
       linear-gradient(to bottom, ${editorialGridHorizontalColor} 1px, transparent 1px)
@@ -1715,7 +1780,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
 
         {/* Layer 1: Shared editorial gradient background */}
         {showEditorialGradient && (
-          <div className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
+          <div data-export-layer="background" className="absolute inset-0 z-0 pointer-events-none overflow-hidden">
             <img
               src={editorialBackgroundImage || undefined}
               alt=""
@@ -1893,7 +1958,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                   ) : (
                     <h1
                       className={`font-bold break-words whitespace-pre-wrap ${getFontClass(config.fontStyle)}`}
-                      style={{ fontSize: coverTitleSize, lineHeight: editorialTitleLineHeight }}
+                      style={{ fontSize: coverTitleSize, lineHeight: editorialTitleLineHeight, fontFamily: titleFontFamily }}
                     >
                       {renderEditorialTitle(editTitle || 'UNTITLED')}
                     </h1>
@@ -1905,7 +1970,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                       style={{
                         fontSize: coverBadgeFontSize,
                         color: mutedColor,
-                        border: `1px solid ${isDark ? 'rgba(255,255,255,0.25)' : 'rgba(0,0,0,0.25)'}`,
+                        border: `1px solid ${withAlpha(theme.text, 0.25)}`,
                         borderRadius: '999px',
                         padding: `${coverBadgePaddingY} ${coverBadgePaddingX}`,
                         marginTop: coverBadgeMarginTop,
@@ -1946,7 +2011,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                     style={{
                       width: px(40),
                       height: px(40),
-                      backgroundColor: config.authorAvatar ? 'transparent' : (isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.08)'),
+                      backgroundColor: config.authorAvatar ? 'transparent' : theme.border,
                       color: config.textColor,
                       fontSize: px(16),
                       outline: isEditing ? `2px dashed ${config.accentColor}` : 'none',
@@ -2060,7 +2125,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
                   ) : (
                     <h2
                       className={`font-bold whitespace-pre-wrap ${getFontClass(config.fontStyle)}`}
-                      style={{ fontSize: standardTitleSize, lineHeight: editorialTitleLineHeight }}
+                      style={{ fontSize: standardTitleSize, lineHeight: editorialTitleLineHeight, fontFamily: titleFontFamily }}
                     >
                       {renderEditorialTitle(editTitle)}
                     </h2>
@@ -2102,6 +2167,102 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
     );
   };
 
+  // 6. REGISTERED COMPOSITIONS
+  // Layouts from components/compositions render through this context and reuse the
+  // card's title editing, body measurement and overflow split.
+  const renderRegisteredTitle = ({ className = '', style, placeholder = '(No Title)', multiline = false, format }: CompositionTitleOptions = {}) => {
+    const fontClass = getFontClass(config.fontStyle);
+    if (!isEditing) {
+      return (
+        <h2 className={`${className} ${fontClass}`} style={{ ...style, fontFamily: titleFontFamily }}>
+          {renderHighlightedTitle(format ? format(editTitle) : editTitle)}
+        </h2>
+      );
+    }
+    if (multiline) {
+      return (
+        <textarea
+          ref={(el) => {
+            (titleInputRef as React.MutableRefObject<HTMLTextAreaElement | null>).current = el;
+            if (el) { el.style.height = 'auto'; el.style.height = el.scrollHeight + 'px'; }
+          }}
+          value={editTitle}
+          onChange={(e) => {
+            setEditTitle(e.target.value);
+            e.target.style.height = 'auto';
+            e.target.style.height = e.target.scrollHeight + 'px';
+          }}
+          placeholder={placeholder}
+          spellCheck={false}
+          rows={1}
+          className={`${className} ${fontClass}`}
+          style={{ ...titleEditBaseStyle, ...style, overflow: 'hidden' }}
+        />
+      );
+    }
+    return (
+      <input
+        ref={titleInputRef as any}
+        value={editTitle}
+        onChange={(e) => setEditTitle(e.target.value)}
+        placeholder={placeholder}
+        spellCheck={false}
+        className={`${className} ${fontClass}`}
+        style={{ ...titleEditBaseStyle, ...style }}
+      />
+    );
+  };
+
+  const renderRegisteredContent = () => {
+    const body = isEditing ? (
+      <textarea
+        ref={contentInputRef}
+        value={editContent}
+        onChange={(e) => setEditContent(e.target.value)}
+        className="w-full h-full resize-none bg-transparent"
+        style={{ ...bodyEditStyle, textAlign: compositionDefinition?.body?.align ?? 'justify' }}
+      />
+    ) : (
+      renderMarkdownContent()
+    );
+    if (!hasBodyFit) return body;
+    return (
+      <div ref={bodyFitRef} className="h-full" style={{ fontSize: `${bodyFitScale}em` }}>
+        {body}
+      </div>
+    );
+  };
+
+  const renderRegisteredComposition = (definition: CompositionDefinition) => {
+    const render = isCover ? definition.renderCover ?? definition.renderBody : definition.renderBody;
+    return render?.({
+      config,
+      options: compositionOptions,
+      theme,
+      title: editTitle,
+      hasTitle: hasVisibleTitle,
+      isCover,
+      isEditing,
+      hasImage: !!editImage,
+      imagePosition: editImageConfig.position,
+      showNumber,
+      displayIndex,
+      displayTotal,
+      titleFontFamily,
+      bodyTypography: {
+        fontSize: bodyFontSize,
+        lineHeight: bodyLineHeight,
+        letterSpacing: BODY_TYPOGRAPHY.letterSpacing,
+      },
+      px,
+      rem,
+      renderTitle: renderRegisteredTitle,
+      renderContent: renderRegisteredContent,
+      renderImage: (className) => renderEditableImage(className),
+      renderOverflowControl: renderOverflowBtn,
+    });
+  };
+
 
   // --- MAIN RENDER ---
   const getContainerStyle = () => {
@@ -2147,7 +2308,10 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
       className={`relative group/card ${getFontClass(config.fontStyle)} w-full shrink-0 overflow-hidden flex flex-col transition-all duration-300`}
       style={{
         ...getContainerStyle(),
-        aspectRatio: getAspectRatioStyle(config.aspectRatio)
+        fontFamily: bodyFontFamily,
+        aspectRatio: getAspectRatioStyle(config.aspectRatio),
+        // Percentage padding resolves against width, so the safe area stays uniform on every side.
+        padding: config.safeAreaInset ? `${config.safeAreaInset * 100}%` : undefined,
       }}
     >
        <style>{`.writing-vertical-rl { writing-mode: vertical-rl; }`}</style>
@@ -2155,6 +2319,7 @@ export const Card = forwardRef<CardHandle, CardProps>(({ content, sectionTitle,
        {config.composition === 'classic' && renderClassic()}
        {config.composition === 'technical' && renderTechnical()}
        {config.composition === 'editorial' && renderEditorial()}
+       {compositionDefinition?.renderBody && renderRegisteredComposition(compositionDefinition)}
 
        
     </div>
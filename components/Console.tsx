@@ -1,19 +1,37 @@
 /**
- * [INPUT]: 依赖 ../types 的 CardConfig/AspectRatio/FontStyle/Preset/Composition/ImageConfig/BackgroundStyle，
- *          依赖 lucide-react 的图标集
- * [OUTPUT]: 对外提供 Console 组件、ConsoleTabId 类型（'input'|'edit'|'style'|'image'）
+ * [INPUT]: 依赖 ../types 的 CardConfig 等配置类型，依赖 ../services/ 与 ../utils/ 的供应商、配色与构图工具，
+ *          依赖 ./{PresetPanel,FontPanel,ExportPanel,ProjectPanel} 子面板与 ./consoleStyles 类名，依赖 lucide-react 的图标集
+ * [OUTPUT]: 对外提供 Console 组件、ConsoleTabId 类型（'input'|'edit'|'style'|'image'）、SourceTextareaHandlers 类型
  * [POS]: components/ 的全局控制面板，App.tsx 的右侧/底部工具区；
- *        聚合所有配置入口（AI 触发、样式切换、下载），内含 StylePanel 作为 Style Tab 内容
+ *        聚合所有配置入口（切分、样式、编辑、导入、下载），预设 / 字体 / 导出 / 项目各自拆为子面板
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
 import React, { useState, useEffect, useRef } from 'react';
-import { CardConfig, AspectRatio, FontStyle, Preset, Composition, ImageConfig, ImageAspectRatio, BackgroundStyle } from '../types';
+import { CardConfig, AspectRatio, Preset, CustomFont, ImageConfig, ImageAspectRatio, BackgroundStyle, AiProviderConfig, SplitMode, FidelityReport, FidelityIssueKind, ProjectSummary, ExportSettings, ExportProfile } from '../types';
+import { AI_PROVIDER_OPTIONS } from '../services/llmProviders';
+import { hasBuildTimeApiKey, readApiKey, writeApiKey } from '../services/apiKeyStore';
+import type { SplitCacheStats } from '../services/splitCache';
+import type { DeckExportProgress } from '../services/cardExport';
+import { IMPORT_FILE_ACCEPT } from '../services/documentImport';
+import { THEME_TOKEN_KEYS, deriveColorway, getAccentContrast, resolveThemeTokens, setThemeToken } from '../utils/themeTokens';
+import { getComposition, getCompositionOptions, listCompositions, setCompositionOption } from '../utils/compositionRegistry';
+import { activeChipClass, blockClass, chipClass, sectionLabelClass, sliderClass } from './consoleStyles';
+import { PresetPanel } from './PresetPanel';
+import { FontPanel } from './FontPanel';
+import { ExportPanel } from './ExportPanel';
+import { ProjectPanel } from './ProjectPanel';
 import { 
   Pencil, 
   LayoutTemplate, Image as ImageIcon, ArrowDownToLine, Download,
-  Sparkles, ChevronDown, Layers, CircleUserRound, Shuffle
+  Sparkles, ChevronDown, Layers, CircleUserRound, Shuffle, Undo2, Redo2, X, FileJson, FileText, Film, FileUp, Link, FileCode,
+  Lock, LockOpen, Scissors
 } from 'lucide-react';
 
+export type SourceTextareaHandlers = Pick<
+  React.TextareaHTMLAttributes<HTMLTextAreaElement>,
+  'onPaste' | 'onDragOver' | 'onDrop'
+>;
+
 interface ConsoleProps {
   inputText: string;
   setInputText: (text: string) => void;
@@ -22,6 +40,9 @@ interface ConsoleProps {
   isProcessing: boolean;
   onProcess: () => void;
   onDownloadAll: () => void;
+  onDownloadPdf?: () => void;
+  onDownloadSlideshow?: () => void;
+  onDownloadMarkdown?: () => void;
   onRandomizeGradient?: () => void;
   hasContent: boolean;
   zoomLevel: number;
@@ -46,7 +67,41 @@ interface ConsoleProps {
   onRemoveImage: () => void;
   onDeleteCard: () => void;
   activeCardCanDelete: boolean;
+  activeCardLocked?: boolean;
+  onToggleLock?: () => void;
+  selectedCardCount?: number;
+  onResplitFromHere?: () => void;
+  onResplitSelected?: () => void;
   capacityFeedback?: string | null;
+  fidelityReport?: FidelityReport | null;
+  splitFromCache?: boolean;
+  /** Why the last split fell back to the offline splitter. */
+  splitFallback?: string | null;
+  splitCacheStats?: SplitCacheStats | null;
+  onRefreshSplit?: () => void;
+  onClearSplitCache?: () => void;
+  projects?: ProjectSummary[];
+  activeProjectId?: string | null;
+  onSelectProject?: (projectId: string) => void;
+  onCreateProject?: () => void;
+  onDuplicateProject?: () => void;
+  onRenameProject?: (name: string) => void;
+  onDeleteProject?: () => void;
+  exportProgress?: DeckExportProgress | null;
+  onCancelExport?: () => void;
+  exportSettings?: ExportSettings;
+  onUpdateExportSettings?: (updates: Partial<ExportSettings>) => void;
+  onApplyExportProfile?: (profile: ExportProfile) => void;
+  onApplyPreset?: (preset: Preset) => void;
+  onFontDeleted?: (font: CustomFont) => void;
+  isImporting?: boolean;
+  onImportFiles?: (files: File[]) => void;
+  onImportUrl?: (url: string) => Promise<boolean>;
+  sourceTextareaHandlers?: SourceTextareaHandlers;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onHeightChange?: (height: number) => void;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
@@ -58,6 +113,17 @@ const COLORWAYS: Preset[] = [
   { id: 'neon', name: 'Neon', config: { colorway: 'neon', backgroundColor: '#111111', textColor: '#ffffff' } },
 ];
 
+const THEME_TOKEN_LABELS: Record<(typeof THEME_TOKEN_KEYS)[number], string> = {
+  surface: 'Surface',
+  text: 'Text',
+  muted: 'Muted',
+  border: 'Border',
+  subtle: 'Subtle',
+  codeBackground: 'Code',
+  mermaidNode: 'Node',
+  mermaidEdge: 'Edge',
+};
+
 const ACCENT_COLORS = [
   { id: 'poster-white', hex: '#ffffff' },
   { id: 'poster-orange', hex: '#ea580c' },
@@ -74,12 +140,42 @@ export type ConsoleTabId = TabId;
 
 export const Console: React.FC<ConsoleProps> = ({
   inputText, setInputText, config, setConfig, isProcessing, onProcess, 
-  onDownloadAll, onRandomizeGradient, hasContent, zoomLevel, setZoomLevel,
+  onDownloadAll, onDownloadPdf, onDownloadSlideshow, onDownloadMarkdown, onRandomizeGradient, hasContent, zoomLevel, setZoomLevel,
   activeCardIndex, editingIndex,
   onToggleLayout, onStartEdit, onSaveEdit, onCancelEdit, onTriggerImage,
   onTriggerAvatarUpload, onDownload, onToggleHighlight,
   activeHasImage, activeImageConfig, onUpdateImageConfig, onSelectFrameSize, onRemoveImage, onDeleteCard, activeCardCanDelete,
+  activeCardLocked = false, onToggleLock,
+  selectedCardCount = 0, onResplitFromHere, onResplitSelected,
   capacityFeedback,
+  fidelityReport,
+  splitFromCache = false,
+  splitFallback = null,
+  splitCacheStats,
+  onRefreshSplit,
+  onClearSplitCache,
+  projects = [],
+  activeProjectId = null,
+  onSelectProject,
+  onCreateProject,
+  onDuplicateProject,
+  onRenameProject,
+  onDeleteProject,
+  exportProgress = null,
+  onCancelExport,
+  exportSettings,
+  onUpdateExportSettings,
+  onApplyExportProfile,
+  isImporting = false,
+  onImportFiles,
+  onImportUrl,
+  sourceTextareaHandlers,
+  onApplyPreset,
+  onFontDeleted,
+  canUndo = false,
+  canRedo = false,
+  onUndo,
+  onRedo,
   onHeightChange,
   isCollapsed = false,
   onToggleCollapse,
@@ -93,6 +189,20 @@ export const Console: React.FC<ConsoleProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const [panelHeight, setPanelHeight] = useState<number | 'auto'>('auto');
+  const importFileInputRef = useRef<HTMLInputElement>(null);
+  const [importUrlDraft, setImportUrlDraft] = useState('');
+
+  const submitImportUrl = async () => {
+    const url = importUrlDraft.trim();
+    if (!url || !onImportUrl) return;
+    if (await onImportUrl(/^https?:\/\//i.test(url) ? url : `https://${url}`)) setImportUrlDraft('');
+  };
+
+  const [brandColorDraft, setBrandColorDraft] = useState(
+    /^#[0-9a-f]{6}$/i.test(config.accentColor) ? config.accentColor : '#ea580c'
+  );
+  const themeTokens = resolveThemeTokens(config);
+  const accentContrast = getAccentContrast(config);
 
   // Measure height changes
   useEffect(() => {
@@ -165,6 +275,24 @@ export const Console: React.FC<ConsoleProps> = ({
     setConfig(prev => ({ ...prev, [key]: value }));
   };
 
+  const updateAiProvider = (updates: Partial<AiProviderConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      aiProvider: { id: prev.aiProvider?.id ?? 'gemini', ...prev.aiProvider, ...updates },
+    }));
+  };
+
+  // API keys live in their own local store, never in the config that presets and projects copy.
+  const [apiKeyDraft, setApiKeyDraft] = useState('');
+  const providerIdForKey = config.aiProvider?.id ?? 'gemini';
+  useEffect(() => {
+    setApiKeyDraft(readApiKey(providerIdForKey));
+  }, [providerIdForKey]);
+  const updateApiKey = (value: string) => {
+    setApiKeyDraft(value);
+    writeApiKey(providerIdForKey, value);
+  };
+
   // --- Auto edit mode when switching to/from Editor tab ---
   useEffect(() => {
     const prevTab = prevTabRef.current;
@@ -191,18 +319,9 @@ export const Console: React.FC<ConsoleProps> = ({
     }
   }, [activeCardIndex, activeTab, onStartEdit]);
 
-  const fontStyles = [
-    { value: FontStyle.CHILL, label: 'Chill' },
-    { value: FontStyle.OPPO, label: 'OPPO' },
-    { value: FontStyle.SWEI, label: 'Swei' },
-    { value: FontStyle.SMILEY, label: 'Smiley' },
-  ];
-
-  const compositions: { value: Composition, label: string }[] = [
-    { value: 'classic', label: 'Classic' },
-    { value: 'technical', label: 'Tech' },
-    { value: 'editorial', label: 'Edito' },
-  ];
+  const compositions = listCompositions();
+  const activeComposition = getComposition(config.composition);
+  const compositionOptions = getCompositionOptions(config);
   const backgroundStyles: { value: BackgroundStyle; label: string }[] = [
     { value: 'none', label: 'None' },
     { value: 'grid', label: 'Grid' },
@@ -223,15 +342,27 @@ export const Console: React.FC<ConsoleProps> = ({
     { label: "9:16", value: "9:16" },
   ];
 
+  const splitModes: { value: SplitMode; label: string }[] = [
+    { value: 'ai', label: 'AI' },
+    { value: 'local', label: 'Local' },
+  ];
+  const activeSplitMode: SplitMode = config.splitMode ?? 'ai';
+  const activeProviderId = config.aiProvider?.id ?? 'gemini';
+  const activeProvider =
+    AI_PROVIDER_OPTIONS.find((option) => option.id === activeProviderId) ?? AI_PROVIDER_OPTIONS[0];
+
+  const fidelityIssueLabels: Record<FidelityIssueKind, string> = {
+    missing: 'Missing',
+    duplicated: 'Duplicated',
+    altered: 'Altered',
+  };
+  const fidelityCounts = (fidelityReport?.issues ?? []).reduce<Record<FidelityIssueKind, number>>(
+    (counts, issue) => ({ ...counts, [issue.kind]: counts[issue.kind] + 1 }),
+    { missing: 0, duplicated: 0, altered: 0 },
+  );
+
   const hasActiveCard = activeCardIndex !== null;
   const activeFrameSizeLabel = activeImageConfig?.aspectRatio || "Orig";
-  const blockClass = "flex flex-col gap-3.5 border-t border-black/[0.06] pt-5 pb-4 first:border-t-0 first:pt-2 first:pb-4";
-  const sectionLabelClass = "text-[9px] font-bold uppercase tracking-[0.14em] text-black/85";
-  const sliderClass =
-    "w-full h-1.5 bg-black/10 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:bg-black [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-110 transition-all";
-  const chipClass =
-    "min-h-[34px] rounded-[11px] border border-black/10 bg-white px-3 text-[9px] font-bold uppercase tracking-[0.08em] text-black/70 transition-colors hover:border-black/15 hover:text-black";
-  const activeChipClass = "border-[#ea580c]/50 bg-[#fff7ed] text-black/80";
   const rootClass = `fixed bottom-6 left-1/2 -translate-x-1/2 w-full max-w-[640px] bg-white/95 backdrop-blur-xl border border-black/5 rounded-2xl shadow-2xl overflow-hidden flex flex-col z-50 ring-1 ring-black/5 transition-[max-height,height] duration-[400ms] ease-[cubic-bezier(0.22,1,0.36,1)] ${
     isCollapsed
       ? "h-[58px] min-h-0 max-h-[58px]"
@@ -263,6 +394,28 @@ export const Console: React.FC<ConsoleProps> = ({
            ))}
         </div>
         <div className="flex items-center gap-1.5">
+           {(onUndo || onRedo) && (
+             <div className="flex items-center">
+               <button
+                 onClick={onUndo}
+                 disabled={!canUndo}
+                 className="h-8 w-8 rounded-lg transition-colors inline-flex items-center justify-center text-black/40 hover:bg-black/[0.04] hover:text-black/70 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                 aria-label="Undo"
+                 title="Undo (Ctrl+Z)"
+               >
+                 <Undo2 size={14} />
+               </button>
+               <button
+                 onClick={onRedo}
+                 disabled={!canRedo}
+                 className="h-8 w-8 rounded-lg transition-colors inline-flex items-center justify-center text-black/40 hover:bg-black/[0.04] hover:text-black/70 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                 aria-label="Redo"
+                 title="Redo (Ctrl+Shift+Z)"
+               >
+                 <Redo2 size={14} />
+               </button>
+             </div>
+           )}
            {onToggleCollapse && (
              <button
                onClick={onToggleCollapse}
@@ -279,7 +432,27 @@ export const Console: React.FC<ConsoleProps> = ({
                </span>
              </button>
            )}
-           {hasContent && isCollapsed ? (
+           {exportProgress ? (
+             <div className="flex items-center gap-2 h-8 pl-3 pr-1 rounded-lg border border-black/10 bg-white">
+               <div className="w-16 h-1 rounded-full bg-black/10 overflow-hidden">
+                 <div
+                   className="h-full bg-[#ea580c] transition-[width] duration-200"
+                   style={{ width: `${exportProgress.total ? (exportProgress.completed / exportProgress.total) * 100 : 0}%` }}
+                 />
+               </div>
+               <span className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/60 tabular-nums">
+                 {exportProgress.completed}/{exportProgress.total}
+               </span>
+               <button
+                 onClick={onCancelExport}
+                 className="h-6 w-6 rounded-md inline-flex items-center justify-center text-black/40 hover:bg-black/[0.04] hover:text-black/70"
+                 aria-label="Cancel export"
+                 title="Cancel export"
+               >
+                 <X size={12} />
+               </button>
+             </div>
+           ) : hasContent && isCollapsed ? (
              <div className="flex items-center gap-1">
                <button
                  onClick={onDownload}
@@ -320,15 +493,42 @@ export const Console: React.FC<ConsoleProps> = ({
                 </button>
                 
                 {showExportMenu && (
-                  <div className="absolute right-0 top-full mt-2 w-36 bg-white rounded-xl shadow-xl border border-black/5 overflow-hidden animate-in fade-in zoom-in-95 slide-in-from-top-2 duration-200 p-1 flex flex-col z-50 ring-1 ring-black/5">
+                  <div className="absolute right-0 top-full mt-2 w-40 bg-white rounded-xl shadow-xl border border-black/5 overflow-hidden animate-in fade-in zoom-in-95 slide-in-from-top-2 duration-200 p-1 flex flex-col z-50 ring-1 ring-black/5">
                      <button onClick={() => { onDownload(); setShowExportMenu(false); }} className="h-9 px-2.5 rounded-lg hover:bg-black/5 flex items-center gap-2.5 text-left transition-colors text-black/80 hover:text-black group">
                         <ArrowDownToLine size={14} className="text-black/40 group-hover:text-black transition-colors" />
                         <span className="text-[10px] font-bold uppercase tracking-wider">Current Card</span>
                      </button>
                      <button onClick={() => { onDownloadAll(); setShowExportMenu(false); }} className="h-9 px-2.5 rounded-lg hover:bg-black/5 flex items-center gap-2.5 text-left transition-colors text-black/80 hover:text-black group">
                         <Layers size={14} className="text-black/40 group-hover:text-black transition-colors" />
-                        <span className="text-[10px] font-bold uppercase tracking-wider">All Cards</span>
+                        <span className="text-[10px] font-bold uppercase tracking-wider">All Cards · ZIP</span>
                      </button>
+                     {onDownloadPdf && (
+                       <button onClick={() => { onDownloadPdf(); setShowExportMenu(false); }} title="Each page is an image of the card: text cannot be selected or searched" className="h-9 px-2.5 rounded-lg hover:bg-black/5 flex items-center gap-2.5 text-left transition-colors text-black/80 hover:text-black group">
+                          <FileText size={14} className="text-black/40 group-hover:text-black transition-colors" />
+                          <span className="text-[10px] font-bold uppercase tracking-wider">Image PDF</span>
+                       </button>
+                     )}
+                     {onDownloadSlideshow && exportSettings && (
+                       <button onClick={() => { onDownloadSlideshow(); setShowExportMenu(false); }} className="h-9 px-2.5 rounded-lg hover:bg-black/5 flex items-center gap-2.5 text-left transition-colors text-black/80 hover:text-black group">
+                          <Film size={14} className="text-black/40 group-hover:text-black transition-colors" />
+                          <span className="text-[10px] font-bold uppercase tracking-wider">Slideshow · {exportSettings.slideshow.format.toUpperCase()}</span>
+                       </button>
+                     )}
+                     {onDownloadMarkdown && (
+                       <button onClick={() => { onDownloadMarkdown(); setShowExportMenu(false); }} className="h-9 px-2.5 rounded-lg hover:bg-black/5 flex items-center gap-2.5 text-left transition-colors text-black/80 hover:text-black group">
+                          <FileCode size={14} className="text-black/40 group-hover:text-black transition-colors" />
+                          <span className="text-[10px] font-bold uppercase tracking-wider">Deck · Markdown</span>
+                       </button>
+                     )}
+                     {exportSettings && onUpdateExportSettings && (
+                       <button
+                         onClick={() => onUpdateExportSettings({ includeManifest: !exportSettings.includeManifest })}
+                         className="h-9 px-2.5 rounded-lg hover:bg-black/5 flex items-center gap-2.5 text-left transition-colors text-black/80 hover:text-black group border-t border-black/5"
+                       >
+                         <FileJson size={14} className={`transition-colors ${exportSettings.includeManifest ? 'text-[#ea580c]' : 'text-black/30'}`} />
+                         <span className="text-[10px] font-bold uppercase tracking-wider">Manifest {exportSettings.includeManifest ? 'On' : 'Off'}</span>
+                       </button>
+                     )}
                   </div>
                 )}
              </div>
@@ -349,19 +549,68 @@ export const Console: React.FC<ConsoleProps> = ({
           {/* ═══════ STYLE TAB ═══════ */}
           {activeTab === 'style' && (
             <div className="p-5">
+               {onApplyPreset && <PresetPanel config={config} onApplyPreset={onApplyPreset} />}
+
                <div className={blockClass}>
                  <div className={sectionLabelClass}>Theme</div>
                  <div className="flex flex-wrap gap-2">
                    {compositions.map((comp) => (
                      <button
-                       key={comp.value}
-                       onClick={() => updateConfig('composition', comp.value)}
-                       className={`${chipClass} ${config.composition === comp.value ? activeChipClass : ''}`}
+                       key={comp.id}
+                       onClick={() => updateConfig('composition', comp.id)}
+                       className={`${chipClass} ${config.composition === comp.id ? activeChipClass : ''}`}
                      >
                        {comp.label}
                      </button>
                    ))}
                  </div>
+                 {activeComposition?.options?.map((option) => (
+                   <div key={option.key} className="flex flex-col gap-2">
+                     <div className="flex items-center justify-between">
+                       <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/50">{option.label}</label>
+                       {option.type === 'range' && (
+                         <span className="text-[9px] font-mono text-black/45">{Number(compositionOptions[option.key]).toFixed(2)}</span>
+                       )}
+                     </div>
+                     {option.type === 'range' && (
+                       <input
+                         type="range"
+                         min={option.min}
+                         max={option.max}
+                         step={option.step}
+                         value={Number(compositionOptions[option.key])}
+                         onChange={(e) => setConfig(prev => setCompositionOption(prev, option.key, parseFloat(e.target.value)))}
+                         className={sliderClass}
+                       />
+                     )}
+                     {option.type === 'toggle' && (
+                       <div className="flex flex-wrap gap-2">
+                         {[true, false].map((value) => (
+                           <button
+                             key={String(value)}
+                             onClick={() => setConfig(prev => setCompositionOption(prev, option.key, value))}
+                             className={`${chipClass} ${compositionOptions[option.key] === value ? activeChipClass : ''}`}
+                           >
+                             {value ? 'On' : 'Off'}
+                           </button>
+                         ))}
+                       </div>
+                     )}
+                     {option.type === 'select' && (
+                       <div className="flex flex-wrap gap-2">
+                         {option.choices.map((choice) => (
+                           <button
+                             key={choice.value}
+                             onClick={() => setConfig(prev => setCompositionOption(prev, option.key, choice.value))}
+                             className={`${chipClass} ${compositionOptions[option.key] === choice.value ? activeChipClass : ''}`}
+                           >
+                             {choice.label}
+                           </button>
+                         ))}
+                       </div>
+                     )}
+                   </div>
+                 ))}
                </div>
 
                <div className={blockClass}>
@@ -376,10 +625,60 @@ export const Console: React.FC<ConsoleProps> = ({
                        {c.name}
                      </button>
                    ))}
+                   {config.theme && (
+                     <button
+                       onClick={() => setConfig(prev => prev.theme
+                         ? { ...prev, colorway: 'custom', backgroundColor: prev.theme.surface, textColor: prev.theme.text }
+                         : prev)}
+                       className={`${chipClass} ${config.colorway === 'custom' ? activeChipClass : ''}`}
+                     >
+                       Custom
+                     </button>
+                   )}
+                 </div>
+                 <div className="grid grid-cols-[auto_1fr_1fr] gap-2">
+                   <label
+                     className="inline-flex h-[34px] items-center gap-2 rounded-[11px] border border-black/10 bg-white px-2.5 font-mono text-[10px] font-bold uppercase tracking-[0.08em] text-black/60"
+                     title="Brand color"
+                   >
+                     <input
+                       type="color"
+                       value={brandColorDraft}
+                       onChange={(e) => setBrandColorDraft(e.target.value)}
+                       className="h-[18px] w-[18px] cursor-pointer rounded-full border-none bg-transparent p-0"
+                       aria-label="Brand color"
+                     />
+                     {brandColorDraft}
+                   </label>
+                   <button onClick={() => setConfig(prev => ({ ...prev, ...deriveColorway(brandColorDraft, 'light') }))} className={chipClass}>
+                     Derive Light
+                   </button>
+                   <button onClick={() => setConfig(prev => ({ ...prev, ...deriveColorway(brandColorDraft, 'dark') }))} className={chipClass}>
+                     Derive Dark
+                   </button>
                  </div>
+                 {config.colorway === 'custom' && (
+                   <div className="grid grid-cols-4 gap-2">
+                     {THEME_TOKEN_KEYS.map((key) => (
+                       <label
+                         key={key}
+                         className="flex h-[34px] cursor-pointer items-center gap-2 rounded-[11px] border border-black/10 bg-white px-2 text-[9px] font-bold uppercase tracking-[0.08em] text-black/60"
+                       >
+                         <input
+                           type="color"
+                           value={themeTokens[key]}
+                           onChange={(e) => setConfig(prev => setThemeToken(prev, key, e.target.value))}
+                           className="h-[16px] w-[16px] shrink-0 cursor-pointer rounded-full border-none bg-transparent p-0"
+                           aria-label={`${THEME_TOKEN_LABELS[key]} color`}
+                         />
+                         <span className="truncate">{THEME_TOKEN_LABELS[key]}</span>
+                       </label>
+                     ))}
+                   </div>
+                 )}
                </div>
 
-               {config.composition === 'editorial' && (
+               {activeComposition?.backgroundStyles && (
                  <div className={blockClass}>
                    <div className={sectionLabelClass}>Background</div>
                    <div className="flex flex-wrap gap-2">
@@ -448,6 +747,14 @@ export const Console: React.FC<ConsoleProps> = ({
                      />
                    </div>
                  </div>
+                 {accentContrast && accentContrast.level !== 'aa' && (
+                   <p className={`text-[10px] leading-relaxed ${accentContrast.level === 'fail' ? 'text-red-500/85' : 'text-black/45'}`}>
+                     Accent contrast is {accentContrast.ratio.toFixed(1)}:1 on this background.{' '}
+                     {accentContrast.level === 'fail'
+                       ? 'Below the WCAG 3:1 minimum, so accent titles and marks will be hard to read.'
+                       : 'Fine for titles and marks, but under the WCAG 4.5:1 needed for small accent text.'}
+                   </p>
+                 )}
                </div>
 
                <div className={blockClass}>
@@ -498,23 +805,29 @@ export const Console: React.FC<ConsoleProps> = ({
                      </button>
                    ))}
                  </div>
-               </div>
-
-               <div className={blockClass}>
-                 <div className={sectionLabelClass}>Font</div>
-                 <div className="flex flex-wrap gap-2">
-                   {fontStyles.map((style) => (
-                     <button
-                       key={style.value}
-                       onClick={() => updateConfig('fontStyle', style.value)}
-                       className={`${chipClass} ${config.fontStyle === style.value ? activeChipClass : ''}`}
-                     >
-                       {style.label}
-                     </button>
-                   ))}
+                 <div className="flex flex-col gap-2">
+                   <div className="flex items-center justify-between">
+                      <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/50">Safe Area</label>
+                      <span className="text-[9px] font-mono text-black/45">{Math.round((config.safeAreaInset ?? 0) * 100)}%</span>
+                   </div>
+                   <input
+                     type="range"
+                     min="0"
+                     max="0.12"
+                     step="0.01"
+                     value={config.safeAreaInset ?? 0}
+                     onChange={(e) => updateConfig('safeAreaInset', parseFloat(e.target.value))}
+                     className={sliderClass}
+                   />
                  </div>
                </div>
 
+               <FontPanel
+                 config={config}
+                 onUpdateConfig={updateConfig}
+                 onFontDeleted={(font) => onFontDeleted?.(font)}
+               />
+
                {config.composition === 'editorial' && (
                  <div className={blockClass}>
                    <div className="flex flex-col gap-2">
@@ -534,6 +847,16 @@ export const Console: React.FC<ConsoleProps> = ({
                    </div>
                  </div>
                )}
+
+               {exportSettings && onUpdateExportSettings && (
+                 <ExportPanel
+                   config={config}
+                   exportSettings={exportSettings}
+                   onUpdateExportSettings={onUpdateExportSettings}
+                   onApplyExportProfile={onApplyExportProfile}
+                   showSlideshow={Boolean(onDownloadSlideshow)}
+                 />
+               )}
             </div>
           )}
 
@@ -583,8 +906,53 @@ export const Console: React.FC<ConsoleProps> = ({
                             {config.authorAvatar ? "Replace Avatar" : "Upload Avatar"}
                           </span>
                        </button>
+
+                       {onToggleLock && (
+                         <button
+                           onClick={onToggleLock}
+                           title="Locked cards are never split, merged or re-generated automatically"
+                           className={`col-span-2 min-h-[34px] min-w-0 rounded-[11px] border px-3 text-[9px] font-bold uppercase tracking-[0.08em] transition-colors flex items-center justify-center gap-2 ${
+                             activeCardLocked
+                               ? "border-[#ea580c]/50 bg-[#fff7ed] text-black/80"
+                               : "border-black/10 bg-white text-black/70 hover:border-black/15 hover:text-black"
+                           }`}
+                         >
+                            {activeCardLocked ? <Lock size={15} /> : <LockOpen size={15} />}
+                            <span className="truncate">
+                              {activeCardLocked ? "Locked" : "Lock Card"}
+                            </span>
+                         </button>
+                       )}
                     </div>
 
+                    {(onResplitFromHere || onResplitSelected) && (
+                      <div className="flex flex-col gap-2 border-t border-black/5 pt-5">
+                        <div className="grid grid-cols-2 gap-2">
+                          <button
+                            onClick={onResplitFromHere}
+                            disabled={isProcessing}
+                            className="min-h-[34px] min-w-0 rounded-[11px] border border-black/10 bg-white px-3 text-[9px] font-bold uppercase tracking-[0.08em] text-black/70 transition-colors hover:border-black/15 hover:text-black disabled:opacity-40 flex items-center justify-center gap-2"
+                          >
+                             <Scissors size={15} />
+                             <span className="truncate">Re-split From Here</span>
+                          </button>
+                          <button
+                            onClick={onResplitSelected}
+                            disabled={isProcessing || selectedCardCount === 0}
+                            className="min-h-[34px] min-w-0 rounded-[11px] border border-black/10 bg-white px-3 text-[9px] font-bold uppercase tracking-[0.08em] text-black/70 transition-colors hover:border-black/15 hover:text-black disabled:opacity-40 flex items-center justify-center gap-2"
+                          >
+                             <Layers size={15} />
+                             <span className="truncate">
+                               {selectedCardCount > 0 ? `Re-split ${selectedCardCount} Cards` : "Re-split Selected"}
+                             </span>
+                          </button>
+                        </div>
+                        <p className="text-[10px] leading-relaxed text-black/40">
+                          Shift-click another card to select a range. Locked cards and the rest of the deck stay as they are.
+                        </p>
+                      </div>
+                    )}
+
                     {activeHasImage && activeImageConfig && (
                       <div className="flex flex-col gap-6 border-t border-black/5 pt-6">
                         <div className="flex flex-col gap-3">
@@ -717,6 +1085,16 @@ export const Console: React.FC<ConsoleProps> = ({
           {/* ═══════ SOURCE TAB ═══════ */}
           {activeTab === 'source' && (
             <div className="p-5">
+               <ProjectPanel
+                 projects={projects}
+                 activeProjectId={activeProjectId}
+                 onSelectProject={onSelectProject}
+                 onCreateProject={onCreateProject}
+                 onDuplicateProject={onDuplicateProject}
+                 onRenameProject={onRenameProject}
+                 onDeleteProject={onDeleteProject}
+               />
+
                <div className={blockClass}>
                  <div className="grid grid-cols-2 gap-3">
                   <div className="flex flex-col gap-1.5">
@@ -732,12 +1110,164 @@ export const Console: React.FC<ConsoleProps> = ({
 
                <div className={blockClass}>
                  <div className={sectionLabelClass}>Source Text</div>
-                 <textarea value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder="Paste your article here..." className="h-28 rounded-[13px] border border-black/10 bg-white p-3 font-mono text-sm leading-relaxed text-black/75 outline-none resize-none" />
+                 <textarea value={inputText} onChange={(e) => setInputText(e.target.value)} {...sourceTextareaHandlers} placeholder="Paste your article here, or drop a .md / .txt / .html / .docx file..." className="h-28 rounded-[13px] border border-black/10 bg-white p-3 font-mono text-sm leading-relaxed text-black/75 outline-none resize-none" />
+                 <input
+                   ref={importFileInputRef}
+                   type="file"
+                   accept={IMPORT_FILE_ACCEPT}
+                   multiple
+                   className="hidden"
+                   onChange={(e) => {
+                     const files = Array.from(e.target.files ?? []);
+                     if (files.length > 0) onImportFiles?.(files);
+                     e.target.value = '';
+                   }}
+                 />
+                 <div className="grid grid-cols-[auto_1fr_auto] gap-2">
+                   <button onClick={() => importFileInputRef.current?.click()} disabled={isImporting} className={`${chipClass} flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed`}>
+                     <FileUp size={13} />
+                     Import
+                   </button>
+                   <div className="flex h-[42px] items-center gap-2 rounded-[11px] border border-black/10 bg-white px-3">
+                     <Link size={13} className="shrink-0 text-black/35" />
+                     <input
+                       type="url"
+                       value={importUrlDraft}
+                       onChange={(e) => setImportUrlDraft(e.target.value)}
+                       onKeyDown={(e) => {
+                         if (e.key === 'Enter') void submitImportUrl();
+                       }}
+                       disabled={isImporting}
+                       placeholder="https://..."
+                       className="w-full min-w-0 bg-transparent text-sm text-black/80 outline-none disabled:opacity-40"
+                     />
+                   </div>
+                   <button onClick={() => void submitImportUrl()} disabled={isImporting || !importUrlDraft.trim()} className={`${chipClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+                     {isImporting ? 'Importing...' : 'Fetch'}
+                   </button>
+                 </div>
                </div>
 
                <div className={blockClass}>
-                 <button onClick={onProcess} disabled={!inputText.trim() || isProcessing} className={`h-[42px] w-full rounded-[13px] flex items-center justify-center gap-2 font-bold text-[9px] uppercase tracking-[0.12em] transition-colors ${!inputText.trim() ? "bg-black/[0.03] text-black/20 cursor-not-allowed" : "bg-[#ea580c] hover:bg-[#c2410c] text-white"}`}>
-                    {isProcessing ? (<><div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div><span>Processing</span></>) : (<><Sparkles size={14} /><span>Regenerate Cards</span></>)}
+                 <div className={sectionLabelClass}>Splitter</div>
+                 <div className="grid grid-cols-2 gap-2">
+                   {splitModes.map((mode) => (
+                     <button
+                       key={mode.value}
+                       onClick={() => updateConfig('splitMode', mode.value)}
+                       className={`${chipClass} ${activeSplitMode === mode.value ? activeChipClass : ''}`}
+                     >
+                       {mode.label}
+                     </button>
+                   ))}
+                 </div>
+                 {activeSplitMode === 'ai' ? (
+                   <>
+                     <div className="flex flex-wrap gap-2">
+                       {AI_PROVIDER_OPTIONS.map((option) => (
+                         <button
+                           key={option.id}
+                           onClick={() => setConfig(prev => ({ ...prev, aiProvider: { id: option.id } }))}
+                           className={`${chipClass} ${activeProviderId === option.id ? activeChipClass : ''}`}
+                         >
+                           {option.label}
+                         </button>
+                       ))}
+                     </div>
+                     <div className={`grid gap-3 ${activeProvider.usesBaseUrl ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                       <div className="flex flex-col gap-1.5">
+                         <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/85">Model</label>
+                         <input type="text" value={config.aiProvider?.model ?? ''} onChange={(e) => updateAiProvider({ model: e.target.value })} className="h-[42px] rounded-[11px] border border-black/10 bg-white px-3 text-sm text-black/80 outline-none" placeholder={activeProvider.defaultModel} />
+                       </div>
+                       {activeProvider.usesBaseUrl && (
+                         <div className="flex flex-col gap-1.5">
+                           <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/85">Endpoint</label>
+                           <input type="text" value={config.aiProvider?.baseUrl ?? ''} onChange={(e) => updateAiProvider({ baseUrl: e.target.value })} className="h-[42px] rounded-[11px] border border-black/10 bg-white px-3 text-sm text-black/80 outline-none" placeholder={activeProvider.defaultBaseUrl} />
+                         </div>
+                       )}
+                     </div>
+                     {activeProvider.usesApiKey && (
+                       <div className="flex flex-col gap-1.5">
+                         <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/85">API Key</label>
+                         <input type="password" autoComplete="off" value={apiKeyDraft} onChange={(e) => updateApiKey(e.target.value)} className="h-[42px] rounded-[11px] border border-black/10 bg-white px-3 text-sm text-black/80 outline-none" placeholder={hasBuildTimeApiKey(activeProvider.id) ? 'Using GEMINI_API_KEY from .env.local' : 'Stored in this browser only'} />
+                       </div>
+                     )}
+                     <div className="flex items-center justify-between gap-3">
+                       <span className="text-[10px] font-mono text-black/45">
+                         {splitCacheStats ? `${splitCacheStats.entries} cached · ${Math.max(1, Math.round(splitCacheStats.bytes / 1024))} KB` : 'Cache unavailable'}
+                       </span>
+                       <button
+                         onClick={onClearSplitCache}
+                         disabled={!splitCacheStats?.entries}
+                         className={`${chipClass} min-h-[28px] disabled:opacity-40 disabled:cursor-not-allowed`}
+                       >
+                         Clear Cache
+                       </button>
+                     </div>
+                   </>
+                 ) : (
+                   <p className="text-[11px] font-medium text-black/40">Splits by headings and card capacity on this device. Instant, free and reproducible.</p>
+                 )}
+               </div>
+
+               {fidelityReport && (
+                 <div className={blockClass}>
+                   <div className="flex items-center justify-between">
+                     <div className={sectionLabelClass}>Fidelity</div>
+                     <span className="text-[10px] font-mono text-black/45">
+                       {fidelityReport.matchedSentenceCount}/{fidelityReport.sourceSentenceCount} verbatim
+                     </span>
+                   </div>
+                   {fidelityReport.issues.length === 0 ? (
+                     <p className="text-[11px] font-medium text-black/40">Every source sentence landed on a card exactly once.</p>
+                   ) : (
+                     <>
+                       <div className="flex flex-wrap gap-2">
+                         {(Object.keys(fidelityIssueLabels) as FidelityIssueKind[])
+                           .filter((kind) => fidelityCounts[kind] > 0)
+                           .map((kind) => (
+                             <span key={kind} className={`${chipClass} inline-flex items-center`}>
+                               {fidelityCounts[kind]} {fidelityIssueLabels[kind]}
+                             </span>
+                           ))}
+                         <span className="text-[10px] font-bold uppercase tracking-[0.12em] text-[#9a3412] self-center">Repaired</span>
+                       </div>
+                       <ul className="flex flex-col gap-1.5 max-h-28 overflow-y-auto custom-scrollbar">
+                         {fidelityReport.issues.map((issue, index) => (
+                           <li key={index} className="flex gap-2 text-[11px] leading-snug text-black/60">
+                             <span className="shrink-0 font-mono text-black/35">#{issue.cardIndex + 1}</span>
+                             <span className="shrink-0 font-bold uppercase text-[9px] tracking-[0.08em] text-black/50 pt-[2px]">{fidelityIssueLabels[issue.kind]}</span>
+                             <span className="truncate">{issue.text}</span>
+                           </li>
+                         ))}
+                       </ul>
+                     </>
+                   )}
+                 </div>
+               )}
+
+               <div className={blockClass}>
+                 {splitFallback && !isProcessing && (
+                   <div className="flex flex-col gap-1 rounded-[11px] bg-[#fef2f2] px-3 py-2" title={splitFallback}>
+                     <div className="flex items-center justify-between gap-3">
+                       <span className="text-[10px] font-bold uppercase tracking-[0.14em] text-[#991b1b]">Split offline</span>
+                       <button onClick={onProcess} className="text-[10px] font-bold uppercase tracking-[0.14em] text-[#991b1b] underline underline-offset-2 hover:text-[#dc2626]">
+                         Retry
+                       </button>
+                     </div>
+                     <span className="text-[10px] text-[#991b1b]/80 line-clamp-2">{splitFallback}</span>
+                   </div>
+                 )}
+                 {splitFromCache && !isProcessing && (
+                   <div className="flex items-center justify-between gap-3 rounded-[11px] bg-[#fff7ed] px-3 py-2">
+                     <span className="text-[10px] font-bold uppercase tracking-[0.14em] text-[#9a3412]">Loaded from cache</span>
+                     <button onClick={onRefreshSplit} className="text-[10px] font-bold uppercase tracking-[0.14em] text-[#9a3412] underline underline-offset-2 hover:text-[#ea580c]">
+                       Refresh
+                     </button>
+                   </div>
+                 )}
+                 <button onClick={onProcess} disabled={!inputText.trim()} title={isProcessing ? 'Restart generation' : undefined} className={`h-[42px] w-full rounded-[13px] flex items-center justify-center gap-2 font-bold text-[9px] uppercase tracking-[0.12em] transition-colors ${!inputText.trim() ? "bg-black/[0.03] text-black/20 cursor-not-allowed" : "bg-[#ea580c] hover:bg-[#c2410c] text-white"}`}>
+                    {isProcessing ? (<><div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div><span>Processing · Restart</span></>) : (<><Sparkles size={14} /><span>Regenerate Cards</span></>)}
                  </button>
                </div>
             </div>
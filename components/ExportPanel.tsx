@@ -0,0 +1,219 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/ExportSettings/ExportProfile 等导出类型，依赖 ../services/exportProfiles 的平台导出预设，
+ *          依赖 ../services/slideshowExport 的格式支持探测，依赖 ../utils/compositionRegistry 的 usesGradientBackground，
+ *          依赖 ./consoleStyles 的面板类名
+ * [OUTPUT]: 对外提供 ExportPanel 组件
+ * [POS]: components/ 的导出设置面板，Console Style Tab 的末尾；平台导出预设、图片格式 / 质量 / 尺寸与幻灯片视频设置，
+ *        所有变更通过 onUpdateExportSettings 向上提升至 App
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import React, { useEffect, useState } from 'react';
+import { CardConfig, ExportFormat, ExportProfile, ExportSettings, SlideshowFormat, SlideshowSettings, SlideshowTransition } from '../types';
+import { EXPORT_PROFILES, findActiveExportProfile } from '../services/exportProfiles';
+import { isSlideshowFormatSupported } from '../services/slideshowExport';
+import { usesGradientBackground } from '../utils/compositionRegistry';
+import { activeChipClass, blockClass, chipClass, sectionLabelClass, sliderClass } from './consoleStyles';
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'svg', label: 'SVG' },
+];
+const EXPORT_PIXEL_RATIOS = [1, 2, 3, 4];
+const SLIDESHOW_FORMATS: { value: SlideshowFormat; label: string }[] = [
+  { value: 'webm', label: 'WebM' },
+  { value: 'mp4', label: 'MP4' },
+  { value: 'gif', label: 'GIF' },
+];
+const SLIDESHOW_TRANSITIONS: { value: SlideshowTransition; label: string }[] = [
+  { value: 'slide', label: 'Slide' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'none', label: 'Cut' },
+];
+
+interface ExportPanelProps {
+  config: CardConfig;
+  exportSettings: ExportSettings;
+  onUpdateExportSettings: (updates: Partial<ExportSettings>) => void;
+  onApplyExportProfile?: (profile: ExportProfile) => void;
+  showSlideshow?: boolean;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({
+  config, exportSettings, onUpdateExportSettings, onApplyExportProfile, showSlideshow = false,
+}) => {
+  const [targetWidthDraft, setTargetWidthDraft] = useState(String(exportSettings.targetWidth));
+
+  useEffect(() => {
+    setTargetWidthDraft(String(exportSettings.targetWidth));
+  }, [exportSettings.targetWidth]);
+
+  const commitTargetWidth = () => {
+    const value = Math.round(Number(targetWidthDraft));
+    if (!Number.isFinite(value) || value <= 0) {
+      setTargetWidthDraft(String(exportSettings.targetWidth));
+      return;
+    }
+    const nextWidth = Math.min(4096, Math.max(200, value));
+    setTargetWidthDraft(String(nextWidth));
+    onUpdateExportSettings({ targetWidth: nextWidth });
+  };
+
+  const updateSlideshow = (updates: Partial<SlideshowSettings>) => {
+    onUpdateExportSettings({ slideshow: { ...exportSettings.slideshow, ...updates } });
+  };
+
+  const [ratioWidth, ratioHeight] = config.aspectRatio.split(':').map(Number);
+  const exportSizeHint = exportSettings.sizeMode === 'width'
+    ? `${exportSettings.targetWidth} × ${Math.round((exportSettings.targetWidth * ratioHeight) / ratioWidth)} px`
+    : null;
+  const activeExportProfile = findActiveExportProfile(config, exportSettings);
+
+  return (
+    <>
+      <div className={blockClass}>
+        <div className={sectionLabelClass}>Export</div>
+        {onApplyExportProfile && (
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_PROFILES.map((profile) => (
+              <button
+                key={profile.id}
+                onClick={() => onApplyExportProfile(profile)}
+                title={`${profile.aspectRatio} · ${profile.width} × ${profile.height} px`}
+                className={`${chipClass} ${activeExportProfile?.id === profile.id ? activeChipClass : ''}`}
+              >
+                {profile.name}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-4 gap-2">
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.value}
+              onClick={() => onUpdateExportSettings({ format: format.value })}
+              className={`${chipClass} ${exportSettings.format === format.value ? activeChipClass : ''}`}
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+        {(exportSettings.format === 'jpeg' || exportSettings.format === 'webp') && (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+               <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/50">Quality</label>
+               <span className="text-[9px] font-mono text-black/45">{Math.round(exportSettings.quality * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0.5"
+              max="1"
+              step="0.01"
+              value={exportSettings.quality}
+              onChange={(e) => onUpdateExportSettings({ quality: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </div>
+        )}
+        {exportSettings.format === 'svg' ? (
+          <p className="text-[11px] font-medium text-black/40">Vector markup via foreignObject. Scales freely; size settings do not apply.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {EXPORT_PIXEL_RATIOS.map((ratio) => (
+                <button
+                  key={ratio}
+                  onClick={() => onUpdateExportSettings({ sizeMode: 'pixelRatio', pixelRatio: ratio })}
+                  className={`${chipClass} ${exportSettings.sizeMode === 'pixelRatio' && exportSettings.pixelRatio === ratio ? activeChipClass : ''}`}
+                >
+                  {ratio}×
+                </button>
+              ))}
+              <button
+                onClick={() => onUpdateExportSettings({ sizeMode: 'width' })}
+                className={`${chipClass} ${exportSettings.sizeMode === 'width' ? activeChipClass : ''}`}
+              >
+                Width
+              </button>
+            </div>
+            {exportSettings.sizeMode === 'width' && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="number"
+                  min={200}
+                  max={4096}
+                  step={1}
+                  value={targetWidthDraft}
+                  onChange={(e) => setTargetWidthDraft(e.target.value)}
+                  onBlur={commitTargetWidth}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="h-[42px] w-28 rounded-[11px] border border-black/10 bg-white px-3 text-sm text-black/80 outline-none"
+                />
+                <span className="text-[10px] font-mono text-black/45">{exportSizeHint}</span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {showSlideshow && (
+        <div className={blockClass}>
+          <div className={sectionLabelClass}>Slideshow</div>
+          <div className="grid grid-cols-3 gap-2">
+            {SLIDESHOW_FORMATS.map((format) => {
+              const isSupported = isSlideshowFormatSupported(format.value);
+              return (
+                <button
+                  key={format.value}
+                  onClick={() => updateSlideshow({ format: format.value })}
+                  disabled={!isSupported}
+                  title={isSupported ? undefined : 'Not supported by this browser'}
+                  className={`${chipClass} ${exportSettings.slideshow.format === format.value ? activeChipClass : ''} disabled:opacity-35 disabled:cursor-not-allowed`}
+                >
+                  {format.label}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+               <label className="text-[9px] font-bold uppercase tracking-[0.14em] text-black/50">Per Card</label>
+               <span className="text-[9px] font-mono text-black/45">{exportSettings.slideshow.secondsPerCard.toFixed(1)}s</span>
+            </div>
+            <input
+              type="range"
+              min="1"
+              max="10"
+              step="0.5"
+              value={exportSettings.slideshow.secondsPerCard}
+              onChange={(e) => updateSlideshow({ secondsPerCard: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {SLIDESHOW_TRANSITIONS.map((transition) => (
+              <button
+                key={transition.value}
+                onClick={() => updateSlideshow({ transition: transition.value })}
+                className={`${chipClass} ${exportSettings.slideshow.transition === transition.value ? activeChipClass : ''}`}
+              >
+                {transition.label}
+              </button>
+            ))}
+          </div>
+          {usesGradientBackground(config) && (
+            <button
+              onClick={() => updateSlideshow({ animateBackground: !exportSettings.slideshow.animateBackground })}
+              className={`${chipClass} ${exportSettings.slideshow.animateBackground ? activeChipClass : ''}`}
+            >
+              Animate Gradient
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/CustomFont/FontStyle，依赖 ../services/fontStore 的用户字体库读写与 CUSTOM_FONT_ACCEPT，
+ *          依赖 ./consoleStyles 的面板类名，依赖 lucide-react 的图标
+ * [OUTPUT]: 对外提供 FontPanel 组件
+ * [POS]: components/ 的字体面板，Console Style Tab 的一块；内置字体切换、标题 / 正文分别选字体、用户字体上传与删除；
+ *        启动时的 FontFace 注册仍由 App 负责，删掉正在使用的字体时交回 App 清理配置
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { CardConfig, CustomFont, FontStyle } from '../types';
+import { CUSTOM_FONT_ACCEPT, deleteCustomFont, listCustomFonts, saveCustomFont } from '../services/fontStore';
+import { activeChipClass, blockClass, chipClass, headerActionClass, sectionLabelClass } from './consoleStyles';
+import { ChevronDown, FileUp, X } from 'lucide-react';
+
+const FONT_STYLES = [
+  { value: FontStyle.CHILL, label: 'Chill' },
+  { value: FontStyle.OPPO, label: 'OPPO' },
+  { value: FontStyle.SWEI, label: 'Swei' },
+  { value: FontStyle.SMILEY, label: 'Smiley' },
+];
+
+interface FontPanelProps {
+  config: CardConfig;
+  onUpdateConfig: (key: 'fontStyle' | 'titleFont' | 'bodyFont', value: string | undefined) => void;
+  onFontDeleted: (font: CustomFont) => void;
+}
+
+export const FontPanel: React.FC<FontPanelProps> = ({ config, onUpdateConfig, onFontDeleted }) => {
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const fontFileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listCustomFonts()
+      .then(setCustomFonts)
+      .catch((error) => console.error('Failed to load fonts:', error));
+  }, []);
+
+  const uploadFont = async (file: File) => {
+    try {
+      const font = await saveCustomFont(file);
+      setCustomFonts((prev) => [...prev, font]);
+    } catch (error) {
+      console.error('Failed to upload font:', error);
+      alert(`Failed to upload font. ${error instanceof Error ? error.message : ''}`.trim());
+    }
+  };
+
+  const removeFont = async (font: CustomFont) => {
+    if (!window.confirm(`Delete font "${font.name}"?`)) return;
+
+    try {
+      await deleteCustomFont(font.id);
+      setCustomFonts((prev) => prev.filter((candidate) => candidate.id !== font.id));
+      onFontDeleted(font);
+    } catch (error) {
+      console.error('Failed to delete font:', error);
+    }
+  };
+
+  return (
+    <div className={blockClass}>
+      <div className="flex items-center justify-between">
+        <div className={sectionLabelClass}>Font</div>
+        <button
+          onClick={() => fontFileInputRef.current?.click()}
+          className={headerActionClass}
+          title="Upload a TTF, OTF, WOFF or WOFF2 font"
+        >
+          <FileUp size={12} />
+          Upload
+        </button>
+      </div>
+      <input
+        ref={fontFileInputRef}
+        type="file"
+        accept={CUSTOM_FONT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={async (e) => {
+          const files = Array.from(e.target.files ?? []);
+          e.target.value = '';
+          for (const file of files) await uploadFont(file);
+        }}
+      />
+      <div className="flex flex-wrap gap-2">
+        {FONT_STYLES.map((style) => (
+          <button
+            key={style.value}
+            onClick={() => onUpdateConfig('fontStyle', style.value)}
+            className={`${chipClass} ${config.fontStyle === style.value ? activeChipClass : ''}`}
+          >
+            {style.label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {([['titleFont', 'Title'], ['bodyFont', 'Body']] as const).map(([key, label]) => (
+          <div key={key} className="relative">
+            <select
+              value={config[key] ?? ''}
+              onChange={(e) => onUpdateConfig(key, e.target.value || undefined)}
+              className="h-[34px] w-full appearance-none rounded-[11px] border border-black/10 bg-white pl-3 pr-8 text-[11px] text-black/80 outline-none"
+              aria-label={`${label} font`}
+            >
+              <option value="">{label}: same as above</option>
+              <optgroup label="Built-in">
+                {FONT_STYLES.map((style) => (
+                  <option key={style.value} value={style.value}>{label}: {style.label}</option>
+                ))}
+              </optgroup>
+              {customFonts.length > 0 && (
+                <optgroup label="Uploaded">
+                  {customFonts.map((font) => (
+                    <option key={font.id} value={font.id}>{label}: {font.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <ChevronDown size={14} className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 text-black/40" />
+          </div>
+        ))}
+      </div>
+      {customFonts.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {customFonts.map((font) => (
+            <span
+              key={font.id}
+              className="inline-flex h-7 items-center gap-1.5 rounded-lg border border-black/10 bg-white pl-2.5 pr-1 text-[10px] text-black/70"
+            >
+              {font.name}
+              <button
+                onClick={() => removeFont(font)}
+                className="inline-flex h-5 w-5 items-center justify-center rounded-md text-black/40 transition-colors hover:text-red-500"
+                aria-label={`Delete ${font.name}`}
+                title="Delete"
+              >
+                <X size={11} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/Preset，依赖 ../services/presetStore 的预设库读写与 JSON 导入导出，
+ *          依赖 ../services/cardExport 的 downloadBlob，依赖 ./consoleStyles 的面板类名，依赖 lucide-react 的图标
+ * [OUTPUT]: 对外提供 PresetPanel 组件
+ * [POS]: components/ 的用户预设面板，Console Style Tab 的一块；自行管理预设库，应用预设交回 App（记入撤销栈）
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CardConfig, Preset } from '../types';
+import {
+  DEFAULT_PRESET_NAME,
+  deletePreset,
+  importPresets,
+  listPresets,
+  parsePresetFile,
+  renamePreset,
+  savePreset,
+  serializePresets,
+} from '../services/presetStore';
+import { downloadBlob } from '../services/cardExport';
+import { blockClass, chipClass, headerActionClass, sectionLabelClass } from './consoleStyles';
+import { FileJson, FileUp, Pencil, X } from 'lucide-react';
+
+interface PresetPanelProps {
+  config: CardConfig;
+  onApplyPreset: (preset: Preset) => void;
+}
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({ config, onApplyPreset }) => {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const presetFileInputRef = useRef<HTMLInputElement>(null);
+  const [presetNameDraft, setPresetNameDraft] = useState('');
+  const [renamingPresetId, setRenamingPresetId] = useState<string | null>(null);
+  const [presetRenameDraft, setPresetRenameDraft] = useState('');
+
+  const refreshPresets = useCallback(async () => {
+    setPresets(await listPresets());
+  }, []);
+
+  useEffect(() => {
+    refreshPresets().catch((error) => console.error('Failed to load presets:', error));
+  }, [refreshPresets]);
+
+  const submitPresetName = async () => {
+    const name = presetNameDraft.trim() || config.title.trim() || DEFAULT_PRESET_NAME;
+    setPresetNameDraft('');
+    try {
+      await savePreset(name, config);
+      await refreshPresets();
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+      alert('Failed to save preset.');
+    }
+  };
+
+  const startPresetRename = (preset: Preset) => {
+    setRenamingPresetId(preset.id);
+    setPresetRenameDraft(preset.name);
+  };
+
+  const commitPresetRename = async () => {
+    const preset = presets.find((candidate) => candidate.id === renamingPresetId);
+    setRenamingPresetId(null);
+    const nextName = presetRenameDraft.trim();
+    if (!preset || !nextName || nextName === preset.name) return;
+
+    try {
+      await renamePreset(preset.id, nextName);
+      await refreshPresets();
+    } catch (error) {
+      console.error('Failed to rename preset:', error);
+    }
+  };
+
+  const removePreset = async (preset: Preset) => {
+    if (!window.confirm(`Delete preset "${preset.name}"?`)) return;
+
+    try {
+      await deletePreset(preset.id);
+      await refreshPresets();
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+    }
+  };
+
+  const exportPresetFile = () => {
+    if (!presets.length) return;
+    downloadBlob(
+      new Blob([serializePresets(presets)], { type: 'application/json;charset=utf-8' }),
+      'textcuts-presets.json',
+    );
+  };
+
+  const importPresetFile = async (file: File) => {
+    try {
+      await importPresets(parsePresetFile(await file.text()));
+      await refreshPresets();
+    } catch (error) {
+      console.error('Failed to import presets:', error);
+      alert('Failed to import presets.');
+    }
+  };
+
+  return (
+    <div className={blockClass}>
+      <div className="flex items-center justify-between">
+        <div className={sectionLabelClass}>Presets</div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => presetFileInputRef.current?.click()}
+            className={headerActionClass}
+            title="Import presets from a JSON file"
+          >
+            <FileUp size={12} />
+            Import
+          </button>
+          <button
+            onClick={exportPresetFile}
+            disabled={presets.length === 0}
+            className={`${headerActionClass} disabled:opacity-30 disabled:hover:bg-transparent`}
+            title="Export all presets as JSON"
+          >
+            <FileJson size={12} />
+            Export
+          </button>
+        </div>
+      </div>
+      <input
+        ref={presetFileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importPresetFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      {presets.length > 0 && (
+        <div className="flex flex-col gap-1.5">
+          {presets.map((preset) => (
+            <div key={preset.id} className="flex items-center gap-1.5">
+              {renamingPresetId === preset.id ? (
+                <input
+                  type="text"
+                  autoFocus
+                  value={presetRenameDraft}
+                  onChange={(e) => setPresetRenameDraft(e.target.value)}
+                  onBlur={commitPresetRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    if (e.key === 'Escape') setRenamingPresetId(null);
+                  }}
+                  className="h-[34px] min-w-0 flex-1 rounded-[11px] border border-[#ea580c]/50 bg-white px-3 text-sm text-black/80 outline-none"
+                />
+              ) : (
+                <button
+                  onClick={() => onApplyPreset(preset)}
+                  onDoubleClick={() => startPresetRename(preset)}
+                  className={`${chipClass} min-w-0 flex-1 truncate text-left`}
+                  title="Apply preset · double-click to rename"
+                >
+                  {preset.name}
+                </button>
+              )}
+              <button
+                onClick={() => startPresetRename(preset)}
+                className="inline-flex h-[34px] w-[34px] shrink-0 items-center justify-center rounded-[11px] border border-black/10 bg-white text-black/45 transition-colors hover:border-black/15 hover:text-black"
+                aria-label={`Rename ${preset.name}`}
+                title="Rename"
+              >
+                <Pencil size={12} />
+              </button>
+              <button
+                onClick={() => removePreset(preset)}
+                className="inline-flex h-[34px] w-[34px] shrink-0 items-center justify-center rounded-[11px] border border-black/10 bg-white text-black/45 transition-colors hover:border-red-200 hover:text-red-500"
+                aria-label={`Delete ${preset.name}`}
+                title="Delete"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-[1fr_auto] gap-2">
+        <input
+          type="text"
+          value={presetNameDraft}
+          onChange={(e) => setPresetNameDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitPresetName();
+          }}
+          className="h-[34px] min-w-0 rounded-[11px] border border-black/10 bg-white px-3 text-sm text-black/80 outline-none"
+          placeholder="Preset name"
+        />
+        <button onClick={submitPresetName} className={chipClass}>
+          Save Current
+        </button>
+      </div>
+    </div>
+  );
+};
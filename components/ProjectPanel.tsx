@@ -0,0 +1,84 @@
+/**
+ * [INPUT]: 依赖 ../types 的 ProjectSummary，依赖 ./consoleStyles 的面板类名，依赖 lucide-react 的图标
+ * [OUTPUT]: 对外提供 ProjectPanel 组件
+ * [POS]: components/ 的项目面板，Console Source Tab 的首块；项目切换、重命名、新建 / 复制 / 删除，
+ *        项目的读写与自动保存由 App 负责
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { blockClass, chipClass, sectionLabelClass } from './consoleStyles';
+import { ChevronDown } from 'lucide-react';
+
+interface ProjectPanelProps {
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  onSelectProject?: (projectId: string) => void;
+  onCreateProject?: () => void;
+  onDuplicateProject?: () => void;
+  onRenameProject?: (name: string) => void;
+  onDeleteProject?: () => void;
+}
+
+export const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projects, activeProjectId,
+  onSelectProject, onCreateProject, onDuplicateProject, onRenameProject, onDeleteProject,
+}) => {
+  const activeProject = projects.find((project) => project.id === activeProjectId) ?? null;
+  const [projectNameDraft, setProjectNameDraft] = useState(activeProject?.name ?? '');
+
+  // Re-sync the rename field whenever another project becomes active.
+  useEffect(() => {
+    setProjectNameDraft(activeProject?.name ?? '');
+  }, [activeProject?.id, activeProject?.name]);
+
+  const commitProjectName = () => {
+    if (!activeProject) return;
+    const nextName = projectNameDraft.trim();
+    if (!nextName) {
+      setProjectNameDraft(activeProject.name);
+      return;
+    }
+    if (nextName !== activeProject.name) onRenameProject?.(nextName);
+  };
+
+  return (
+    <div className={blockClass}>
+      <div className={sectionLabelClass}>Project</div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="relative">
+          <select
+            value={activeProjectId ?? ''}
+            onChange={(e) => onSelectProject?.(e.target.value)}
+            disabled={projects.length === 0}
+            className="h-[42px] w-full appearance-none rounded-[11px] border border-black/10 bg-white pl-3 pr-8 text-sm text-black/80 outline-none disabled:opacity-40"
+          >
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name} · {project.cardCount}
+              </option>
+            ))}
+          </select>
+          <ChevronDown size={14} className="pointer-events-none absolute right-3 top-1/2 -translate-y-1/2 text-black/40" />
+        </div>
+        <input
+          type="text"
+          value={projectNameDraft}
+          onChange={(e) => setProjectNameDraft(e.target.value)}
+          onBlur={commitProjectName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          disabled={!activeProject}
+          className="h-[42px] rounded-[11px] border border-black/10 bg-white px-3 text-sm text-black/80 outline-none disabled:opacity-40"
+          placeholder="Project name"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={onCreateProject} className={chipClass}>New</button>
+        <button onClick={onDuplicateProject} disabled={!activeProject} className={`${chipClass} disabled:opacity-40 disabled:cursor-not-allowed`}>Duplicate</button>
+        <button onClick={onDeleteProject} disabled={!activeProject} className={`${chipClass} disabled:opacity-40 disabled:cursor-not-allowed`}>Delete</button>
+      </div>
+    </div>
+  );
+};
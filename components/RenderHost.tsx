@@ -0,0 +1,240 @@
+/**
+ * [INPUT]: 依赖 ./Card 的 Card 组件与 CardHandle，依赖 ../services/geminiService 的 streamTextIntoCards，
+ *          依赖 ../services/cardExport 的单卡捕获 / ZIP / PDF 导出，依赖 ../services/apiKeyStore 的 writeApiKey（CLI 传入的 Key），
+ *          依赖 ../utils/cardConfig 的配置迁移与卡片尺寸，依赖 ../utils/cardReflow 的溢出回流（与 App 同一套规则），依赖 ../utils/compositionRegistry 的渐变背景判定，
+ *          依赖 ../utils/gradientBackground 的渐变背景渲染
+ * [OUTPUT]: 对外提供 RenderHost 组件、RenderJob / RenderJobResult / RenderedFile 类型；
+ *           挂载后在 window.textcutsRender 上暴露 (job) => Promise<RenderJobResult>
+ * [POS]: components/ 的无界面渲染面；index.tsx 在 URL 带 ?render 时挂载它而非 App，
+ *        由 cli/textcuts.mjs 通过无头浏览器驱动——切分、溢出回流与导出全部复用浏览器端的同一套代码
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardHandle } from "./Card";
+import { AiProviderId, CardConfig, CardSegment, ExportFormat, ExportSettings } from "../types";
+import { streamTextIntoCards } from "../services/geminiService";
+import { writeApiKey } from "../services/apiKeyStore";
+import {
+  buildCardFileName,
+  captureCardElement,
+  DEFAULT_EXPORT_SETTINGS,
+  exportDeckArchive,
+  exportDeckPdf,
+  getExportExtension,
+  toExportBaseName,
+} from "../services/cardExport";
+import {
+  createDefaultConfig,
+  createGradientBackgroundForConfig,
+  getCardHeight,
+  getCardWidth,
+  migrateConfig,
+} from "../utils/cardConfig";
+import { usesGradientBackground } from "../utils/compositionRegistry";
+import {
+  applyOverflowSplitToCards,
+  createReflowState,
+  MAX_REFLOW_PASSES,
+  mergeUnderfilledCard,
+  planReflowStep,
+} from "../utils/cardReflow";
+import { renderGradientBackgroundToDataUrl } from "../utils/gradientBackground";
+
+export type RenderOutput = ExportFormat | "zip" | "pdf";
+
+export interface RenderJob {
+  text: string;
+  /** The same JSON the app keeps under `textcuts_config` in localStorage. */
+  config?: Partial<CardConfig>;
+  /** Version the config was saved with (default 0); older configs are migrated like the app does. */
+  configVersion?: number;
+  output: RenderOutput;
+  exportSettings?: Partial<ExportSettings>;
+  /** Provider keys from the CLI's environment; the build itself carries none. */
+  apiKeys?: Partial<Record<AiProviderId, string>>;
+}
+
+export interface RenderedFile {
+  name: string;
+  base64: string;
+}
+
+export interface RenderJobResult {
+  cards: CardSegment[];
+  files: RenderedFile[];
+  /** Why the split fell back to the offline splitter, if it did. */
+  fallback?: string;
+}
+
+declare global {
+  interface Window {
+    textcutsRender?: (job: RenderJob) => Promise<RenderJobResult>;
+  }
+}
+
+type RenderedDeck = {
+  cards: CardSegment[];
+  config: CardConfig;
+  backgroundImage: string | null;
+};
+
+const waitForPaint = () =>
+  new Promise<void>((resolve) =>
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve())),
+  );
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read blob"));
+    reader.readAsDataURL(blob);
+  });
+
+const dataUrlToBase64 = async (dataUrl: string) =>
+  blobToBase64(await (await fetch(dataUrl)).blob());
+
+const resolveRenderConfig = (job: RenderJob) => {
+  const config = migrateConfig(
+    job.config ?? {},
+    createDefaultConfig(),
+    // Like the app with no stored version: assume the oldest and migrate.
+    job.configVersion ?? 0,
+  );
+  if (usesGradientBackground(config) && !config.gradientBackground) {
+    return { ...config, gradientBackground: createGradientBackgroundForConfig(config) };
+  }
+  return config;
+};
+
+export const RenderHost: React.FC = () => {
+  const [deck, setDeck] = useState<RenderedDeck | null>(null);
+  const cardRefs = useRef<Array<CardHandle | null>>([]);
+  const commitResolverRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    commitResolverRef.current?.();
+    commitResolverRef.current = null;
+  }, [deck]);
+
+  // Resolves once React has committed the deck and the browser has laid it out.
+  const commitDeck = useCallback(async (next: RenderedDeck) => {
+    await new Promise<void>((resolve) => {
+      commitResolverRef.current = resolve;
+      setDeck(next);
+    });
+    await document.fonts.ready;
+    await waitForPaint();
+  }, []);
+
+  const run = useCallback(
+    async (job: RenderJob): Promise<RenderJobResult> => {
+      Object.entries(job.apiKeys ?? {}).forEach(([id, key]) => {
+        if (key) writeApiKey(id as AiProviderId, key);
+      });
+      const config = resolveRenderConfig(job);
+      const backgroundImage =
+        usesGradientBackground(config) && config.gradientBackground
+          ? renderGradientBackgroundToDataUrl(
+              config.gradientBackground,
+              getCardWidth(config.aspectRatio, config.cardScale),
+              getCardHeight(config.aspectRatio, config.cardScale),
+            )
+          : null;
+
+      const result = await streamTextIntoCards(job.text, config);
+      let cards = result.segments;
+      await commitDeck({ cards, config, backgroundImage });
+
+      // The app's reflow, pass for pass: split overflow, then flow-fill underfilled cards.
+      const reflowState = createReflowState();
+      for (let pass = 0; pass < MAX_REFLOW_PASSES; pass += 1) {
+        const step = planReflowStep(cards, (index) => cardRefs.current[index], reflowState);
+        if (step.type === "done") break;
+        if (step.type === "split") {
+          cards = applyOverflowSplitToCards(cards, step.index, step.split, job.text);
+        } else if (step.type === "merge") {
+          cards = mergeUnderfilledCard(cards, step.index, job.text);
+        }
+        await commitDeck({ cards: [...cards], config, backgroundImage });
+      }
+
+      const getElement = (index: number) => cardRefs.current[index]?.element ?? null;
+      const baseName = toExportBaseName(config.title);
+
+      if (job.output === "pdf") {
+        const pdf = await exportDeckPdf({ cards, getElement });
+        return { cards, fallback: result.fallback, files: [{ name: `${baseName}.pdf`, base64: await blobToBase64(pdf) }] };
+      }
+
+      const settings: ExportSettings = {
+        ...DEFAULT_EXPORT_SETTINGS,
+        ...job.exportSettings,
+        format: job.output === "zip" ? job.exportSettings?.format ?? "png" : job.output,
+      };
+
+      if (job.output === "zip") {
+        const archive = await exportDeckArchive({
+          cards,
+          getElement,
+          meta: { title: config.title, authorName: config.authorName },
+          settings,
+        });
+        return { cards, fallback: result.fallback, files: [{ name: `${baseName}.zip`, base64: await blobToBase64(archive) }] };
+      }
+
+      const extension = getExportExtension(settings.format);
+      const files: RenderedFile[] = [];
+      for (let index = 0; index < cards.length; index += 1) {
+        const el = getElement(index);
+        if (!el) throw new Error(`Card ${index + 1} is not rendered`);
+        files.push({
+          name: buildCardFileName(index, cards.length, extension),
+          base64: await dataUrlToBase64(await captureCardElement(el, settings)),
+        });
+      }
+      return { cards, fallback: result.fallback, files };
+    },
+    [commitDeck],
+  );
+
+  useEffect(() => {
+    window.textcutsRender = run;
+    return () => {
+      delete window.textcutsRender;
+    };
+  }, [run]);
+
+  if (!deck) return null;
+
+  const width = getCardWidth(deck.config.aspectRatio, deck.config.cardScale);
+
+  return (
+    <div className="flex flex-col items-start gap-8 p-8">
+      {deck.cards.map((segment, idx) => (
+        <div
+          key={idx}
+          className="shrink-0"
+          style={{ width: `${width}px`, aspectRatio: deck.config.aspectRatio.replace(":", "/") }}
+        >
+          <Card
+            ref={(handle) => {
+              cardRefs.current[idx] = handle;
+            }}
+            content={segment.content}
+            sectionTitle={segment.title}
+            layout={segment.layout}
+            image={segment.image}
+            imageConfig={segment.imageConfig}
+            editorialBrandLabel={segment.editorialBrandLabel}
+            editorialBadgeText={segment.editorialBadgeText}
+            editorialBackgroundImage={deck.backgroundImage}
+            index={idx}
+            total={deck.cards.length}
+            config={deck.config}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -64,7 +64,7 @@ export const StylePanel: React.FC<StylePanelProps> = ({ config, setConfig, onClo
                 `}
                >
                  <span className="uppercase tracking-wider text-[10px]">
-                   {ratio === AspectRatio.PORTRAIT ? 'Portrait' : ratio === AspectRatio.SQUARE ? 'Square' : 'Wide'}
+                   {ratio === AspectRatio.PORTRAIT ? 'Portrait' : ratio === AspectRatio.FEED ? 'Feed' : ratio === AspectRatio.SQUARE ? 'Square' : ratio === AspectRatio.STORY ? 'Story' : 'Wide'}
                  </span>
                  <span className="font-mono text-[10px] opacity-40">{ratio}</span>
                </button>
@@ -0,0 +1,145 @@
+/**
+ * [INPUT]: 依赖 ../../utils/compositionRegistry 的 CompositionDefinition/CompositionRenderContext 类型
+ * [OUTPUT]: 对外提供 quoteComposition 构图定义、toQuoteText(markdown)
+ * [POS]: components/compositions/ 的引言构图；一张卡一句话或一段 blockquote，巨大的强调色引号框住正文，
+ *        正文由 Card 在 [1, maxScale] 间自动缩放填满画框，仍放不下时照常溢出拆分，且始终视为填满（不参与欠填合并）；
+ *        署名取 authorName，封面卡把标题本身当作引言
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import React from 'react';
+import { CompositionDefinition, CompositionRenderContext } from '../../utils/compositionRegistry';
+
+const QUOTE_MIN_SCALE = 1;
+// Curly marks read best in a serif, whatever the card font is.
+const QUOTE_MARK_FONT = "Georgia, 'Times New Roman', serif";
+const QUOTE_WRAPPERS: Array<[string, string]> = [['"', '"'], ['“', '”'], ['「', '」'], ['『', '』']];
+
+/** The giant marks already frame the quote, so drop blockquote markers and quotes the author typed. */
+export const toQuoteText = (text: string) => {
+  const unmarked = text.replace(/^[ \t]*>[ \t]?/gm, '').trim();
+  const wrapper = QUOTE_WRAPPERS.find(([open, close]) =>
+    unmarked.length > open.length + close.length && unmarked.startsWith(open) && unmarked.endsWith(close),
+  );
+  return wrapper ? unmarked.slice(wrapper[0].length, -wrapper[1].length).trim() : unmarked;
+};
+
+const renderQuote = (context: CompositionRenderContext) => {
+  const { config, theme, options, isCover, px, rem } = context;
+  const isHorizontal = context.imagePosition === 'left' || context.imagePosition === 'right';
+  const attribution = config.authorName?.trim();
+  const showMarks = options.marks !== false;
+  const QUOTE_LABEL = 11;
+  const coverQuoteSize = rem(2.25);
+  // Curly marks sit in the top half of their em box, so the box is cropped to keep them tight.
+  const quoteMarkStyle: React.CSSProperties = {
+    color: config.accentColor,
+    fontFamily: QUOTE_MARK_FONT,
+    fontSize: rem(6),
+    lineHeight: 1,
+    height: rem(3),
+  };
+
+  return (
+    <div
+      className="flex flex-col h-full w-full relative overflow-hidden"
+      style={{ paddingInline: px(32), paddingTop: px(28), paddingBottom: px(28) }}
+    >
+      {/* Top bar: kicker title (left) + index (right) */}
+      <div
+        className="shrink-0 flex items-start justify-between font-sans font-medium uppercase tracking-[0.18em]"
+        style={{ gap: px(16), minHeight: px(16), fontSize: px(QUOTE_LABEL), color: theme.muted }}
+      >
+        {!isCover && context.hasTitle ? (
+          context.renderTitle({
+            className: 'flex-1 min-w-0 truncate uppercase placeholder:opacity-40',
+            style: { color: theme.muted, fontSize: 'inherit', fontWeight: 500 },
+            placeholder: '(No Title)',
+          })
+        ) : (
+          <span />
+        )}
+        {context.showNumber && <span className="shrink-0">{context.displayIndex}</span>}
+      </div>
+
+      {/* Opening mark */}
+      {showMarks && (
+        <div aria-hidden="true" className="shrink-0 select-none" style={{ ...quoteMarkStyle, marginTop: px(12) }}>
+          “
+        </div>
+      )}
+
+      {/* Quote with dynamic image position */}
+      <div
+        className={`flex-1 min-h-0 relative flex ${isHorizontal ? 'flex-row' : 'flex-col'}`}
+        style={{ gap: isHorizontal ? px(24) : undefined, marginTop: showMarks ? undefined : px(20) }}
+      >
+        {context.imagePosition === 'left' && context.renderImage("h-full rounded-sm")}
+        {context.imagePosition === 'top' && context.renderImage("w-full mb-6 rounded-sm")}
+
+        {isCover ? (
+          <div className="flex-1 min-h-0 flex flex-col justify-center">
+            {context.renderTitle({
+              className: 'w-full font-bold break-words whitespace-pre-wrap',
+              style: { color: config.textColor, fontSize: coverQuoteSize, lineHeight: 1.35 },
+              placeholder: 'QUOTE',
+              multiline: true,
+              format: (title) => toQuoteText(title) || 'UNTITLED',
+            })}
+          </div>
+        ) : (
+          <div
+            className="flex-1 min-h-0 relative"
+            style={{
+              fontSize: context.bodyTypography.fontSize,
+              lineHeight: 1.5,
+              letterSpacing: '0.01em',
+              color: config.textColor,
+            }}
+          >
+            {context.renderContent()}
+            {context.renderOverflowControl()}
+          </div>
+        )}
+
+        {context.imagePosition === 'right' && context.renderImage("h-full rounded-sm")}
+        {context.imagePosition === 'bottom' && context.renderImage("w-full mt-6 rounded-sm")}
+      </div>
+
+      {/* Bottom bar: attribution (left) + closing mark (right) */}
+      <div className="shrink-0 flex items-end justify-between" style={{ gap: px(16), marginTop: px(16) }}>
+        {attribution ? (
+          <div className="flex items-center font-sans font-medium min-w-0" style={{ gap: px(12), fontSize: px(13), paddingBottom: px(8) }}>
+            <span className="shrink-0" style={{ width: px(24), height: '2px', backgroundColor: config.accentColor }} />
+            <span className="truncate">{attribution}</span>
+          </div>
+        ) : (
+          <span />
+        )}
+        {showMarks && (
+          <div aria-hidden="true" className="shrink-0 select-none" style={quoteMarkStyle}>
+            ”
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const quoteComposition: CompositionDefinition = {
+  id: 'quote',
+  label: 'Quote',
+  heroBackgroundClass: 'bg-white',
+  heroPanel: 'editorial',
+  options: [
+    { type: 'toggle', key: 'marks', label: 'Quote Marks', default: true },
+    { type: 'range', key: 'maxScale', label: 'Max Size', min: 1.2, max: 3, step: 0.1, default: 2.6 },
+  ],
+  body: { align: 'left', center: true, format: toQuoteText },
+  measure: {
+    fitScale: (options) => [QUOTE_MIN_SCALE, Number(options.maxScale)],
+    // A quote fills its card by scaling, so flow-fill never merges the next quote into it.
+    getBodyOccupancy: (occupancy) => Math.max(1, occupancy),
+  },
+  renderCover: renderQuote,
+  renderBody: renderQuote,
+};
@@ -0,0 +1,11 @@
+/**
+ * [INPUT]: 依赖 ../../utils/compositionRegistry 的 registerComposition，依赖 ./QuoteComposition 的 quoteComposition
+ * [OUTPUT]: 无导出；导入即把本目录的构图模块登记进注册表
+ * [POS]: components/compositions/ 的入口；components/Card 导入它，所以 App 与 RenderHost 渲染前所有构图都已登记；
+ *        新增构图 = 本目录新建一个模块 + 在这里登记一行，登记顺序即 Console 与首页标签的顺序
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { registerComposition } from '../../utils/compositionRegistry';
+import { quoteComposition } from './QuoteComposition';
+
+registerComposition(quoteComposition);
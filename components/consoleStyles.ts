@@ -0,0 +1,17 @@
+/**
+ * [INPUT]: 无外部依赖
+ * [OUTPUT]: 对外提供 Console 各面板共用的 Tailwind 类名常量
+ * [POS]: components/ 的控制面板样式常量，Console 与其拆出的子面板共用
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+export const blockClass = "flex flex-col gap-3.5 border-t border-black/[0.06] pt-5 pb-4 first:border-t-0 first:pt-2 first:pb-4";
+export const sectionLabelClass = "text-[9px] font-bold uppercase tracking-[0.14em] text-black/85";
+export const sliderClass =
+  "w-full h-1.5 bg-black/10 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:bg-black [&::-webkit-slider-thumb]:rounded-full hover:[&::-webkit-slider-thumb]:scale-110 transition-all";
+export const chipClass =
+  "min-h-[34px] rounded-[11px] border border-black/10 bg-white px-3 text-[9px] font-bold uppercase tracking-[0.08em] text-black/70 transition-colors hover:border-black/15 hover:text-black";
+export const activeChipClass = "border-[#ea580c]/50 bg-[#fff7ed] text-black/80";
+/** Small text button in a section header (Import / Export / Upload). */
+export const headerActionClass =
+  "h-7 px-2 rounded-lg text-[9px] font-bold uppercase tracking-[0.08em] text-black/50 hover:bg-black/5 hover:text-black flex items-center gap-1.5 transition-colors";
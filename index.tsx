@@ -1,6 +1,7 @@
 /**
- * [INPUT]: 依赖 react-dom/client 的 createRoot，依赖 ./App 的根组件
- * [OUTPUT]: 无导出（副作用入口：挂载 React 应用到 #root DOM 节点）
+ * [INPUT]: 依赖 react-dom/client 的 createRoot，依赖 ./App 的根组件，依赖 ./components/RenderHost 的无界面渲染面
+ * [OUTPUT]: 无导出（副作用入口：挂载 React 应用到 #root DOM 节点；URL 带 ?render 时改为挂载 RenderHost 供 CLI 驱动，
+ *           RenderHost 只在 dev server 或构建时设了 TEXTCUTS_RENDER_HOST=on 时才打包）
  * [POS]: 项目启动入口，整个应用的引导层；被 index.html 通过 <script type="module"> 引用
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
@@ -8,14 +9,28 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 
+// Builds without the flag drop this branch, and the render host chunk with it.
+const RenderHost =
+  process.env.TEXTCUTS_RENDER_HOST === 'on'
+    ? React.lazy(() => import('./components/RenderHost').then((module) => ({ default: module.RenderHost })))
+    : null;
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+const isHeadlessRender = RenderHost !== null && new URLSearchParams(window.location.search).has('render');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isHeadlessRender && RenderHost ? (
+      <React.Suspense fallback={null}>
+        <RenderHost />
+      </React.Suspense>
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 );
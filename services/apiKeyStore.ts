@@ -0,0 +1,34 @@
+/**
+ * [INPUT]: 依赖 ../types 的 AiProviderId
+ * [OUTPUT]: 对外提供 readApiKey(id) / writeApiKey(id, key) / hasBuildTimeApiKey(id)
+ * [POS]: services/ 的模型 API Key 存储；Key 由用户在 Console 填写，只存本机 localStorage，
+ *        不进 CardConfig、预设、项目或导出文件，也不打进构建产物；llmProviders 在请求时读取
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { AiProviderId } from "../types";
+
+const STORAGE_KEY = "textcuts_api_keys";
+
+const readAll = (): Partial<Record<AiProviderId, string>> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const readApiKey = (id: AiProviderId) => {
+  const key = readAll()[id];
+  return typeof key === "string" ? key.trim() : "";
+};
+
+/** An empty key removes the stored one. */
+export const writeApiKey = (id: AiProviderId, key: string) => {
+  const next = { ...readAll(), [id]: key.trim() };
+  if (!next[id]) delete next[id];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+};
+
+/** Only the Gemini key may come from the dev build's .env.local; see README. */
+export const hasBuildTimeApiKey = (id: AiProviderId) => id === "gemini" && Boolean(process.env.API_KEY);
@@ -0,0 +1,430 @@
+/**
+ * [INPUT]: 依赖 html-to-image 的 toPng / toSvg / getFontEmbedCSS，依赖 ../utils/zipWriter 的 createZipArchive，
+ *          依赖 ../utils/pdfWriter 的 createPdfDocument，依赖 ./fontStore 的 waitForCustomFonts / buildCustomFontEmbedCSS，
+ *          依赖 ../types 的 CardSegment
+ * [OUTPUT]: 对外提供 captureCardElement(el, settings) / exportDeckArchive(options) / exportDeckPdf(options) /
+ *           downloadBlob(blob, name) / downloadDataUrl(url, name) / buildCardFileName(index, total, ext) /
+ *           getExportExtension(format) / toExportBaseName(title) / loadImage(src) / createRoundedRectPath(ctx, w, h, r) /
+ *           DEFAULT_EXPORT_SETTINGS /
+ *           DeckExportProgress / CaptureSettings 类型
+ * [POS]: services/ 的卡片导出管线；把卡片 DOM 渲染为 PNG / WebP（透明圆角）、JPEG（白底）或 SVG（foreignObject），
+ *        尺寸按像素倍率或精确目标宽度；等用户字体注册完与 document.fonts.ready 后再截图，并把卡片用到的上传字体内联进 @font-face，
+ *        单卡直接下载，整组打成一个 ZIP（可附 manifest.json）或多页栅格 PDF（每卡一页、按卡片真实比例；纯文字页无损、带图页 JPEG，文字不可选中），
+ *        支持进度回调与 AbortSignal 取消
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { getFontEmbedCSS, toPng, toSvg } from "html-to-image";
+import { CardSegment, ExportFormat, ExportSettings } from "../types";
+import { buildCustomFontEmbedCSS, waitForCustomFonts } from "./fontStore";
+import { createPdfDocument, type PdfPage } from "../utils/pdfWriter";
+import { createZipArchive, type ZipEntry } from "../utils/zipWriter";
+
+const PDF_JPEG_QUALITY = 0.92;
+const JPEG_FLATTEN_COLOR = "#ffffff";
+const CSS_PX_TO_PT = 0.75; // 96 CSS px per inch → 72 pt per inch
+
+export interface DeckExportProgress {
+  completed: number;
+  total: number;
+}
+
+export type CaptureSettings = Pick<
+  ExportSettings,
+  "format" | "quality" | "sizeMode" | "pixelRatio" | "targetWidth"
+>;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "png",
+  quality: 0.9,
+  sizeMode: "pixelRatio",
+  pixelRatio: 3,
+  targetWidth: 1080,
+  includeManifest: true,
+  slideshow: {
+    format: "webm",
+    secondsPerCard: 3,
+    transition: "slide",
+    animateBackground: false,
+  },
+};
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+export const getExportExtension = (format: ExportFormat) =>
+  format === "jpeg" ? "jpg" : format;
+
+// ── Rasterizing ─────────────────────────────────────────────
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image"));
+    image.src = src;
+  });
+
+export const createRoundedRectPath = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  radius: number,
+) => {
+  const safeRadius = Math.max(0, Math.min(radius, width / 2, height / 2));
+  context.beginPath();
+  context.moveTo(safeRadius, 0);
+  context.lineTo(width - safeRadius, 0);
+  context.quadraticCurveTo(width, 0, width, safeRadius);
+  context.lineTo(width, height - safeRadius);
+  context.quadraticCurveTo(width, height, width - safeRadius, height);
+  context.lineTo(safeRadius, height);
+  context.quadraticCurveTo(0, height, 0, height - safeRadius);
+  context.lineTo(0, safeRadius);
+  context.quadraticCurveTo(0, 0, safeRadius, 0);
+  context.closePath();
+};
+
+/**
+ * Resample the raw capture to the exact output size, clip the card's rounded
+ * corners and encode. JPEG has no alpha, so it is flattened onto white first.
+ */
+const finalizeRaster = async (
+  dataUrl: string,
+  {
+    width,
+    height,
+    borderRadius,
+    format,
+    quality,
+  }: {
+    width: number;
+    height: number;
+    borderRadius: number;
+    format: Exclude<ExportFormat, "svg">;
+    quality: number;
+  },
+) => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to create export canvas");
+  }
+
+  if (format === "jpeg") {
+    context.fillStyle = JPEG_FLATTEN_COLOR;
+    context.fillRect(0, 0, width, height);
+  }
+  if (borderRadius > 0) {
+    createRoundedRectPath(context, width, height, borderRadius);
+    context.clip();
+  }
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, 0, 0, width, height);
+
+  return canvas.toDataURL(EXPORT_MIME_TYPES[format], quality);
+};
+
+/**
+ * Rasterize one rendered card at its unzoomed size. Output size comes from
+ * either a pixel ratio or an exact target width (height keeps the card ratio).
+ * SVG wraps the live DOM in a foreignObject and ignores sizing.
+ * `omitBackgroundLayer` drops nodes marked `data-export-layer="background"`
+ * and the card fill, leaving the foreground on transparency.
+ */
+export const captureCardElement = async (
+  el: HTMLElement,
+  settings: CaptureSettings = DEFAULT_EXPORT_SETTINGS,
+  { omitBackgroundLayer = false }: { omitBackgroundLayer?: boolean } = {},
+) => {
+  // Web fonts must be ready or html-to-image inlines fallback glyph metrics.
+  if (typeof document !== "undefined" && "fonts" in document) {
+    await waitForCustomFonts();
+    await document.fonts.ready;
+  }
+  // Give pending layout (fonts, images) a frame to settle.
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  const width = el.offsetWidth;
+  const height = el.offsetHeight;
+  const computedStyle = window.getComputedStyle(el);
+  const borderRadius = Number.parseFloat(computedStyle.borderTopLeftRadius) || 0;
+
+  const renderOptions = {
+    cacheBust: true,
+    width: width,
+    height: height,
+    style: {
+      width: `${width}px`,
+      height: `${height}px`,
+      zoom: "1",
+      transform: "none",
+      margin: "0",
+      maxHeight: "none",
+      ...(omitBackgroundLayer ? { backgroundColor: "transparent" } : {}),
+    },
+    filter: (node: HTMLElement) => {
+      if (omitBackgroundLayer && node.dataset?.exportLayer === "background") {
+        return false;
+      }
+      if (
+        node.tagName === "LINK" &&
+        (node as HTMLLinkElement).href.includes("lxgw-zhi-song-screen-web")
+      ) {
+        return false;
+      }
+      return true;
+    },
+    fetchRequestInit: {
+      mode: "cors" as RequestMode,
+    },
+  };
+
+  // Uploaded fonts live in document.fonts, not in a stylesheet html-to-image
+  // can scan, so their @font-face rules are appended to the ones it finds.
+  const customFontCSS = buildCustomFontEmbedCSS(el.outerHTML);
+  const fontEmbedCSS = customFontCSS
+    ? `${await getFontEmbedCSS(el, renderOptions)}\n${customFontCSS}`
+    : undefined;
+
+  if (settings.format === "svg") {
+    return toSvg(el, { ...renderOptions, fontEmbedCSS });
+  }
+
+  const outputWidth =
+    settings.sizeMode === "width"
+      ? settings.targetWidth
+      : Math.round(width * settings.pixelRatio);
+  const scale = outputWidth / width;
+  const outputHeight = Math.round(height * scale);
+  const rawDataUrl = await toPng(el, { ...renderOptions, fontEmbedCSS, pixelRatio: scale });
+
+  return finalizeRaster(rawDataUrl, {
+    width: outputWidth,
+    height: outputHeight,
+    borderRadius: borderRadius * scale,
+    format: settings.format,
+    quality: settings.quality,
+  });
+};
+
+// ── Files ───────────────────────────────────────────────────
+
+// Keep CJK titles; strip only characters file systems reject.
+export const toExportBaseName = (title: string) =>
+  title.trim().replace(/[\\/:*?"<>|\s]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60) ||
+  "textcuts-cards";
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const separator = dataUrl.indexOf(",");
+  // html-to-image emits SVG as a percent-encoded (not base64) data URL.
+  if (!dataUrl.slice(0, separator).endsWith(";base64")) {
+    return new TextEncoder().encode(decodeURIComponent(dataUrl.slice(separator + 1)));
+  }
+  const binary = atob(dataUrl.slice(separator + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
+
+/** `card-01.png`; the pad widens for decks of 100+ cards so names still sort. */
+export const buildCardFileName = (index: number, total: number, extension: string) =>
+  `card-${String(index + 1).padStart(Math.max(2, String(total).length), "0")}.${extension}`;
+
+export const downloadDataUrl = (dataUrl: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = dataUrl;
+  link.click();
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, fileName);
+  // Revoke after the click has been handed to the browser's download manager.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// ── Deck archive ────────────────────────────────────────────
+
+const buildManifest = (
+  cards: CardSegment[],
+  fileNames: string[],
+  meta: { title: string; authorName: string },
+) =>
+  JSON.stringify(
+    {
+      title: meta.title,
+      author: meta.authorName,
+      exportedAt: new Date().toISOString(),
+      cards: cards.map((card, index) => ({
+        index: index + 1,
+        file: fileNames[index],
+        layout: card.layout ?? "standard",
+        title: card.title,
+        text: card.content,
+      })),
+    },
+    null,
+    2,
+  );
+
+/**
+ * Capture every card in order and pack the PNGs (plus an optional
+ * manifest.json) into one ZIP. Rejects with an AbortError when cancelled.
+ */
+export const exportDeckArchive = async ({
+  cards,
+  getElement,
+  meta,
+  settings,
+  signal,
+  onProgress,
+}: {
+  cards: CardSegment[];
+  getElement: (index: number) => HTMLElement | null;
+  meta: { title: string; authorName: string };
+  settings: ExportSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: DeckExportProgress) => void;
+}) => {
+  const entries: ZipEntry[] = [];
+  const extension = getExportExtension(settings.format);
+  const fileNames = cards.map((_, index) => buildCardFileName(index, cards.length, extension));
+  onProgress?.({ completed: 0, total: cards.length });
+
+  for (let index = 0; index < cards.length; index += 1) {
+    signal?.throwIfAborted();
+    const el = getElement(index);
+    if (!el) throw new Error(`Card ${index + 1} is not rendered`);
+
+    const dataUrl = await captureCardElement(el, settings);
+    entries.push({ name: fileNames[index], data: dataUrlToBytes(dataUrl) });
+    onProgress?.({ completed: index + 1, total: cards.length });
+  }
+
+  signal?.throwIfAborted();
+  if (settings.includeManifest) {
+    entries.push({ name: "manifest.json", data: buildManifest(cards, fileNames, meta) });
+  }
+  return createZipArchive(entries);
+};
+
+// ── Deck PDF ────────────────────────────────────────────────
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error(`Failed to encode ${type}`));
+          return;
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      },
+      type,
+      quality,
+    );
+  });
+
+const deflate = async (data: Uint8Array) => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Split a transparent PNG into a color plane plus a deflated alpha mask, so
+ * rounded corners stay transparent in the PDF. Text-only cards keep a
+ * lossless deflated color plane (JPEG smears glyph edges); cards with photos
+ * use JPEG. Without CompressionStream the page is a JPEG flattened onto white.
+ */
+const encodePdfImage = async (dataUrl: string, { lossless }: { lossless: boolean }) => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to create export canvas");
+  }
+
+  const supportsDeflate = typeof CompressionStream !== "undefined";
+  if (!supportsDeflate) {
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0);
+
+  const size = { width: canvas.width, height: canvas.height };
+  if (!supportsDeflate) {
+    return { ...size, encoding: "jpeg" as const, data: await canvasToBytes(canvas, "image/jpeg", PDF_JPEG_QUALITY) };
+  }
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const pixelCount = canvas.width * canvas.height;
+  const channel = new Uint8Array(pixelCount);
+  const rgb = lossless ? new Uint8Array(pixelCount * 3) : null;
+  let isOpaque = true;
+  for (let index = 0; index < pixelCount; index += 1) {
+    channel[index] = data[index * 4 + 3];
+    if (channel[index] !== 255) isOpaque = false;
+    if (rgb) {
+      rgb[index * 3] = data[index * 4];
+      rgb[index * 3 + 1] = data[index * 4 + 1];
+      rgb[index * 3 + 2] = data[index * 4 + 2];
+    }
+  }
+
+  return {
+    ...size,
+    ...(rgb
+      ? { encoding: "flate" as const, data: await deflate(rgb) }
+      : { encoding: "jpeg" as const, data: await canvasToBytes(canvas, "image/jpeg", PDF_JPEG_QUALITY) }),
+    alpha: isOpaque ? undefined : await deflate(channel),
+  };
+};
+
+/**
+ * One page per card, sized to the card's rendered box so every aspect ratio
+ * keeps its true proportions. The PDF is raster only: each page is a high-DPI
+ * image, so text looks exactly as on screen but cannot be selected or searched.
+ */
+export const exportDeckPdf = async ({
+  cards,
+  getElement,
+  signal,
+  onProgress,
+}: {
+  cards: CardSegment[];
+  getElement: (index: number) => HTMLElement | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: DeckExportProgress) => void;
+}) => {
+  const pages: PdfPage[] = [];
+  onProgress?.({ completed: 0, total: cards.length });
+
+  for (let index = 0; index < cards.length; index += 1) {
+    signal?.throwIfAborted();
+    const el = getElement(index);
+    if (!el) throw new Error(`Card ${index + 1} is not rendered`);
+
+    const image = await encodePdfImage(await captureCardElement(el), { lossless: !cards[index].image });
+    pages.push({
+      widthPt: el.offsetWidth * CSS_PX_TO_PT,
+      heightPt: el.offsetHeight * CSS_PX_TO_PT,
+      image,
+    });
+    onProgress?.({ completed: index + 1, total: cards.length });
+  }
+
+  signal?.throwIfAborted();
+  return createPdfDocument(pages);
+};
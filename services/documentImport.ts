@@ -0,0 +1,540 @@
+/**
+ * [INPUT]: 依赖 ../utils/htmlToMarkdown 的 htmlToMarkdown / htmlElementToMarkdown，依赖 ../utils/zipReader 的 readZipArchive，
+ *          依赖 ../utils/deckMarkdown 的 parseDeckMarkdown，依赖 ./imageStore 的 stashImageDataUrl / restoreCardImages，依赖 ../types 的 CardSegment
+ * [OUTPUT]: 对外提供 importDocumentFile(file) / readDeckFile(file) / importHtml(html, baseUrl?) / importFromUrl(url) / isImportableFile(file) /
+ *           extractInlineImages(text) / attachInlineImages(cards, images): { cards, droppedCount } / IMPORT_FILE_ACCEPT / InlineImage 类型
+ * [POS]: services/ 的文档导入层；.md / .txt 原样读入，.html / 网页 / 富文本粘贴经 htmlToMarkdown 转成 Markdown，
+ *        .docx 解包后把 document.xml 重建为 HTML 再走同一转换；TextCuts 自己导出的卡片组 .md 由 readDeckFile 识别并原样还原；内联图片存进 images store，
+ *        原文里只留 ![alt](idb-image:<hash>)。切分前 extractInlineImages 把图片从原文里摘掉并记下锚点文字，
+ *        切分后 attachInlineImages 按锚点把图片放回所在卡片的 CardSegment.image（落在封面上的改放第一张正文卡，
+ *        所在卡已有图时顺延到最近的空闲正文卡，仍放不下的计入 droppedCount）
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment } from "../types";
+import { parseDeckMarkdown } from "../utils/deckMarkdown";
+import { htmlElementToMarkdown, htmlToMarkdown } from "../utils/htmlToMarkdown";
+import { readZipArchive, type ZipArchive } from "../utils/zipReader";
+import { restoreCardImages, stashImageDataUrl } from "./imageStore";
+
+export const IMPORT_FILE_ACCEPT = ".md,.markdown,.txt,.html,.htm,.docx";
+
+const TEXT_EXTENSIONS = new Set(["md", "markdown", "txt"]);
+const HTML_EXTENSIONS = new Set(["html", "htm"]);
+const DOCX_EXTENSION = "docx";
+const MAX_REMOTE_IMAGES = 24;
+const ANCHOR_LENGTH = 24;
+
+const DATA_IMAGE_PATTERN = /!\[([^\]]*)\]\((data:image\/[^)\s]+)\)/g;
+const REMOTE_IMAGE_PATTERN = /!\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)/g;
+const IMAGE_REF_PATTERN = /!\[([^\]]*)\]\((idb-image:[\w-]+)\)/g;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+};
+
+const getExtension = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string) => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/** Swap inline data URLs for store references so the source text stays small. */
+const stashMarkdownImages = async (markdown: string) => {
+  const dataUrls = Array.from(new Set(Array.from(markdown.matchAll(DATA_IMAGE_PATTERN), (match) => match[2])));
+  const refs = new Map<string, string>();
+  for (const dataUrl of dataUrls) {
+    try {
+      refs.set(dataUrl, await stashImageDataUrl(dataUrl));
+    } catch (error) {
+      console.error("Failed to store imported image:", error);
+    }
+  }
+  return markdown.replace(DATA_IMAGE_PATTERN, (match, alt: string, dataUrl: string) => {
+    const ref = refs.get(dataUrl);
+    return ref ? `![${alt}](${ref})` : match;
+  });
+};
+
+/**
+ * Download remote images so they can live on cards (cross-origin images would
+ * taint exports). Hosts without CORS keep their plain URL in the text.
+ */
+const inlineRemoteImages = async (markdown: string) => {
+  const urls = Array.from(new Set(Array.from(markdown.matchAll(REMOTE_IMAGE_PATTERN), (match) => match[2])))
+    .slice(0, MAX_REMOTE_IMAGES);
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    urls.map(async (url) => {
+      try {
+        const response = await fetch(url);
+        const blob = await response.blob();
+        if (response.ok && blob.type.startsWith("image/")) {
+          dataUrls.set(url, await blobToDataUrl(blob));
+        }
+      } catch {
+        // Left as a plain link.
+      }
+    }),
+  );
+  return markdown.replace(REMOTE_IMAGE_PATTERN, (match, alt: string, url: string) => {
+    const dataUrl = dataUrls.get(url);
+    return dataUrl ? `![${alt}](${dataUrl})` : match;
+  });
+};
+
+// ── DOCX ────────────────────────────────────────────────────
+
+type DocxContext = {
+  archive: ZipArchive;
+  doc: Document;
+  relationships: Map<string, string>;
+  styleNames: Map<string, string>;
+  orderedLists: Map<string, Set<number>>;
+};
+
+const childElements = (el: Element, localName?: string) =>
+  Array.from(el.children).filter((child) => !localName || child.localName === localName);
+
+const firstChild = (el: Element | undefined, localName: string) =>
+  el ? childElements(el, localName)[0] : undefined;
+
+// WordprocessingML always prefixes its attributes; match by local name to stay prefix-agnostic.
+const getAttribute = (el: Element | undefined, localName: string) => {
+  if (!el) return null;
+  const attribute = Array.from(el.attributes).find((item) => item.localName === localName);
+  return attribute?.value ?? null;
+};
+
+// <w:b/> is on; <w:b w:val="0"/> or "false" turns it off again.
+const isToggleOn = (el: Element | undefined) => {
+  if (!el) return false;
+  const value = getAttribute(el, "val");
+  return value !== "0" && value !== "false" && value !== "none";
+};
+
+const parseXml = async (archive: ZipArchive, name: string) => {
+  const bytes = await archive.read(name);
+  if (!bytes) return null;
+  return new DOMParser().parseFromString(new TextDecoder().decode(bytes), "application/xml");
+};
+
+const readRelationships = async (archive: ZipArchive) => {
+  const relationships = new Map<string, string>();
+  const xml = await parseXml(archive, "word/_rels/document.xml.rels");
+  xml?.querySelectorAll("Relationship").forEach((relationship) => {
+    const id = relationship.getAttribute("Id");
+    const target = relationship.getAttribute("Target");
+    if (id && target) relationships.set(id, target);
+  });
+  return relationships;
+};
+
+const readStyleNames = async (archive: ZipArchive) => {
+  const names = new Map<string, string>();
+  const xml = await parseXml(archive, "word/styles.xml");
+  if (!xml) return names;
+  Array.from(xml.getElementsByTagNameNS("*", "style")).forEach((style) => {
+    const id = getAttribute(style, "styleId");
+    const name = getAttribute(firstChild(style, "name"), "val");
+    if (id) names.set(id, (name ?? id).toLowerCase());
+  });
+  return names;
+};
+
+/** numId → the levels that count (decimal, letters, roman) rather than bullet. */
+const readOrderedLists = async (archive: ZipArchive) => {
+  const ordered = new Map<string, Set<number>>();
+  const xml = await parseXml(archive, "word/numbering.xml");
+  if (!xml) return ordered;
+
+  const abstractLevels = new Map<string, Set<number>>();
+  Array.from(xml.getElementsByTagNameNS("*", "abstractNum")).forEach((abstractNum) => {
+    const levels = new Set<number>();
+    childElements(abstractNum, "lvl").forEach((level) => {
+      const format = getAttribute(firstChild(level, "numFmt"), "val");
+      if (format && format !== "bullet" && format !== "none") {
+        levels.add(Number(getAttribute(level, "ilvl")) || 0);
+      }
+    });
+    abstractLevels.set(getAttribute(abstractNum, "abstractNumId") ?? "", levels);
+  });
+  Array.from(xml.getElementsByTagNameNS("*", "num")).forEach((num) => {
+    const abstractId = getAttribute(firstChild(num, "abstractNumId"), "val") ?? "";
+    ordered.set(getAttribute(num, "numId") ?? "", abstractLevels.get(abstractId) ?? new Set());
+  });
+  return ordered;
+};
+
+const resolveMediaPath = (target: string) =>
+  target.startsWith("/") ? target.slice(1) : `word/${target.replace(/^\.\//, "")}`;
+
+const convertDrawing = async (drawing: Element, context: DocxContext) => {
+  const blip = drawing.getElementsByTagNameNS("*", "blip")[0];
+  const target = context.relationships.get(getAttribute(blip, "embed") ?? "");
+  if (!target) return null;
+
+  const path = resolveMediaPath(target);
+  const mimeType = IMAGE_MIME_TYPES[getExtension(path)];
+  const bytes = mimeType ? await context.archive.read(path) : null;
+  if (!bytes || !mimeType) return null;
+
+  const img = context.doc.createElement("img");
+  img.src = bytesToDataUrl(bytes, mimeType);
+  const description = drawing.getElementsByTagNameNS("*", "docPr")[0];
+  img.alt = getAttribute(description, "descr") ?? "";
+  return img;
+};
+
+const convertRun = async (run: Element, context: DocxContext) => {
+  const properties = firstChild(run, "rPr");
+  let node: HTMLElement = context.doc.createElement("span");
+  const outer = node;
+
+  const wrap = (tag: string) => {
+    const el = context.doc.createElement(tag);
+    node.appendChild(el);
+    node = el;
+  };
+  if (isToggleOn(firstChild(properties, "b"))) wrap("strong");
+  if (isToggleOn(firstChild(properties, "i"))) wrap("em");
+  if (isToggleOn(firstChild(properties, "strike")) || isToggleOn(firstChild(properties, "dstrike"))) wrap("s");
+
+  for (const child of childElements(run)) {
+    switch (child.localName) {
+      case "t":
+        node.appendChild(context.doc.createTextNode(child.textContent ?? ""));
+        break;
+      case "tab":
+        node.appendChild(context.doc.createTextNode(" "));
+        break;
+      case "br":
+      case "cr":
+        node.appendChild(context.doc.createElement("br"));
+        break;
+      case "drawing":
+      case "pict": {
+        const img = await convertDrawing(child, context);
+        if (img) outer.appendChild(img);
+        break;
+      }
+    }
+  }
+  return outer;
+};
+
+const convertRuns = async (parent: Element, target: HTMLElement, context: DocxContext) => {
+  for (const child of childElements(parent)) {
+    if (child.localName === "r") {
+      target.appendChild(await convertRun(child, context));
+    } else if (child.localName === "hyperlink") {
+      const href = context.relationships.get(getAttribute(child, "id") ?? "");
+      const link = context.doc.createElement(href ? "a" : "span");
+      if (href) link.setAttribute("href", href);
+      await convertRuns(child, link, context);
+      target.appendChild(link);
+    } else if (child.localName === "ins" || child.localName === "smartTag" || child.localName === "sdtContent") {
+      // Tracked insertions and content controls wrap ordinary runs.
+      await convertRuns(child, target, context);
+    }
+  }
+};
+
+const getParagraphTag = (paragraph: Element, context: DocxContext) => {
+  const properties = firstChild(paragraph, "pPr");
+  const styleId = getAttribute(firstChild(properties, "pStyle"), "val") ?? "";
+  const styleName = context.styleNames.get(styleId) ?? styleId.toLowerCase();
+
+  const heading = styleName.match(/^heading\s*([1-6])$/);
+  if (heading) return `h${heading[1]}`;
+  if (styleName === "title") return "h1";
+  if (styleName === "subtitle") return "h2";
+  if (styleName.includes("quote")) return "blockquote";
+  return "p";
+};
+
+type OpenList = { el: HTMLElement; level: number; numId: string };
+
+/** Rebuild document.xml as plain HTML so one Markdown converter handles every source. */
+const convertDocxBody = async (body: Element, context: DocxContext) => {
+  const root = context.doc.createElement("div");
+  let lists: OpenList[] = [];
+
+  const convertParagraph = async (paragraph: Element) => {
+    const properties = firstChild(paragraph, "pPr");
+    const numbering = firstChild(properties, "numPr");
+    const numId = getAttribute(firstChild(numbering, "numId"), "val");
+
+    if (!numbering || !numId || numId === "0") {
+      lists = [];
+      const el = context.doc.createElement(getParagraphTag(paragraph, context));
+      await convertRuns(paragraph, el, context);
+      root.appendChild(el);
+      return;
+    }
+
+    const level = Number(getAttribute(firstChild(numbering, "ilvl"), "val")) || 0;
+    const tag = context.orderedLists.get(numId)?.has(level) ? "OL" : "UL";
+    while (lists.length > 0) {
+      const top = lists[lists.length - 1];
+      if (top.level > level || (top.level === level && (top.el.tagName !== tag || top.numId !== numId))) {
+        lists.pop();
+      } else {
+        break;
+      }
+    }
+
+    const top = lists[lists.length - 1];
+    if (!top || top.level < level) {
+      const list = context.doc.createElement(tag.toLowerCase());
+      const parentItem = top?.el.lastElementChild;
+      (parentItem ?? root).appendChild(list);
+      lists.push({ el: list, level, numId });
+    }
+
+    const item = context.doc.createElement("li");
+    await convertRuns(paragraph, item, context);
+    lists[lists.length - 1].el.appendChild(item);
+  };
+
+  const convertTable = async (table: Element) => {
+    const el = context.doc.createElement("table");
+    for (const row of childElements(table, "tr")) {
+      const tr = context.doc.createElement("tr");
+      for (const cell of childElements(row, "tc")) {
+        const td = context.doc.createElement("td");
+        for (const paragraph of childElements(cell, "p")) {
+          const p = context.doc.createElement("p");
+          await convertRuns(paragraph, p, context);
+          td.appendChild(p);
+        }
+        tr.appendChild(td);
+      }
+      el.appendChild(tr);
+    }
+    root.appendChild(el);
+  };
+
+  for (const child of childElements(body)) {
+    if (child.localName === "p") {
+      await convertParagraph(child);
+    } else if (child.localName === "tbl") {
+      lists = [];
+      await convertTable(child);
+    } else if (child.localName === "sdt") {
+      const content = firstChild(child, "sdtContent");
+      for (const paragraph of content ? childElements(content, "p") : []) {
+        await convertParagraph(paragraph);
+      }
+    }
+  }
+  return root;
+};
+
+const importDocx = async (file: File) => {
+  const archive = readZipArchive(new Uint8Array(await file.arrayBuffer()));
+  const xml = await parseXml(archive, "word/document.xml");
+  const body = xml?.getElementsByTagNameNS("*", "body")[0];
+  if (!body) {
+    throw new Error("Not a Word document");
+  }
+
+  const [relationships, styleNames, orderedLists] = await Promise.all([
+    readRelationships(archive),
+    readStyleNames(archive),
+    readOrderedLists(archive),
+  ]);
+  const context: DocxContext = {
+    archive,
+    doc: document.implementation.createHTMLDocument(""),
+    relationships,
+    styleNames,
+    orderedLists,
+  };
+  return htmlElementToMarkdown(await convertDocxBody(body, context));
+};
+
+// ── Public API ──────────────────────────────────────────────
+
+export const isImportableFile = (file: File) => {
+  const extension = getExtension(file.name);
+  return (
+    TEXT_EXTENSIONS.has(extension) ||
+    HTML_EXTENSIONS.has(extension) ||
+    extension === DOCX_EXTENSION
+  );
+};
+
+/** Read a dropped or picked file as Markdown with its images stored. */
+export const importDocumentFile = async (file: File) => {
+  const extension = getExtension(file.name);
+  if (TEXT_EXTENSIONS.has(extension)) {
+    return stashMarkdownImages(await file.text());
+  }
+  if (HTML_EXTENSIONS.has(extension)) {
+    return importHtml(await file.text());
+  }
+  if (extension === DOCX_EXTENSION) {
+    return stashMarkdownImages(await importDocx(file));
+  }
+  throw new Error(`Unsupported file type: .${extension}`);
+};
+
+/** A deck exported by TextCuts, or null for any other file (split it as text instead). */
+export const readDeckFile = async (file: File) =>
+  TEXT_EXTENSIONS.has(getExtension(file.name)) ? parseDeckMarkdown(await file.text()) : null;
+
+/** Clipboard or file HTML → Markdown; `baseUrl` resolves relative links and images. */
+export const importHtml = async (html: string, baseUrl?: string) =>
+  stashMarkdownImages(await inlineRemoteImages(htmlToMarkdown(html, { baseUrl })));
+
+/**
+ * Fetch a page and keep its main content. Only works for sites that allow
+ * cross-origin reads; the caller surfaces the failure.
+ */
+export const importFromUrl = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  const doc = new DOMParser().parseFromString(await response.text(), "text/html");
+  const root = doc.querySelector("article") ?? doc.querySelector("main") ?? doc.body;
+  const markdown = htmlElementToMarkdown(root, { baseUrl: response.url || url });
+  return stashMarkdownImages(await inlineRemoteImages(markdown));
+};
+
+// ── Inline images ───────────────────────────────────────────
+
+export interface InlineImage {
+  ref: string;
+  /** Normalized text right before the image, used to find its card after splitting. */
+  anchor: string;
+  /** How far through the stripped text (0–1); the fallback when the anchor was reworded. */
+  position: number;
+}
+
+// Compare text without whitespace and Markdown punctuation: splitters reflow both.
+const normalizeForMatch = (text: string) =>
+  text.replace(/[\s*_`#>~|[\]()-]+/g, "").toLowerCase();
+
+/**
+ * Lift `![alt](idb-image:…)` references out of the source so splitters only
+ * see prose; the returned images remember where they stood.
+ */
+export const extractInlineImages = (text: string) => {
+  const images: InlineImage[] = [];
+  let stripped = "";
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(IMAGE_REF_PATTERN)) {
+    stripped += text.slice(lastIndex, match.index);
+    lastIndex = (match.index ?? 0) + match[0].length;
+    images.push({
+      ref: match[2],
+      anchor: normalizeForMatch(stripped).slice(-ANCHOR_LENGTH),
+      position: stripped.length,
+    });
+  }
+  if (images.length === 0) return { text, images };
+
+  stripped += text.slice(lastIndex);
+  const cleaned = stripped.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  return {
+    text: cleaned,
+    images: images.map((image) => ({
+      ...image,
+      position: image.position / Math.max(1, stripped.length),
+    })),
+  };
+};
+
+/**
+ * Put each image on the card holding the text it followed. A card holds one
+ * image, so a later image that lands on a taken card moves to the nearest
+ * free unlocked body card (following cards first); images before any body
+ * text go to the first body card, never the cover. Images left without a
+ * card are counted in `droppedCount`.
+ */
+export const attachInlineImages = async (
+  cards: CardSegment[],
+  images: InlineImage[],
+): Promise<{ cards: CardSegment[]; droppedCount: number }> => {
+  if (images.length === 0 || cards.length === 0) return { cards, droppedCount: 0 };
+
+  const normalized = cards.map((card) => normalizeForMatch(`${card.title}${card.content}`));
+  const ends: number[] = [];
+  normalized.reduce((offset, text) => {
+    ends.push(offset + text.length);
+    return offset + text.length;
+  }, 0);
+  const deck = normalized.join("");
+
+  const findCard = (deckOffset: number) => {
+    const index = ends.findIndex((end) => deckOffset < end);
+    return index < 0 ? cards.length - 1 : index;
+  };
+  // An image that follows only the cover title belongs to the body card after it.
+  const toBodyCard = (index: number) => {
+    if (cards[index].layout !== "cover") return index;
+    const bodyIndex = cards.findIndex((card, next) => next > index && card.layout !== "cover");
+    return bodyIndex < 0 ? index : bodyIndex;
+  };
+
+  const next = cards.map((card) => ({ ...card }));
+  const canTakeImage = (index: number) => {
+    const card = next[index];
+    return Boolean(card) && card.layout !== "cover" && !card.locked && !card.image;
+  };
+  const findFreeCard = (index: number) => {
+    for (let distance = 0; distance < next.length; distance += 1) {
+      if (canTakeImage(index + distance)) return index + distance;
+      if (distance > 0 && canTakeImage(index - distance)) return index - distance;
+    }
+    return -1;
+  };
+
+  let droppedCount = 0;
+  let searchFrom = 0;
+  images.forEach((image) => {
+    let cardIndex: number;
+    if (!image.anchor) {
+      cardIndex = 0;
+    } else {
+      const found = deck.indexOf(image.anchor, searchFrom);
+      if (found >= 0) {
+        searchFrom = found + image.anchor.length;
+        cardIndex = findCard(searchFrom - 1);
+      } else {
+        cardIndex = findCard(Math.floor(image.position * Math.max(0, deck.length - 1)));
+      }
+    }
+
+    const freeIndex = findFreeCard(toBodyCard(cardIndex));
+    if (freeIndex < 0) {
+      droppedCount += 1;
+      return;
+    }
+    next[freeIndex].image = image.ref;
+    next[freeIndex].originalImage = image.ref;
+  });
+
+  return { cards: await restoreCardImages(next), droppedCount };
+};
@@ -0,0 +1,65 @@
+/**
+ * [INPUT]: 依赖 ../types 的 AspectRatio/CardConfig/ExportProfile/ExportSettings
+ * [OUTPUT]: 对外提供 EXPORT_PROFILES / findActiveExportProfile(config, settings)
+ * [POS]: services/ 的平台导出预设；一个预设同时决定画幅、安全边距与输出像素，
+ *        由 App.tsx 一次性写入 CardConfig 与 ExportSettings，Console 据此高亮当前预设
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { AspectRatio, CardConfig, ExportProfile, ExportSettings } from "../types";
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: "xiaohongshu",
+    name: "Xiaohongshu",
+    aspectRatio: AspectRatio.PORTRAIT,
+    width: 1242,
+    height: 1656,
+    safeAreaInset: 0.04,
+  },
+  {
+    id: "instagram",
+    name: "Instagram",
+    aspectRatio: AspectRatio.FEED,
+    width: 1080,
+    height: 1350,
+    safeAreaInset: 0.04,
+  },
+  {
+    id: "twitter",
+    name: "Twitter / X",
+    aspectRatio: AspectRatio.WIDE,
+    width: 1600,
+    height: 900,
+    safeAreaInset: 0.03,
+  },
+  {
+    // Moments overlays the caption and like bar on tall images; keep a wider margin.
+    id: "wechat-moments",
+    name: "WeChat Moments",
+    aspectRatio: AspectRatio.STORY,
+    width: 1080,
+    height: 1920,
+    safeAreaInset: 0.08,
+  },
+  {
+    id: "linkedin",
+    name: "LinkedIn Doc",
+    aspectRatio: AspectRatio.FEED,
+    width: 1080,
+    height: 1350,
+    safeAreaInset: 0.05,
+  },
+];
+
+/** The profile the current config + export settings already match exactly, if any. */
+export const findActiveExportProfile = (
+  config: Pick<CardConfig, "aspectRatio" | "safeAreaInset">,
+  settings: Pick<ExportSettings, "sizeMode" | "targetWidth">,
+) =>
+  EXPORT_PROFILES.find(
+    (profile) =>
+      profile.aspectRatio === config.aspectRatio &&
+      profile.safeAreaInset === (config.safeAreaInset ?? 0) &&
+      settings.sizeMode === "width" &&
+      settings.targetWidth === profile.width,
+  ) ?? null;
@@ -0,0 +1,149 @@
+/**
+ * [INPUT]: 依赖 vitest，依赖 ./fidelityVerifier 的 verifySegmentFidelity
+ * [OUTPUT]: fidelityVerifier 的缺失 / 重复 / 改写修复测试
+ * [POS]: services/fidelityVerifier 的单元测试；含跨卡句子、CJK 句子与修复后清空卡片的下标重映射
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { describe, expect, it } from "vitest";
+import { CardSegment } from "../types";
+import { verifySegmentFidelity } from "./fidelityVerifier";
+
+const cover = (title: string): CardSegment => ({ title, content: "", layout: "cover" });
+const deck = (...contents: string[]): CardSegment[] => [
+  cover("Deck"),
+  ...contents.map((content, index) => ({ title: `Part ${index + 1}`, content })),
+  cover("End"),
+];
+const contents = (segments: CardSegment[]) =>
+  segments.filter((segment) => segment.layout !== "cover").map((segment) => segment.content);
+
+const SOURCE = "The first sentence is here. The second one follows it. A third closes the paragraph.\n\nA new paragraph starts now. It ends with this line.";
+
+describe("verifySegmentFidelity", () => {
+  it("leaves a faithful split untouched", () => {
+    const segments = deck(
+      "The first sentence is here. The second one follows it. A third closes the paragraph.",
+      "A new paragraph starts now. It ends with this line.",
+    );
+    const { segments: repaired, report } = verifySegmentFidelity(segments, SOURCE);
+
+    expect(repaired).toBe(segments);
+    expect(report).toEqual({ sourceSentenceCount: 5, matchedSentenceCount: 5, issues: [] });
+  });
+
+  it("accepts a sentence carved across a card boundary", () => {
+    const segments = deck(
+      "The first sentence is here. The second one",
+      "follows it. A third closes the paragraph.\n\nA new paragraph starts now. It ends with this line.",
+    );
+
+    expect(verifySegmentFidelity(segments, SOURCE).report.issues).toEqual([]);
+  });
+
+  it("puts a missing sentence back where it belongs", () => {
+    const { segments, report } = verifySegmentFidelity(
+      deck(
+        "The first sentence is here. A third closes the paragraph.",
+        "A new paragraph starts now. It ends with this line.",
+      ),
+      SOURCE,
+    );
+
+    expect(report.issues).toEqual([
+      { kind: "missing", text: "The second one follows it.", cardIndex: 1 },
+    ]);
+    expect(contents(segments)[0]).toBe(
+      "The first sentence is here. The second one follows it. A third closes the paragraph.",
+    );
+  });
+
+  it("drops a duplicated sentence, even a repeat on the next card", () => {
+    const { segments, report } = verifySegmentFidelity(
+      deck(
+        "The first sentence is here. The second one follows it. The second one follows it. A third closes the paragraph.",
+        "A third closes the paragraph.\n\nA new paragraph starts now. It ends with this line.",
+      ),
+      SOURCE,
+    );
+
+    expect(report.issues.map((issue) => [issue.kind, issue.cardIndex])).toEqual([
+      ["duplicated", 1],
+      ["duplicated", 2],
+    ]);
+    expect(contents(segments)).toEqual([
+      "The first sentence is here. The second one follows it. A third closes the paragraph.",
+      "A new paragraph starts now. It ends with this line.",
+    ]);
+  });
+
+  it("restores the source wording of an altered sentence", () => {
+    const { segments, report } = verifySegmentFidelity(
+      deck(
+        "The first sentence is here. The second one follows after it. A third closes the paragraph.",
+        "A new paragraph starts now. It ends with this line.",
+      ),
+      SOURCE,
+    );
+
+    expect(report.issues).toEqual([
+      { kind: "altered", text: "The second one follows it.", cardIndex: 1 },
+    ]);
+    expect(contents(segments)[0]).toBe(
+      "The first sentence is here. The second one follows it. A third closes the paragraph.",
+    );
+  });
+
+  it("removes invented text and restores what it displaced", () => {
+    const { segments, report } = verifySegmentFidelity(
+      deck(
+        "The first sentence is here. Completely unrelated words appear. A third closes the paragraph.",
+        "A new paragraph starts now. It ends with this line.",
+      ),
+      SOURCE,
+    );
+
+    expect(report.issues.map((issue) => issue.kind).sort()).toEqual(["altered", "missing"]);
+    expect(contents(segments)[0]).toBe(
+      "The first sentence is here. The second one follows it. A third closes the paragraph.",
+    );
+  });
+
+  it("joins restored CJK sentences without spaces", () => {
+    const { segments, report } = verifySegmentFidelity(
+      deck("第一句话。第三句话。"),
+      "第一句话。第二句话。第三句话。",
+    );
+
+    expect(report.issues).toEqual([{ kind: "missing", text: "第二句话。", cardIndex: 1 }]);
+    expect(contents(segments)).toEqual(["第一句话。第二句话。第三句话。"]);
+  });
+
+  it("remaps issue card indexes when a repair empties a card", () => {
+    const { segments, report } = verifySegmentFidelity(
+      deck(
+        "The first sentence is here. The second one follows it. A third closes the paragraph.",
+        "The second one follows it.",
+        "A new paragraph starts now. It ends with this line.",
+      ),
+      SOURCE,
+    );
+
+    expect(contents(segments)).toHaveLength(2);
+    expect(report.issues).toEqual([
+      { kind: "duplicated", text: "The second one follows it.", cardIndex: 2 },
+    ]);
+    expect(segments[report.issues[0].cardIndex].content).toBe(
+      "A new paragraph starts now. It ends with this line.",
+    );
+  });
+
+  it("ignores headings that became card titles", () => {
+    const source = `# Part 1\n\n${SOURCE}`;
+    const segments = deck(
+      "The first sentence is here. The second one follows it. A third closes the paragraph.",
+      "A new paragraph starts now. It ends with this line.",
+    );
+
+    expect(verifySegmentFidelity(segments, source).report.issues).toEqual([]);
+  });
+});
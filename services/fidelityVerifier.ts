@@ -0,0 +1,349 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardSegment/FidelityReport，
+ *          依赖 ../utils/textSplit 的 splitIntoSentences / splitIntoMarkdownBlocks
+ * [OUTPUT]: 对外提供 verifySegmentFidelity(segments, sourceText): { segments, report }
+ * [POS]: services/ 的逐字保真校验器；在 sanitize 之后把卡片正文与原文逐句对齐，
+ *        找出缺失 / 重复 / 改写的句子并就地修复，报告交给 Console 展示；
+ *        只动正文，不改标题、版式与卡片顺序
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment, FidelityReport } from "../types";
+import { splitIntoMarkdownBlocks, splitIntoSentences } from "../utils/textSplit";
+
+// Bigram overlap at or above this counts as "the same sentence, reworded".
+const ALTERED_SIMILARITY_THRESHOLD = 0.5;
+const CJK_RE = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/;
+
+type SourceSentence = {
+  text: string;
+  key: string;
+  startsBlock: boolean;
+};
+
+type CardSentence = {
+  text: string;
+  key: string;
+  cardIndex: number;
+  start: number;
+  end: number;
+};
+
+type RepairOp =
+  | { type: "remove"; start: number; end: number }
+  | { type: "replace"; start: number; end: number; text: string }
+  | { type: "insert"; at: number; text: string; leading: boolean; separator: string };
+
+// ── Sentence keys ───────────────────────────────────────────
+
+/**
+ * Comparison key: markdown markers and all whitespace removed, lowercased.
+ * Whitespace-free keys let a sentence split across two cards be re-joined.
+ */
+const toSentenceKey = (text: string) =>
+  text
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/[#>*_`~]/g, "")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+
+const toBigrams = (key: string) => {
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < key.length - 1; index += 1) {
+    const gram = key.slice(index, index + 2);
+    bigrams.set(gram, (bigrams.get(gram) ?? 0) + 1);
+  }
+  return bigrams;
+};
+
+const diceSimilarity = (left: string, right: string) => {
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftBigrams = toBigrams(left);
+  const rightBigrams = toBigrams(right);
+  let overlap = 0;
+  leftBigrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightBigrams.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (left.length - 1 + (right.length - 1));
+};
+
+const isHeadingBlock = (block: string, titleKeys: Set<string>) =>
+  !block.includes("\n") &&
+  (/^#{1,6}\s+/.test(block) ||
+    titleKeys.has(toSentenceKey(block.replace(/^[#*\-\d.\s]+/, ""))));
+
+// ── Extraction ──────────────────────────────────────────────
+
+const collectSourceSentences = (sourceText: string, titleKeys: Set<string>) => {
+  const sentences: SourceSentence[] = [];
+
+  for (const block of splitIntoMarkdownBlocks(sourceText.replace(/\r\n?/g, "\n"))) {
+    // Headings travel as card titles, not body text.
+    if (isHeadingBlock(block, titleKeys)) continue;
+
+    splitIntoSentences(block).forEach((text, index) => {
+      const key = toSentenceKey(text);
+      if (key) sentences.push({ text, key, startsBlock: index === 0 });
+    });
+  }
+
+  return sentences;
+};
+
+const collectCardSentences = (segments: CardSegment[]) => {
+  const sentences: CardSentence[] = [];
+
+  segments.forEach((segment, cardIndex) => {
+    if (segment.layout === "cover") return;
+
+    let searchFrom = 0;
+    for (const block of splitIntoMarkdownBlocks(segment.content)) {
+      for (const text of splitIntoSentences(block)) {
+        const found = segment.content.indexOf(text, searchFrom);
+        const start = found >= 0 ? found : searchFrom;
+        const end = found >= 0 ? found + text.length : searchFrom;
+        searchFrom = end;
+
+        const key = toSentenceKey(text);
+        if (key) sentences.push({ text, key, cardIndex, start, end });
+      }
+    }
+  });
+
+  return sentences;
+};
+
+// ── Repair helpers ──────────────────────────────────────────
+
+const separatorBefore = (sentence: SourceSentence) => {
+  if (sentence.startsBlock) return "\n\n";
+  return CJK_RE.test(sentence.text[0] ?? "") ? "" : " ";
+};
+
+const joinSourceRun = (run: SourceSentence[]) =>
+  run
+    .map((sentence, index) =>
+      index === 0 ? sentence.text : `${separatorBefore(sentence)}${sentence.text}`,
+    )
+    .join("");
+
+const applyRepairOps = (content: string, ops: RepairOp[]) => {
+  const position = (op: RepairOp) => (op.type === "insert" ? op.at : op.start);
+  let next = content;
+
+  // Apply back-to-front so earlier offsets stay valid.
+  [...ops]
+    .sort((left, right) => position(right) - position(left))
+    .forEach((op) => {
+      if (op.type === "remove") {
+        const before = next.slice(0, op.start);
+        const after = next.slice(op.end);
+        const gap = `${before.match(/\s*$/)?.[0] ?? ""}${after.match(/^\s*/)?.[0] ?? ""}`;
+        // Keep whatever boundary (paragraph, line, space) surrounded the dropped sentence.
+        const joiner = !before.trim() || !after.trim()
+          ? ""
+          : gap.includes("\n\n")
+            ? "\n\n"
+            : gap.includes("\n")
+              ? "\n"
+              : gap
+                ? " "
+                : "";
+        next = `${before.trimEnd()}${joiner}${after.trimStart()}`;
+      } else if (op.type === "replace") {
+        next = `${next.slice(0, op.start)}${op.text}${next.slice(op.end)}`;
+      } else {
+        next = op.leading
+          ? `${next.slice(0, op.at)}${op.text}${op.separator}${next.slice(op.at)}`
+          : `${next.slice(0, op.at)}${op.separator}${op.text}${next.slice(op.at)}`;
+      }
+    });
+
+  return next.replace(/[ \t]+\n/g, "\n").trim();
+};
+
+// ── Public verifier ─────────────────────────────────────────
+
+/**
+ * Align card body sentences against the source and repair drift in place.
+ *
+ * Card sentences are walked in order; each one claims the next unclaimed
+ * source occurrence of its key (or of its key joined with the following card
+ * sentence, for sentences carved across a card boundary). Source sentences
+ * skipped over become "missing", unmatched card sentences are paired with
+ * those gaps by similarity ("altered") or dropped when already claimed
+ * ("duplicated").
+ */
+export const verifySegmentFidelity = (
+  segments: CardSegment[],
+  sourceText: string,
+): { segments: CardSegment[]; report: FidelityReport } => {
+  const titleKeys = new Set(
+    segments.map((segment) => toSentenceKey(segment.title)).filter(Boolean),
+  );
+  const sourceSentences = collectSourceSentences(sourceText, titleKeys);
+  const cardSentences = collectCardSentences(segments);
+  const bodyIndexes = segments
+    .map((segment, index) => (segment.layout === "cover" ? -1 : index))
+    .filter((index) => index >= 0);
+
+  const report: FidelityReport = {
+    sourceSentenceCount: sourceSentences.length,
+    matchedSentenceCount: 0,
+    issues: [],
+  };
+  if (bodyIndexes.length === 0 || sourceSentences.length === 0) {
+    return { segments, report };
+  }
+
+  const occurrences = new Map<string, number[]>();
+  sourceSentences.forEach((sentence, index) => {
+    const list = occurrences.get(sentence.key) ?? [];
+    list.push(index);
+    occurrences.set(sentence.key, list);
+  });
+
+  const claimed = new Array<boolean>(sourceSentences.length).fill(false);
+  const opsByCard = new Map<number, RepairOp[]>();
+  const pushOp = (cardIndex: number, op: RepairOp) => {
+    const ops = opsByCard.get(cardIndex) ?? [];
+    ops.push(op);
+    opsByCard.set(cardIndex, ops);
+  };
+
+  let cursor = 0;
+  let unmatched: CardSentence[] = [];
+
+  const findForward = (key: string) =>
+    (occurrences.get(key) ?? []).find((index) => index >= cursor && !claimed[index]) ?? -1;
+
+  /** Resolve the source gap [cursor, gapEnd) against card sentences that found no match. */
+  const resolveGap = (gapEnd: number, anchor: CardSentence | null, leading: boolean) => {
+    const gap = sourceSentences.slice(cursor, gapEnd).map((sentence, offset) => ({
+      sentence,
+      index: cursor + offset,
+      used: false,
+    }));
+
+    for (const cardSentence of unmatched) {
+      let best: (typeof gap)[number] | null = null;
+      let bestScore = ALTERED_SIMILARITY_THRESHOLD;
+      for (const candidate of gap) {
+        if (candidate.used) continue;
+        const score = diceSimilarity(cardSentence.key, candidate.sentence.key);
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+
+      if (best) {
+        best.used = true;
+        claimed[best.index] = true;
+        report.issues.push({
+          kind: "altered",
+          text: best.sentence.text,
+          cardIndex: cardSentence.cardIndex,
+        });
+        pushOp(cardSentence.cardIndex, {
+          type: "replace",
+          start: cardSentence.start,
+          end: cardSentence.end,
+          text: best.sentence.text,
+        });
+        continue;
+      }
+
+      // Not in the gap: either a repeat of claimed text or words the source never had.
+      report.issues.push({
+        kind: occurrences.has(cardSentence.key) ? "duplicated" : "altered",
+        text: cardSentence.text,
+        cardIndex: cardSentence.cardIndex,
+      });
+      pushOp(cardSentence.cardIndex, {
+        type: "remove",
+        start: cardSentence.start,
+        end: cardSentence.end,
+      });
+    }
+    unmatched = [];
+
+    const missingRun = gap.filter((candidate) => !candidate.used);
+    if (missingRun.length === 0) return;
+
+    // Orphan sentences that were removed above come back here as missing text.
+    const targetCard = anchor?.cardIndex ?? bodyIndexes[0];
+    const at = anchor ? (leading ? anchor.start : anchor.end) : 0;
+    missingRun.forEach((candidate) => {
+      claimed[candidate.index] = true;
+      report.issues.push({
+        kind: "missing",
+        text: candidate.sentence.text,
+        cardIndex: targetCard,
+      });
+    });
+    const insertLeading = anchor ? leading : true;
+    const followingSentence = sourceSentences[gapEnd];
+    pushOp(targetCard, {
+      type: "insert",
+      at,
+      text: joinSourceRun(missingRun.map((candidate) => candidate.sentence)),
+      leading: insertLeading,
+      separator: insertLeading
+        ? followingSentence
+          ? separatorBefore(followingSentence)
+          : " "
+        : separatorBefore(missingRun[0].sentence),
+    });
+  };
+
+  for (let index = 0; index < cardSentences.length; index += 1) {
+    const cardSentence = cardSentences[index];
+    let matchIndex = findForward(cardSentence.key);
+    let span = 1;
+
+    const nextSentence = cardSentences[index + 1];
+    if (matchIndex < 0 && nextSentence) {
+      matchIndex = findForward(cardSentence.key + nextSentence.key);
+      span = 2;
+    }
+
+    if (matchIndex < 0) {
+      unmatched.push(cardSentence);
+      continue;
+    }
+
+    resolveGap(matchIndex, cardSentence, true);
+    claimed[matchIndex] = true;
+    report.matchedSentenceCount += 1;
+    cursor = matchIndex + 1;
+    index += span - 1;
+  }
+
+  const lastSentence = cardSentences[cardSentences.length - 1] ?? null;
+  resolveGap(sourceSentences.length, lastSentence, false);
+
+  if (report.issues.length === 0) {
+    return { segments, report };
+  }
+
+  const repairedSegments: CardSegment[] = [];
+  // Where each input card ended up; a card emptied by its repairs maps to the card that took its place.
+  const keptIndexes = segments.map((segment, index) => {
+    const ops = opsByCard.get(index);
+    const repaired = ops ? { ...segment, content: applyRepairOps(segment.content, ops) } : segment;
+    if (repaired.layout !== "cover" && repaired.content.trim().length === 0) {
+      return repairedSegments.length;
+    }
+    repairedSegments.push(repaired);
+    return repairedSegments.length - 1;
+  });
+  const lastIndex = Math.max(0, repairedSegments.length - 1);
+  report.issues = report.issues.map((issue) => ({
+    ...issue,
+    cardIndex: Math.min(keptIndexes[issue.cardIndex] ?? lastIndex, lastIndex),
+  }));
+
+  return { segments: repairedSegments, report };
+};
@@ -0,0 +1,154 @@
+/**
+ * [INPUT]: 依赖 ../utils/indexedDb 的 runTransaction / promisifyRequest，
+ *          依赖 ../utils/fontFamilies 的 getCustomFontFamily / CUSTOM_FONT_FAMILY_PATTERN，依赖 ../types 的 CustomFont/CustomFontFormat，
+ *          依赖浏览器 FontFace API
+ * [OUTPUT]: 对外提供 listCustomFonts() / saveCustomFont(file) / deleteCustomFont(id) / registerCustomFonts(fonts) /
+ *           waitForCustomFonts() / subscribeToFontRegistration(listener) / buildCustomFontEmbedCSS(html) / CUSTOM_FONT_ACCEPT
+ * [POS]: services/ 的用户字体库；TTF / OTF / WOFF / WOFF2 以 data URL 存进 IndexedDB 的 fonts store，
+ *        启动时经 FontFace API 注册到 document.fonts；导出时 html-to-image 读不到 FontFace 注册的字体，
+ *        由 services/cardExport 调 buildCustomFontEmbedCSS 把卡片实际用到的字体内联进 @font-face
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CustomFont, CustomFontFormat } from "../types";
+import { promisifyRequest, runTransaction } from "../utils/indexedDb";
+import { CUSTOM_FONT_FAMILY_PATTERN, getCustomFontFamily } from "../utils/fontFamilies";
+
+const STORE = "fonts";
+const MAX_FONT_BYTES = 30 * 1024 * 1024;
+export const CUSTOM_FONT_ACCEPT = ".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2";
+
+// Fonts added to document.fonts this session, by id.
+const registeredFonts = new Map<string, CustomFont>();
+let pendingRegistration: Promise<void> = Promise.resolve();
+const registrationListeners = new Set<() => void>();
+
+const notifyRegistration = () => registrationListeners.forEach((listener) => listener());
+
+const createFontId = () =>
+  `font_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Sniff the file signature; extensions and MIME types are often wrong for fonts.
+const detectFontFormat = (bytes: Uint8Array): CustomFontFormat | null => {
+  const signature = String.fromCharCode(...Array.from(bytes.slice(0, 4)));
+  if (signature === "wOF2") return "woff2";
+  if (signature === "wOFF") return "woff";
+  if (signature === "OTTO") return "opentype";
+  if (signature === "true" || (bytes[0] === 0 && bytes[1] === 1 && bytes[2] === 0 && bytes[3] === 0)) {
+    return "truetype";
+  }
+  return null;
+};
+
+const readFileAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const toFontSource = (font: CustomFont) => `url(${font.dataUrl}) format("${font.format}")`;
+
+const loadFontFace = async (font: CustomFont) => {
+  const face = new FontFace(getCustomFontFamily(font.id), toFontSource(font));
+  await face.load();
+  return face;
+};
+
+// ── CRUD ────────────────────────────────────────────────────
+
+/** Oldest first, so pickers keep a stable order as fonts are added. */
+export const listCustomFonts = async (): Promise<CustomFont[]> => {
+  const fonts = await runTransaction(STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll()),
+  );
+  return (fonts as CustomFont[]).sort((left, right) => left.createdAt - right.createdAt);
+};
+
+/** Validate, store and register an uploaded font file. Throws with a user-facing reason. */
+export const saveCustomFont = async (file: File): Promise<CustomFont> => {
+  if (file.size > MAX_FONT_BYTES) throw new Error("Font files must be under 30 MB");
+  const format = detectFontFormat(new Uint8Array(await file.slice(0, 4).arrayBuffer()));
+  if (!format) throw new Error("Only TTF, OTF, WOFF and WOFF2 fonts are supported");
+
+  const font: CustomFont = {
+    id: createFontId(),
+    name: file.name.replace(/\.(ttf|otf|woff2?)$/i, "").trim() || "Custom Font",
+    format,
+    dataUrl: await readFileAsDataUrl(file),
+    createdAt: Date.now(),
+  };
+  // Parse before storing so a corrupt file never reaches the library.
+  const face = await loadFontFace(font).catch(() => {
+    throw new Error("The font file could not be read");
+  });
+
+  await runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.put(font));
+  });
+  document.fonts.add(face);
+  registeredFonts.set(font.id, font);
+  notifyRegistration();
+  return font;
+};
+
+export const deleteCustomFont = async (id: string) => {
+  await runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.delete(id));
+  });
+  registeredFonts.delete(id);
+  const family = getCustomFontFamily(id);
+  document.fonts.forEach((face) => {
+    if (face.family.replace(/["']/g, "") === family) document.fonts.delete(face);
+  });
+};
+
+// ── Registration ────────────────────────────────────────────
+
+/** Add stored fonts to document.fonts. Fonts that fail to parse are skipped. */
+export const registerCustomFonts = (fonts: CustomFont[]) => {
+  const run = async () => {
+    let added = false;
+    for (const font of fonts) {
+      if (registeredFonts.has(font.id)) continue;
+      try {
+        document.fonts.add(await loadFontFace(font));
+        registeredFonts.set(font.id, font);
+        added = true;
+      } catch (error) {
+        console.error(`Failed to register font "${font.name}":`, error);
+      }
+    }
+    if (added) notifyRegistration();
+  };
+  pendingRegistration = pendingRegistration.then(run);
+  return pendingRegistration;
+};
+
+/** Resolves once every registration started so far has finished. */
+export const waitForCustomFonts = () => pendingRegistration;
+
+/** Call `listener` whenever fonts are added to document.fonts. Returns an unsubscribe function. */
+export const subscribeToFontRegistration = (listener: () => void) => {
+  registrationListeners.add(listener);
+  return () => {
+    registrationListeners.delete(listener);
+  };
+};
+
+/**
+ * @font-face rules, with the font data inlined, for every registered custom
+ * font whose family appears in `html`. Empty when the card uses none.
+ */
+export const buildCustomFontEmbedCSS = (html: string) => {
+  const families = new Set(html.match(CUSTOM_FONT_FAMILY_PATTERN) ?? []);
+  if (families.size === 0) return "";
+
+  return Array.from(registeredFonts.values())
+    .filter((font) => families.has(getCustomFontFamily(font.id)))
+    .map(
+      (font) =>
+        `@font-face { font-family: '${getCustomFontFamily(font.id)}'; src: ${toFontSource(font)}; }`,
+    )
+    .join("\n");
+};
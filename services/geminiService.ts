@@ -1,13 +1,23 @@
 /**
- * [INPUT]: 依赖 @google/genai 的 GoogleGenAI SDK，依赖 ../types 的 SplitResponse/CardSegment/CardConfig/AspectRatio，
- *          依赖 ../utils/textSplit 的 carvePrefixForRebalance / hasAtomicMarkdownSyntax 等工具
- * [OUTPUT]: 对外提供 splitTextIntoCards(text, config): Promise<SplitResponse>
- * [POS]: services/ 的唯一成员，也是全项目与外部 AI API 交互的唯一边界；
- *        内含容量计算、占用率估算、Markdown 原子块保护与后处理，对 App.tsx 完全透明
+ * [INPUT]: 依赖 ./llmProviders 的 getSplitProvider / resolveProviderModel，依赖 ./offlineSplitter 的 splitTextOffline / extractCoverTitle，
+ *          依赖 ./fidelityVerifier 的 verifySegmentFidelity，依赖 ./splitCache 的 readCachedSplit / writeCachedSplit，依赖 ./apiKeyStore 的 readApiKey，
+ *          依赖 ../utils/cardCapacity 的 getCapacityGuide / estimateSegmentOccupancy，依赖 ../utils/partialJson 的 parsePartialSplitResponse，
+ *          依赖 ../types 的 SplitResponse/CardSegment/CardConfig/AspectRatio/FidelityReport，
+ *          依赖 ../utils/textSplit 的 carvePrefixForRebalance / hasAtomicMarkdownSyntax 等工具，
+ *          依赖 ../utils/cardBreaks 的手动分卡标记解析
+ * [OUTPUT]: 对外提供 splitTextIntoCards(text, config, signal): Promise<CardSegment[]>，
+ *           streamTextIntoCards(text, config, { signal, onSegments }): Promise<SplitResult> 流式变体（附保真报告；供应商失败改用离线切分时带 fallback 原因），
+ *           splitPassageIntoCards(text, config, { signal, context }): Promise<PassageSplitResult>（卡片组中段的局部重切，只返回正文卡），
+ *           SplitStreamOptions / SplitResult / PassageContext / PassageSplitResult 类型
+ * [POS]: services/ 的切分编排层，也是 App.tsx 与 AI 供应商之间的唯一边界；
+ *        负责 prompt 构造、长文分块并发与拼接、Markdown 原子块保护与后处理；splitMode 为 local 时直接走 offlineSplitter，
+ *        无论 AI 还是本地切分，输出都经过同一套 sanitize / collapse 流程，最后由 fidelityVerifier 逐句校验并修复；
+ *        原文里的 `---card---` / `<!-- card -->` / `<!-- cover -->` 是硬边界：prompt 明确要求遵守，
+ *        AI 结果再按原文位置强制切开，合并与再平衡都不跨越 breakBefore；
+ *        AI 结果按原文 + 容量签名 + 模型命中 splitCache 时跳过请求
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
-import { GoogleGenAI, Type } from "@google/genai";
-import { SplitResponse, CardSegment, CardConfig, AspectRatio } from "../types";
+import { SplitResponse, CardSegment, CardConfig, AspectRatio, FidelityReport } from "../types";
 import {
   carvePrefixForRebalance,
   hasAtomicMarkdownSyntax,
@@ -15,64 +25,23 @@ import {
   splitFencedMarkdownBlock,
   splitIntoMarkdownBlocks,
 } from "../utils/textSplit";
-
-// Initialize Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const getCapacityGuide = (
-  config?: Pick<CardConfig, "aspectRatio" | "fontSize" | "cardScale">,
-) => {
-  const aspectRatio = config?.aspectRatio ?? AspectRatio.PORTRAIT;
-  const fontSize = config?.fontSize ?? 1;
-  const cardScale = config?.cardScale ?? 1;
-
-  const aspectMultiplier =
-    aspectRatio === AspectRatio.WIDE
-      ? 1.35
-      : aspectRatio === AspectRatio.SQUARE
-        ? 1.15
-        : 1;
-  const scaleMultiplier =
-    (cardScale / 1.35) * Math.pow(1.05 / Math.max(fontSize, 0.8), 0.55);
-  const words = Math.max(
-    130,
-    Math.round(180 * aspectMultiplier * scaleMultiplier),
-  );
-  const cjk = Math.max(
-    240,
-    Math.round(340 * aspectMultiplier * scaleMultiplier),
-  );
-
-  return {
-    words,
-    cjk,
-    targetWordsMin: Math.max(110, Math.round(words * 0.84)),
-    targetCjkMin: Math.max(210, Math.round(cjk * 0.84)),
-    wordsRange: `${Math.max(115, words - 20)}-${words}`,
-    cjkRange: `${Math.max(220, cjk - 40)}-${cjk}`,
-  };
-};
-
-const CJK_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
-const WORD_PATTERN = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
-
-const estimateSegmentOccupancy = (
-  text: string,
-  capacity: ReturnType<typeof getCapacityGuide>,
-) => {
-  const condensed = text.trim();
-  if (!condensed) return 0;
-
-  const cjkCount = condensed.match(CJK_CHAR_PATTERN)?.length ?? 0;
-  const wordCount = condensed.match(WORD_PATTERN)?.length ?? 0;
-  const nonWhitespaceChars = condensed.replace(/\s+/g, "").length;
-
-  const cjkRatio = cjkCount / Math.max(capacity.cjk, 1);
-  const wordRatio = wordCount / Math.max(capacity.words, 1);
-  const characterRatio = nonWhitespaceChars / Math.max(capacity.cjk * 1.08, 1);
-
-  return Math.max(cjkRatio, wordRatio, characterRatio);
-};
+import {
+  estimateSegmentOccupancy,
+  getCapacityGuide,
+} from "../utils/cardCapacity";
+import { getSplitProvider, resolveProviderModel } from "./llmProviders";
+import { extractCoverTitle, splitTextOffline } from "./offlineSplitter";
+import { verifySegmentFidelity } from "./fidelityVerifier";
+import { readApiKey } from "./apiKeyStore";
+import { readCachedSplit, writeCachedSplit } from "./splitCache";
+import { parsePartialSplitResponse } from "../utils/partialJson";
+import {
+  hasCardBreakMarkers,
+  isCardBreakLine,
+  readSectionCover,
+  splitSourceSections,
+  stripCardBreakMarkers,
+} from "../utils/cardBreaks";
 
 const extractExplicitHeadings = (text: string) => {
   const paragraphs = text
@@ -309,14 +278,9 @@ const buildSequentialBodySegments = (
       ];
 };
 
-const buildStructuredMarkdownSegments = (
+const buildStructuredBodySegments = (
   sourceText: string,
   capacity: ReturnType<typeof getCapacityGuide>,
-  options?: {
-    coverTitle?: string;
-    endTitle?: string;
-    preferredTag?: string;
-  },
 ) => {
   const normalizedText = sourceText.replace(/\r\n?/g, "\n").trim();
   const blocks = splitIntoMarkdownBlocks(normalizedText);
@@ -411,10 +375,62 @@ const buildStructuredMarkdownSegments = (
   }
 
   flushCurrent();
+  return bodySegments;
+};
+
+/**
+ * Run a body builder on each stretch between manual break markers. The first
+ * card of every later stretch is flagged `breakBefore`; `<!-- cover -->`
+ * stretches get a cover card, or retitle the deck cover when they come first.
+ */
+const buildSectionedBodySegments = (
+  sourceText: string,
+  buildBody: (text: string) => CardSegment[],
+): { coverTitle?: string; segments: CardSegment[] } => {
+  if (!hasCardBreakMarkers(sourceText)) return { segments: buildBody(sourceText) };
+
+  let coverTitle: string | undefined;
+  const segments: CardSegment[] = [];
+  splitSourceSections(sourceText).forEach((section, index) => {
+    let text = section.text;
+    if (section.cover) {
+      const cover = readSectionCover(section.text);
+      if (index === 0) {
+        coverTitle = cover.title;
+      } else {
+        segments.push({ title: cover.title, content: "", layout: "cover", breakBefore: true });
+      }
+      text = cover.body;
+    }
+    if (!text) return;
+
+    const bodySegments = buildBody(text);
+    if (index > 0 && bodySegments.length > 0) {
+      bodySegments[0] = { ...bodySegments[0], breakBefore: true };
+    }
+    segments.push(...bodySegments);
+  });
+  return { coverTitle, segments };
+};
+
+const buildStructuredMarkdownSegments = (
+  sourceText: string,
+  capacity: ReturnType<typeof getCapacityGuide>,
+  options?: {
+    coverTitle?: string;
+    endTitle?: string;
+    preferredTag?: string;
+  },
+) => {
+  const plainText = stripCardBreakMarkers(sourceText);
+  const { coverTitle, segments: bodySegments } = buildSectionedBodySegments(
+    sourceText,
+    (text) => buildStructuredBodySegments(text, capacity),
+  );
 
   const markdownSegments: CardSegment[] = [
     {
-      title: options?.coverTitle?.trim() || "Project Text",
+      title: coverTitle || options?.coverTitle?.trim() || "Project Text",
       content: "",
       layout: "cover" as const,
     },
@@ -427,8 +443,8 @@ const buildStructuredMarkdownSegments = (
   ];
 
   return applyThemeTagToCoverSegments(
-    sanitizeGeneratedSegments(markdownSegments, sourceText, capacity),
-    sourceText,
+    sanitizeGeneratedSegments(markdownSegments, plainText, capacity),
+    plainText,
     options?.preferredTag,
   );
 };
@@ -443,11 +459,15 @@ const collapseToSequentialFlow = (
   const endSegment = [...segments]
     .reverse()
     .find((segment) => segment.layout === "cover" && segment !== coverSegment);
-  const bodySegments = buildSequentialBodySegments(sourceText, capacity);
+  const plainText = stripCardBreakMarkers(sourceText);
+  const { coverTitle, segments: bodySegments } = buildSectionedBodySegments(
+    sourceText,
+    (text) => buildSequentialBodySegments(text, capacity),
+  );
 
   const sequentialSegments: CardSegment[] = [
     {
-      title: coverSegment?.title.trim() || "Project Text",
+      title: coverTitle || coverSegment?.title.trim() || "Project Text",
       content: "",
       layout: "cover" as const,
     },
@@ -460,8 +480,8 @@ const collapseToSequentialFlow = (
   ];
 
   return applyThemeTagToCoverSegments(
-    sanitizeGeneratedSegments(sequentialSegments, sourceText, capacity),
-    sourceText,
+    sanitizeGeneratedSegments(sequentialSegments, plainText, capacity),
+    plainText,
     preferredTag,
   );
 };
@@ -502,6 +522,7 @@ const sanitizeGeneratedSegments = (
     current: CardSegment,
   ) => {
     if (previous.layout === "cover" || current.layout === "cover") return false;
+    if (current.breakBefore) return false;
     if (segmentHasAtomicMarkdown(previous) || segmentHasAtomicMarkdown(current)) {
       return false;
     }
@@ -531,6 +552,7 @@ const sanitizeGeneratedSegments = (
 
   const canRebalanceBetween = (previous: CardSegment, current: CardSegment) => {
     if (previous.layout === "cover" || current.layout === "cover") return false;
+    if (current.breakBefore) return false;
     if (segmentHasAtomicMarkdown(previous) || segmentHasAtomicMarkdown(current)) {
       return false;
     }
@@ -619,15 +641,192 @@ const sanitizeGeneratedSegments = (
   return mergeSparseNeighbors(rebalancedSegments);
 };
 
-export const splitTextIntoCards = async (
+// ── Manual card breaks ──────────────────────────────────────
+
+const BREAK_MATCH_PROBE_LENGTH = 32;
+
+// Whitespace and markdown punctuation differ freely between source and model output.
+const toBreakMatchKey = (text: string) => text.replace(/[\s#>*_`~|-]+/g, "").toLowerCase();
+
+/**
+ * Make model output honour the source's break markers: locate every content
+ * block in the source, cut cards that straddle a marker, flag the first card
+ * after each marker `breakBefore`, and place `<!-- cover -->` cards from the
+ * source rather than trusting the model to have made them.
+ */
+const enforceCardBreaks = (segments: CardSegment[], sourceText: string): CardSegment[] => {
+  if (!hasCardBreakMarkers(sourceText)) return segments;
+
+  const sections = splitSourceSections(sourceText);
+  const covers = sections.map((section) => (section.cover ? readSectionCover(section.text) : null));
+  const sectionStarts: number[] = [];
+  let sourceKey = "";
+  sections.forEach((section, index) => {
+    sectionStarts.push(sourceKey.length);
+    sourceKey += toBreakMatchKey(covers[index]?.body ?? section.text);
+  });
+  const sectionAt = (offset: number) => {
+    let index = 0;
+    while (index + 1 < sectionStarts.length && sectionStarts[index + 1] <= offset) index += 1;
+    return index;
+  };
+
+  const deckCover = segments[0]?.layout === "cover" ? segments[0] : null;
+  const endCover =
+    segments.length > 1 && segments[segments.length - 1].layout === "cover"
+      ? segments[segments.length - 1]
+      : null;
+  const bodySegments = segments
+    .slice(deckCover ? 1 : 0, endCover ? -1 : undefined)
+    .filter((segment) => segment.layout !== "cover");
+
+  const result: CardSegment[] = [];
+  let cursor = 0;
+  let currentSection = 0;
+  let sectionHasCard = true;
+
+  const enterSection = (target: number) => {
+    for (let index = currentSection + 1; index <= target; index += 1) {
+      const cover = covers[index];
+      if (cover) {
+        result.push({ title: cover.title, content: "", layout: "cover", breakBefore: true });
+      }
+    }
+    currentSection = target;
+    sectionHasCard = false;
+  };
+
+  bodySegments.forEach((segment) => {
+    const parts: Array<{ section: number; blocks: string[] }> = [];
+
+    segment.content.split(/\n{2,}/).forEach((block) => {
+      const trimmed = block.trim();
+      if (!trimmed || isCardBreakLine(trimmed)) return;
+
+      const key = toBreakMatchKey(trimmed);
+      let section = parts[parts.length - 1]?.section ?? currentSection;
+
+      // A cover title copied into body text belongs to its cover card.
+      const coverIndex = covers.findIndex(
+        (cover, index) => !!cover && index > 0 && index >= section && toBreakMatchKey(cover.titleLine) === key,
+      );
+      if (coverIndex >= 0) {
+        parts.push({ section: coverIndex, blocks: [] });
+        return;
+      }
+
+      const probe = key.slice(0, BREAK_MATCH_PROBE_LENGTH);
+      const found = probe ? sourceKey.indexOf(probe, cursor) : -1;
+      if (found >= 0) {
+        cursor = found + probe.length;
+        section = Math.max(section, sectionAt(found));
+      }
+
+      const lastPart = parts[parts.length - 1];
+      if (lastPart && lastPart.section === section) lastPart.blocks.push(trimmed);
+      else parts.push({ section, blocks: [trimmed] });
+    });
+
+    parts.forEach((part) => {
+      if (part.section > currentSection) enterSection(part.section);
+      if (part.blocks.length === 0) return;
+      const sectionCover = sectionHasCard ? null : covers[currentSection];
+      result.push({
+        ...segment,
+        // The model tends to repeat a section cover's title on the card after it.
+        title:
+          sectionCover && toBreakMatchKey(segment.title) === toBreakMatchKey(sectionCover.title)
+            ? ""
+            : segment.title,
+        content: part.blocks.join("\n\n"),
+        breakBefore: (currentSection > 0 && !sectionHasCard) || undefined,
+      });
+      sectionHasCard = true;
+    });
+  });
+  // Cover sections with no body text still get their card.
+  enterSection(sections.length - 1);
+
+  const deckCoverTitle = covers[0]?.title;
+  const leadingCover: CardSegment[] = deckCover
+    ? [deckCoverTitle ? { ...deckCover, title: deckCoverTitle } : deckCover]
+    : deckCoverTitle
+      ? [{ title: deckCoverTitle, content: "", layout: "cover" }]
+      : [];
+  return [...leadingCover, ...result, ...(endCover ? [endCover] : [])];
+};
+
+const normalizeSplitResponse = (
+  parsedData: SplitResponse,
   text: string,
-  config?: Pick<CardConfig, "aspectRatio" | "fontSize" | "cardScale">,
-): Promise<CardSegment[]> => {
-  try {
-    const model = "gemini-3-flash-preview";
-    const capacity = getCapacityGuide(config);
+  capacity: ReturnType<typeof getCapacityGuide>,
+) => {
+  const plainText = stripCardBreakMarkers(text);
+  const hasExplicitHeadings = extractExplicitHeadings(plainText).length > 0;
+  const sanitizedSegments = applyThemeTagToCoverSegments(
+    sanitizeGeneratedSegments(enforceCardBreaks(parsedData.segments, text), plainText, capacity),
+    plainText,
+    parsedData.themeTag,
+  );
+  if (hasAtomicMarkdownSyntax(plainText)) {
+    const coverTitle =
+      sanitizedSegments.find((segment) => segment.layout === "cover")?.title || "";
+    const endTitle =
+      [...sanitizedSegments]
+        .reverse()
+        .find((segment) => segment.layout === "cover")?.title || "感谢阅读";
+
+    return buildStructuredMarkdownSegments(text, capacity, {
+      coverTitle,
+      endTitle,
+      preferredTag: parsedData.themeTag,
+    });
+  }
+  if (!hasExplicitHeadings) {
+    return collapseToSequentialFlow(
+      sanitizedSegments,
+      text,
+      capacity,
+      parsedData.themeTag,
+    );
+  }
+  return sanitizedSegments;
+};
+
+export interface SplitResult {
+  segments: CardSegment[];
+  fidelity: FidelityReport;
+  fromCache?: boolean;
+  /** Set when the provider failed and the offline splitter stood in; says why. */
+  fallback?: string;
+}
+
+const describeFailure = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Every path ends here: shared post-processing, then the verbatim check.
+const finalizeSplitResponse = (
+  parsedData: SplitResponse,
+  text: string,
+  capacity: ReturnType<typeof getCapacityGuide>,
+): SplitResult => {
+  const { segments, report } = verifySegmentFidelity(
+    normalizeSplitResponse(parsedData, text, capacity),
+    stripCardBreakMarkers(text),
+  );
+  return { segments, fidelity: report };
+};
 
-    const prompt = `
+const buildSplitPrompt = (
+  text: string,
+  config: Pick<CardConfig, "aspectRatio" | "fontSize" | "cardScale" | "safeAreaInset"> | undefined,
+  capacity: ReturnType<typeof getCapacityGuide>,
+  part?: { index: number; total: number },
+  passage?: PassageContext,
+) => {
+  const hasManualBreaks = hasCardBreakMarkers(text);
+  const inputRuleNumber = hasManualBreaks ? 7 : 6;
+  return `
       You are an expert digital typesetter and editor.
       Your goal is to split the input text into a sequence of readable cards.
       Current card format:
@@ -677,168 +876,389 @@ export const splitTextIntoCards = async (
          - **Card N+1 (End)**: Title = "感谢阅读", Content = "", Layout = "cover".
          - Also return a top-level "themeTag": a short article topic label shared by the first and last cover.
          - "themeTag" should be 1-4 words, plain text, no numbering, no quotes, no sentence punctuation.
+${hasManualBreaks ? `
+      6. **MANUAL CARD BREAKS**:
+         - A line containing only "---card---" or "<!-- card -->" is a hard card break. End the current card there and start a new one after it.
+         - Never put text from both sides of a break on the same card, even when both would fit.
+         - A line containing only "<!-- cover -->" starts a section cover: add a card with Layout = "cover", the next line as its title and Content = "", then continue with body cards.
+         - Never copy the marker lines into any title or content.
+` : ""}${passage ? `
+      ${inputRuleNumber}. **PASSAGE FROM A DECK**:
+         - The input below is a passage taken from the middle of an existing deck and will replace some of its body cards.
+         - Return body cards only. Do NOT add cover or end cards.
+         - Every heading in the passage stays a body card title; none of them is the project title.${passage.previousTitle ? `
+         - The card right before this passage is titled "${passage.previousTitle}".` : ""}${passage.nextTitle ? `
+         - The card right after this passage is titled "${passage.nextTitle}".` : ""}${passage.previousTitle || passage.nextTitle ? `
+         - Those neighbouring cards are context only: do not return cards for them, and reuse their titles only where the passage continues their section.` : ""}
+` : ""}${part ? `
+      ${inputRuleNumber}. **PARTIAL INPUT**:
+         - The input below is part ${part.index + 1} of ${part.total} of a longer document.
+         - ${part.index === 0 ? "Return the cover card first, then body cards. Do NOT add the end card." : "Return body cards only. Do NOT add cover or end cards."}
+         - "themeTag" should describe the whole document as far as this part reveals it.
+` : ""}
+      Respond with JSON only: { "themeTag": string, "segments": [{ "title": string, "content": string, "layout": "standard" | "cover" }] }.
 
       Input Text:
       ${text}
     `;
+};
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            themeTag: {
-              type: Type.STRING,
-              description:
-                "Short article topic label for the cover badge, such as Design, AI, Typography, or Product Strategy.",
-            },
-            segments: {
-              type: Type.ARRAY,
-              items: { 
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING, description: "Card title. Leave empty for untitled body cards." },
-                  content: { type: Type.STRING, description: "Body text sized to the current card capacity." },
-                  layout: { type: Type.STRING, enum: ["standard", "cover"] }
-                },
-                required: ["title", "content", "layout"]
-              }
-            }
-          }
-        }
-      }
-    });
+export interface SplitStreamOptions {
+  signal?: AbortSignal;
+  // Called with every newly completed prefix of the deck while the provider streams.
+  onSegments?: (segments: CardSegment[]) => void;
+  // Skip the cache lookup; the fresh result still overwrites the cached entry.
+  bypassCache?: boolean;
+}
+
+type SplitConfig = Pick<
+  CardConfig,
+  "aspectRatio" | "fontSize" | "cardScale" | "safeAreaInset" | "splitMode" | "aiProvider"
+>;
+
+const previewStreamedSegments = (
+  partial: SplitResponse,
+  text: string,
+): CardSegment[] =>
+  applyThemeTagToCoverSegments(
+    partial.segments.map((segment) =>
+      segment.layout === "cover"
+        ? { ...segment, title: segment.title.trim() }
+        : {
+            ...segment,
+            title: stripContinuationMarkers(segment.title.trim()),
+            content: segment.content.trim(),
+          },
+    ),
+    text,
+    partial.themeTag,
+  );
+
+const requestProviderSplit = async (
+  prompt: string,
+  config: SplitConfig | undefined,
+  signal?: AbortSignal,
+  onPartialText?: (accumulatedText: string) => void,
+): Promise<SplitResponse> => {
+  const provider = getSplitProvider(config?.aiProvider);
+  const responseText = await provider.generate({
+    prompt,
+    model: resolveProviderModel(config?.aiProvider),
+    baseUrl: config?.aiProvider?.baseUrl?.trim() || undefined,
+    apiKey: readApiKey(provider.id) || undefined,
+    signal,
+    onPartialText,
+  });
+  signal?.throwIfAborted();
+
+  const jsonStr = responseText.replace(/```json|```/g, "").trim();
+  
+  if (!jsonStr) {
+    throw new Error(`Empty response from ${provider.label}`);
+  }
+
+  const parsedData = JSON.parse(jsonStr) as SplitResponse;
+  if (!Array.isArray(parsedData?.segments)) {
+    throw new Error(`Malformed response from ${provider.label}`);
+  }
+  return parsedData;
+};
 
-    const jsonStr = response.text ? response.text.replace(/```json|```/g, "").trim() : "";
-    
-    if (!jsonStr) {
-      throw new Error("Empty response from Gemini");
+// ── Chunked pipeline for long sources ───────────────────────
+
+// Below this many characters the whole source goes out in one prompt.
+const CHUNK_CHAR_LIMIT = 6000;
+const CHUNK_CONCURRENCY = 3;
+
+/**
+ * Group markdown blocks into prompt-sized chunks.
+ * Chunks prefer to break right before a heading or a manual card break once they are half full,
+ * and are force-broken at CHUNK_CHAR_LIMIT otherwise.
+ */
+const planSourceChunks = (text: string) => {
+  const headings = new Set(extractExplicitHeadings(text));
+  const isHeadingBlock = (block: string) =>
+    /^#{1,6}\s+/.test(block) ||
+    isCardBreakLine(block.trim().split("\n")[0]) ||
+    headings.has(block.trim().replace(/^[#*\-\d.\s]+/, "").trim());
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const block of splitIntoMarkdownBlocks(text.replace(/\r\n?/g, "\n"))) {
+    const breakAtHeading =
+      isHeadingBlock(block) && currentLength >= CHUNK_CHAR_LIMIT * 0.5;
+    const breakAtLimit = currentLength + block.length > CHUNK_CHAR_LIMIT;
+
+    if (current.length > 0 && (breakAtHeading || breakAtLimit)) {
+      // Never strand a heading at the end of a chunk without its body.
+      const carried =
+        current.length > 1 && isHeadingBlock(current[current.length - 1])
+          ? current.splice(-1)
+          : [];
+      chunks.push(current.join("\n\n"));
+      current = carried;
+      currentLength = carried.reduce((sum, item) => sum + item.length + 2, 0);
     }
 
-    const parsedData = JSON.parse(jsonStr) as SplitResponse;
-    const hasExplicitHeadings = extractExplicitHeadings(text).length > 0;
-    const sanitizedSegments = applyThemeTagToCoverSegments(
-      sanitizeGeneratedSegments(parsedData.segments, text, capacity),
-      text,
-      parsedData.themeTag,
+    current.push(block);
+    currentLength += block.length + 2;
+  }
+
+  if (current.length > 0) chunks.push(current.join("\n\n"));
+  return chunks;
+};
+
+const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+};
+
+/** Most frequent meaningful tag across chunks; earlier chunks win ties. */
+const pickSharedThemeTag = (tags: Array<string | undefined>) => {
+  const counts = new Map<string, number>();
+  for (const tag of tags) {
+    if (!isMeaningfulThemeTag(tag)) continue;
+    const normalized = normalizeThemeTag(tag);
+    counts.set(normalized, (counts.get(normalized) ?? 0) + 1);
+  }
+
+  let best: string | undefined;
+  let bestCount = 0;
+  counts.forEach((count, tag) => {
+    if (count > bestCount) {
+      best = tag;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const splitLongTextInChunks = async (
+  text: string,
+  config: SplitConfig | undefined,
+  capacity: ReturnType<typeof getCapacityGuide>,
+  options: SplitStreamOptions,
+): Promise<{ stitched: SplitResponse; fallback?: string }> => {
+  const chunks = planSourceChunks(text);
+  let failedChunks = 0;
+  let lastFailure = "";
+  const completed: Array<SplitResponse | undefined> = new Array(chunks.length);
+  let emittedChunkCount = 0;
+
+  const stitch = (responses: SplitResponse[]): SplitResponse => {
+    const coverSegment =
+      responses[0]?.segments.find((segment) => segment.layout === "cover") ?? {
+        title: extractCoverTitle(text) || "Project Text",
+        content: "",
+        layout: "cover" as const,
+      };
+    const bodySegments = responses.flatMap((response) =>
+      response.segments.filter((segment) => segment.layout !== "cover"),
     );
-    if (hasAtomicMarkdownSyntax(text)) {
-      const coverTitle =
-        sanitizedSegments.find((segment) => segment.layout === "cover")?.title || "";
-      const endTitle =
-        [...sanitizedSegments]
-          .reverse()
-          .find((segment) => segment.layout === "cover")?.title || "感谢阅读";
-
-      return buildStructuredMarkdownSegments(text, capacity, {
-        coverTitle,
-        endTitle,
-        preferredTag: parsedData.themeTag,
-      });
+
+    return {
+      themeTag: pickSharedThemeTag(responses.map((response) => response.themeTag)),
+      segments: [
+        coverSegment,
+        ...bodySegments,
+        { title: "感谢阅读", content: "", layout: "cover" },
+      ],
+    };
+  };
+
+  // Report the contiguous run of finished chunks, in source order.
+  const emitCompletedPrefix = () => {
+    if (!options.onSegments) return;
+    let prefixLength = 0;
+    while (prefixLength < completed.length && completed[prefixLength]) {
+      prefixLength += 1;
     }
-    if (!hasExplicitHeadings) {
-      return collapseToSequentialFlow(
-        sanitizedSegments,
+    if (prefixLength <= emittedChunkCount) return;
+    emittedChunkCount = prefixLength;
+
+    const stitched = stitch(completed.slice(0, prefixLength) as SplitResponse[]);
+    const hasMore = prefixLength < completed.length;
+    options.onSegments(
+      previewStreamedSegments(
+        hasMore
+          ? { ...stitched, segments: stitched.segments.slice(0, -1) }
+          : stitched,
         text,
-        capacity,
-        parsedData.themeTag,
+      ),
+    );
+  };
+
+  const responses = await runWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, index) => {
+    options.signal?.throwIfAborted();
+    let response: SplitResponse;
+    try {
+      response = await requestProviderSplit(
+        buildSplitPrompt(chunk, config, capacity, { index, total: chunks.length }),
+        config,
+        options.signal,
       );
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error(`Error splitting chunk ${index + 1}/${chunks.length}:`, error);
+      response = splitTextOffline(chunk, config);
+      failedChunks += 1;
+      lastFailure = describeFailure(error);
     }
-    return sanitizedSegments;
 
-  } catch (error) {
-    console.error("Error splitting text:", error);
-    const capacity = getCapacityGuide(config);
-    
-    // Fallback: Manually create structure if API fails
-    const segments: CardSegment[] = [];
-    const MAX_CHARS = Math.round(capacity.cjk * 1.2);
-    
-    // 1. Title Card
-    segments.push({
-      title: "Project Text",
-      content: "",
-      layout: "cover"
-    });
+    completed[index] = response;
+    emitCompletedPrefix();
+    return response;
+  });
 
-    // 2. Body Cards - Robust Splitting
-    const rawParagraphs = text.split("\n\n").filter(t => t.trim().length > 0);
-    
-    let currentChunk = "";
-    let currentTitle = "";
-
-    rawParagraphs.forEach((part) => {
-      // Heuristic: Short lines without punctuation might be headers
-      if (part.length < 50 && !part.match(/[.,;!?。，；！？]/)) {
-         if (currentChunk) {
-            segments.push({
-              title: currentTitle,
-              content: currentChunk,
-              layout: "standard"
-            });
-            currentChunk = "";
-         }
-         currentTitle = part.replace(/#|\*/g, '').trim();
-         return; 
-      }
+  return {
+    stitched: stitch(responses),
+    fallback: failedChunks > 0
+      ? `${failedChunks} of ${chunks.length} sections split offline: ${lastFailure}`
+      : undefined,
+  };
+};
 
-      if ((currentChunk.length + part.length) > MAX_CHARS) {
-        if (currentChunk) {
-          segments.push({
-            title: currentTitle,
-            content: currentChunk,
-            layout: "standard"
-          });
-        }
+export const streamTextIntoCards = async (
+  text: string,
+  config?: SplitConfig,
+  options: SplitStreamOptions = {},
+): Promise<SplitResult> => {
+  const capacity = getCapacityGuide(config);
 
-        // Split oversized single paragraphs further
-        let remainder = part;
-        while (remainder.length > MAX_CHARS) {
-          const split = carvePrefixForRebalance(remainder, 0.5, {
-            minRatio: 0.3,
-            maxRatio: 0.7,
-          });
-          segments.push({
-            title: currentTitle,
-            content: split.prefix,
-            layout: "standard"
-          });
-          remainder = split.suffix;
-        }
-        currentChunk = remainder;
-      } else {
-        currentChunk += (currentChunk ? "\n\n" : "") + part;
-      }
-    });
-    
-    if (currentChunk) {
-        segments.push({
-          title: currentTitle,
-          content: currentChunk,
-          layout: "standard"
-        });
-    }
+  if (config?.splitMode === "local") {
+    return finalizeSplitResponse(splitTextOffline(text, config), text, capacity);
+  }
 
-    // 3. End Card
-    segments.push({
-      title: "感谢阅读",
-      content: "",
-      layout: "cover"
-    });
+  if (config && !options.bypassCache) {
+    const cached = await readCachedSplit(text, config);
+    if (cached) return { ...cached, fromCache: true };
+  }
 
-    const sanitizedSegments = applyThemeTagToCoverSegments(
-      sanitizeGeneratedSegments(segments, text, capacity),
-      text,
-    );
-    if (hasAtomicMarkdownSyntax(text)) {
-      return buildStructuredMarkdownSegments(text, capacity);
+  try {
+    if (text.length > CHUNK_CHAR_LIMIT) {
+      const { stitched, fallback } = await splitLongTextInChunks(
+        text,
+        config,
+        capacity,
+        options,
+      );
+      const result = finalizeSplitResponse(stitched, text, capacity);
+      // Partially offline decks are not worth replaying.
+      if (config && !fallback) void writeCachedSplit(text, config, result);
+      return fallback ? { ...result, fallback } : result;
     }
-    if (extractExplicitHeadings(text).length === 0) {
-      return collapseToSequentialFlow(sanitizedSegments, text, capacity);
+
+    const { onSegments, signal } = options;
+    let streamedCount = 0;
+
+    const parsedData = await requestProviderSplit(
+      buildSplitPrompt(text, config, capacity),
+      config,
+      signal,
+      onSegments
+        ? (accumulatedText) => {
+            const partial = parsePartialSplitResponse(accumulatedText);
+            if (partial.segments.length <= streamedCount) return;
+            streamedCount = partial.segments.length;
+            onSegments(previewStreamedSegments(partial, text));
+          }
+        : undefined,
+    );
+
+    const result = finalizeSplitResponse(parsedData, text, capacity);
+    if (config) void writeCachedSplit(text, config, result);
+    return result;
+  } catch (error) {
+    // A cancelled run must not fall through to the offline splitter.
+    if (options.signal?.aborted) throw error;
+    console.error("Error splitting text:", error);
+
+    // Fallback: the offline splitter if the provider fails, flagged so the UI can say so
+    return {
+      ...finalizeSplitResponse(splitTextOffline(text, config), text, capacity),
+      fallback: describeFailure(error),
+    };
+  }
+};
+
+export const splitTextIntoCards = (
+  text: string,
+  config?: SplitConfig,
+  signal?: AbortSignal,
+): Promise<CardSegment[]> =>
+  streamTextIntoCards(text, config, { signal }).then((result) => result.segments);
+
+/** Titles of the cards around a passage; the prompt uses them to place it. */
+export interface PassageContext {
+  previousTitle?: string;
+  nextTitle?: string;
+}
+
+export interface PassageSplitResult {
+  segments: CardSegment[];
+  fallback?: string;
+}
+
+/**
+ * Split a passage lifted out of an existing deck into body cards only. The
+ * result goes through the same normalisation and fidelity check as a full
+ * split, wrapped in placeholder covers that are dropped again.
+ */
+export const splitPassageIntoCards = async (
+  text: string,
+  config?: SplitConfig,
+  options: { signal?: AbortSignal; context?: PassageContext } = {},
+): Promise<PassageSplitResult> => {
+  const capacity = getCapacityGuide(config);
+  const splitOffline = () => splitTextOffline(text, config, { passage: true });
+
+  let response: SplitResponse;
+  let fallback: string | undefined;
+  if (config?.splitMode === "local") {
+    response = splitOffline();
+  } else {
+    try {
+      response = await requestProviderSplit(
+        buildSplitPrompt(text, config, capacity, undefined, options.context ?? {}),
+        config,
+        options.signal,
+      );
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error("Error splitting passage:", error);
+      response = splitOffline();
+      fallback = describeFailure(error);
     }
-    return sanitizedSegments;
   }
+
+  const { segments } = finalizeSplitResponse(
+    {
+      themeTag: response.themeTag,
+      segments: [
+        { title: "", content: "", layout: "cover" },
+        ...response.segments.filter((segment) => segment.layout !== "cover"),
+        { title: "感谢阅读", content: "", layout: "cover" },
+      ],
+    },
+    text,
+    capacity,
+  );
+  return { segments: segments.filter((segment) => segment.layout !== "cover"), fallback };
 };
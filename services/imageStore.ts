@@ -0,0 +1,138 @@
+/**
+ * [INPUT]: 依赖 ../utils/indexedDb 的 runTransaction / promisifyRequest，依赖 ../utils/contentHash 的 hashString，
+ *          依赖 ../types 的 CardSegment
+ * [OUTPUT]: 对外提供 stashCardImages(cards) / restoreCardImages(cards) / collectImageRefs(cards) / pruneUnusedImages(refs) /
+ *           stashImageDataUrl(dataUrl) / collectTextImageRefs(text)
+ * [POS]: services/ 的卡片图片仓库；把 image / originalImage 的 base64 data URL 按内容哈希存进 IndexedDB 的 images store，
+ *        项目记录里只留 "idb-image:<hash>" 引用，保证项目列表轻量、相同图片只存一份；
+ *        导入文档里的内联图片也以同样的引用写进原文（见 services/documentImport）；
+ *        清理时跳过最近写入的图片，刚上传 / 导入、尚未随自动保存落进项目的引用不会被误删
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment } from "../types";
+import { hashString } from "../utils/contentHash";
+import { promisifyRequest, runTransaction } from "../utils/indexedDb";
+
+const STORE = "images";
+const IMAGE_REF_PREFIX = "idb-image:";
+const IMAGE_FIELDS = ["image", "originalImage"] as const;
+const MAX_KNOWN_KEYS = 200;
+const TEXT_IMAGE_REF_PATTERN = /idb-image:([\w-]+)/g;
+// Refs stashed this recently may only live in the unsaved deck, so pruning leaves them alone.
+const PRUNE_GRACE_MS = 60 * 60 * 1000;
+
+type ImageEntry = {
+  key: string;
+  dataUrl: string;
+  storedAt?: number; // Missing on entries written before the grace period existed
+};
+
+// Autosave stashes the same images over and over; skip re-hashing them.
+const knownKeys = new Map<string, string>();
+
+const isImageRef = (value: string | undefined): value is string =>
+  Boolean(value?.startsWith(IMAGE_REF_PREFIX));
+
+const storeDataUrl = async (dataUrl: string) => {
+  const cached = knownKeys.get(dataUrl);
+  if (cached) return cached;
+
+  const key = await hashString(dataUrl);
+  // Re-stashing an existing image refreshes storedAt so a pending prune cannot take it.
+  await runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.put({ key, dataUrl, storedAt: Date.now() } satisfies ImageEntry));
+  });
+
+  if (knownKeys.size >= MAX_KNOWN_KEYS) knownKeys.clear();
+  knownKeys.set(dataUrl, key);
+  return key;
+};
+
+// ── Public API ──────────────────────────────────────────────
+
+/** Replace inline data URLs with store references. Images that fail to store stay inline. */
+export const stashCardImages = async (cards: CardSegment[]) =>
+  Promise.all(
+    cards.map(async (card) => {
+      const next = { ...card };
+      for (const field of IMAGE_FIELDS) {
+        const value = card[field];
+        if (!value?.startsWith("data:")) continue;
+        try {
+          next[field] = `${IMAGE_REF_PREFIX}${await storeDataUrl(value)}`;
+        } catch (error) {
+          console.error("Failed to store card image:", error);
+        }
+      }
+      return next;
+    }),
+  );
+
+/** Resolve store references back to data URLs. Missing images are dropped from the card. */
+export const restoreCardImages = async (cards: CardSegment[]) => {
+  const keys = collectImageRefs(cards);
+  if (keys.size === 0) return cards;
+
+  const entries = await runTransaction(STORE, "readonly", (store) =>
+    Promise.all(
+      Array.from(keys).map((key) =>
+        promisifyRequest(store.get(key)) as Promise<ImageEntry | undefined>,
+      ),
+    ),
+  );
+  const dataUrls = new Map<string, string>();
+  entries.forEach((entry) => {
+    if (!entry) return;
+    dataUrls.set(entry.key, entry.dataUrl);
+    knownKeys.set(entry.dataUrl, entry.key);
+  });
+
+  return cards.map((card) => {
+    const next = { ...card };
+    for (const field of IMAGE_FIELDS) {
+      const value = card[field];
+      if (!isImageRef(value)) continue;
+      next[field] = dataUrls.get(value.slice(IMAGE_REF_PREFIX.length));
+    }
+    if (!next.image) delete next.imageConfig;
+    return next;
+  });
+};
+
+/** Store one data URL and return its "idb-image:<hash>" reference. */
+export const stashImageDataUrl = async (dataUrl: string) =>
+  `${IMAGE_REF_PREFIX}${await storeDataUrl(dataUrl)}`;
+
+export const collectImageRefs = (cards: CardSegment[]) => {
+  const keys = new Set<string>();
+  cards.forEach((card) => {
+    IMAGE_FIELDS.forEach((field) => {
+      const value = card[field];
+      if (isImageRef(value)) keys.add(value.slice(IMAGE_REF_PREFIX.length));
+    });
+  });
+  return keys;
+};
+
+/** Keys referenced from source text, where imported documents keep their inline images. */
+export const collectTextImageRefs = (text: string) =>
+  new Set(Array.from(text.matchAll(TEXT_IMAGE_REF_PATTERN), (match) => match[1]));
+
+/** Delete every stored image whose key is not in `referencedKeys`, except ones stored within the grace period. */
+export const pruneUnusedImages = (referencedKeys: Set<string>) =>
+  runTransaction(STORE, "readwrite", (store) => {
+    const cutoff = Date.now() - PRUNE_GRACE_MS;
+    knownKeys.clear();
+    // Walk a cursor rather than getAll so only one image is in memory at a time.
+    return new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        const entry = cursor.value as ImageEntry;
+        if (!referencedKeys.has(entry.key) && (entry.storedAt ?? 0) < cutoff) cursor.delete();
+        cursor.continue();
+      };
+    });
+  });
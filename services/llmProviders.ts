@@ -0,0 +1,308 @@
+/**
+ * [INPUT]: 依赖 @google/genai 的 GoogleGenAI SDK，依赖 ../types 的 AiProviderConfig/AiProviderId；
+ *          其余厂商通过 fetch 直连 HTTP API；API Key 由调用方按请求传入（见 ./apiKeyStore），不从构建时环境变量读取
+ * [OUTPUT]: 对外提供 SplitProvider / SplitGenerationRequest 类型、SPLIT_RESPONSE_SCHEMA、AI_PROVIDER_OPTIONS、
+ *           DEFAULT_AI_PROVIDER、getSplitProvider(config)、resolveProviderModel(config)
+ * [POS]: services/ 的模型供应商层；把"发送 prompt、拿回 JSON 文本"抽象为统一接口，
+ *        Gemini / OpenAI 兼容 / Anthropic / 本地 Ollama·llama.cpp 四种实现共享同一 segment schema；
+ *        不做任何后处理，后处理统一由 geminiService 负责；无 AI 的确定性切分见 offlineSplitter
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { GoogleGenAI } from "@google/genai";
+import { AiProviderConfig, AiProviderId } from "../types";
+
+export interface SplitGenerationRequest {
+  prompt: string;
+  model: string;
+  baseUrl?: string;
+  // Read at request time from the user's settings; never bundled into the build.
+  apiKey?: string;
+  signal?: AbortSignal;
+  // When present the provider streams and reports the accumulated JSON text so far.
+  onPartialText?: (accumulatedText: string) => void;
+}
+
+export interface SplitProvider {
+  id: AiProviderId;
+  label: string;
+  defaultModel: string;
+  generate: (request: SplitGenerationRequest) => Promise<string>;
+}
+
+export const DEFAULT_AI_PROVIDER: AiProviderConfig = { id: "gemini" };
+
+// Shared response contract — every provider must return JSON matching this shape.
+export const SPLIT_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    themeTag: {
+      type: "string",
+      description:
+        "Short article topic label for the cover badge, such as Design, AI, Typography, or Product Strategy.",
+    },
+    segments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string", description: "Card title. Leave empty for untitled body cards." },
+          content: { type: "string", description: "Body text sized to the current card capacity." },
+          layout: { type: "string", enum: ["standard", "cover"] },
+        },
+        required: ["title", "content", "layout"],
+      },
+    },
+  },
+  required: ["segments"],
+} as const;
+
+type BaseUrlProviderId = Extract<AiProviderId, "openai" | "local">;
+
+const DEFAULT_BASE_URLS: Record<BaseUrlProviderId, string> = {
+  openai: "https://api.openai.com/v1",
+  local: "http://localhost:11434/v1",
+};
+
+const usesBaseUrl = (id: AiProviderId): id is BaseUrlProviderId => id in DEFAULT_BASE_URLS;
+
+const trimTrailingSlash = (value: string) => value.replace(/\/+$/, "");
+
+const requireApiKey = (label: string, apiKey?: string) => {
+  if (!apiKey) throw new Error(`${label} API key is not set`);
+  return apiKey;
+};
+
+/**
+ * Read a `text/event-stream` body and hand every parsed `data:` payload to
+ * `onEvent`. The `[DONE]` sentinel and payloads that are not valid JSON are
+ * skipped, so one bad event does not end the stream.
+ */
+const readEventStream = async (
+  response: Response,
+  onEvent: (event: ReturnType<typeof JSON.parse>) => void,
+) => {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatchLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+
+    let event: ReturnType<typeof JSON.parse>;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return;
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(dispatchLine);
+  }
+
+  // The last event may arrive without a trailing newline.
+  buffer += decoder.decode();
+  buffer.split("\n").forEach(dispatchLine);
+};
+
+// ── Gemini ──────────────────────────────────────────────────
+
+let geminiClient: { apiKey: string; client: GoogleGenAI } | null = null;
+const getGeminiClient = (apiKey?: string) => {
+  // The dev build may still carry the .env.local key; a key from settings wins.
+  const key = apiKey || process.env.API_KEY || "";
+  if (!key) throw new Error("Gemini API key is not set");
+  if (geminiClient?.apiKey !== key) {
+    geminiClient = { apiKey: key, client: new GoogleGenAI({ apiKey: key }) };
+  }
+  return geminiClient.client;
+};
+
+const geminiProvider: SplitProvider = {
+  id: "gemini",
+  label: "Gemini",
+  defaultModel: "gemini-3-flash-preview",
+  generate: async ({ prompt, model, apiKey, signal, onPartialText }) => {
+    const params = {
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseJsonSchema: SPLIT_RESPONSE_SCHEMA,
+        abortSignal: signal,
+      },
+    };
+
+    if (!onPartialText) {
+      const response = await getGeminiClient(apiKey).models.generateContent(params);
+      return response.text ?? "";
+    }
+
+    let accumulated = "";
+    const stream = await getGeminiClient(apiKey).models.generateContentStream(params);
+    for await (const chunk of stream) {
+      accumulated += chunk.text ?? "";
+      onPartialText(accumulated);
+    }
+    return accumulated;
+  },
+};
+
+// ── OpenAI-compatible (also serves Ollama / llama.cpp) ─────
+
+const requestChatCompletion = async (
+  label: string,
+  { prompt, model, signal, onPartialText }: SplitGenerationRequest,
+  baseUrl: string,
+  apiKey?: string,
+) => {
+  const response = await fetch(`${trimTrailingSlash(baseUrl)}/chat/completions`, {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "split_response", schema: SPLIT_RESPONSE_SCHEMA },
+      },
+      stream: !!onPartialText,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${label} request failed (${response.status})`);
+  }
+
+  if (!onPartialText) {
+    const payload = await response.json();
+    return String(payload?.choices?.[0]?.message?.content ?? "");
+  }
+
+  let accumulated = "";
+  await readEventStream(response, (event) => {
+    const delta = event?.choices?.[0]?.delta?.content;
+    if (typeof delta !== "string" || !delta) return;
+    accumulated += delta;
+    onPartialText(accumulated);
+  });
+  return accumulated;
+};
+
+const openAiProvider: SplitProvider = {
+  id: "openai",
+  label: "OpenAI",
+  defaultModel: "gpt-4o-mini",
+  generate: (request) =>
+    requestChatCompletion(
+      "OpenAI",
+      request,
+      request.baseUrl || DEFAULT_BASE_URLS.openai,
+      requireApiKey("OpenAI", request.apiKey),
+    ),
+};
+
+const localProvider: SplitProvider = {
+  id: "local",
+  label: "Local",
+  defaultModel: "llama3.1",
+  generate: (request) =>
+    requestChatCompletion("Local model", request, request.baseUrl || DEFAULT_BASE_URLS.local),
+};
+
+// ── Anthropic ───────────────────────────────────────────────
+
+const anthropicProvider: SplitProvider = {
+  id: "anthropic",
+  label: "Claude",
+  defaultModel: "claude-sonnet-4-5",
+  generate: async ({ prompt, model, apiKey, signal, onPartialText }) => {
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": requireApiKey("Anthropic", apiKey),
+        "anthropic-version": "2023-06-01",
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: 16000,
+        messages: [{ role: "user", content: prompt }],
+        // Forcing a single tool call is the most reliable way to get schema-shaped JSON back.
+        tools: [
+          {
+            name: "emit_cards",
+            description: "Return the split card sequence.",
+            input_schema: SPLIT_RESPONSE_SCHEMA,
+          },
+        ],
+        tool_choice: { type: "tool", name: "emit_cards" },
+        stream: !!onPartialText,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed (${response.status})`);
+    }
+
+    if (!onPartialText) {
+      const payload = await response.json();
+      const toolUse = (payload?.content ?? []).find(
+        (block: { type?: string }) => block?.type === "tool_use",
+      );
+      return toolUse?.input ? JSON.stringify(toolUse.input) : "";
+    }
+
+    // Tool input arrives as `input_json_delta` fragments of the final JSON.
+    let accumulated = "";
+    await readEventStream(response, (event) => {
+      if (event?.type !== "content_block_delta") return;
+      if (event.delta?.type !== "input_json_delta") return;
+      accumulated += event.delta.partial_json ?? "";
+      onPartialText(accumulated);
+    });
+    return accumulated;
+  },
+};
+
+// ── Registry ────────────────────────────────────────────────
+
+const PROVIDERS: Record<AiProviderId, SplitProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  anthropic: anthropicProvider,
+  local: localProvider,
+};
+
+export const AI_PROVIDER_OPTIONS = Object.values(PROVIDERS).map((provider) => ({
+  id: provider.id,
+  label: provider.label,
+  defaultModel: provider.defaultModel,
+  usesBaseUrl: usesBaseUrl(provider.id),
+  usesApiKey: provider.id !== "local",
+  defaultBaseUrl: usesBaseUrl(provider.id) ? DEFAULT_BASE_URLS[provider.id] : "",
+}));
+
+export const getSplitProvider = (config?: AiProviderConfig) =>
+  PROVIDERS[config?.id ?? DEFAULT_AI_PROVIDER.id] ?? PROVIDERS[DEFAULT_AI_PROVIDER.id];
+
+export const resolveProviderModel = (config?: AiProviderConfig) =>
+  config?.model?.trim() || getSplitProvider(config).defaultModel;
@@ -0,0 +1,83 @@
+/**
+ * [INPUT]: 依赖 vitest，依赖 ./offlineSplitter 的 splitTextOffline / extractCoverTitle
+ * [OUTPUT]: offlineSplitter 的确定性、标题识别、按容量装箱与手动分卡标记测试
+ * [POS]: services/offlineSplitter 的单元测试
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { describe, expect, it } from "vitest";
+import { AspectRatio, CardSegment } from "../types";
+import { extractCoverTitle, splitTextOffline } from "./offlineSplitter";
+
+const body = (segments: CardSegment[]) => segments.slice(1, -1);
+const sentences = (count: number, label: string) =>
+  Array.from({ length: count }, (_, index) => `${label} sentence number ${index + 1} carries a few more words.`).join(" ");
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+describe("splitTextOffline", () => {
+  it("uses the leading heading as the cover and later headings as titles", () => {
+    const { segments } = splitTextOffline("# Guide\n\nIntro paragraph.\n\n## Setup\n\nInstall it.");
+
+    expect(segments[0]).toEqual({ title: "Guide", content: "", layout: "cover" });
+    expect(segments[segments.length - 1].layout).toBe("cover");
+    expect(body(segments)).toEqual([
+      { title: "", content: "Intro paragraph.", layout: "standard" },
+      { title: "Setup", content: "Install it.", layout: "standard" },
+    ]);
+  });
+
+  it("keeps a passage's leading heading as a body title", () => {
+    const { segments } = splitTextOffline("## Setup\n\nInstall it.", undefined, { passage: true });
+
+    expect(body(segments)).toEqual([{ title: "Setup", content: "Install it.", layout: "standard" }]);
+  });
+
+  it("returns the same cards for the same input and config", () => {
+    const text = `# Long\n\n${sentences(40, "Alpha")}\n\n## Next\n\n${sentences(25, "Beta")}`;
+    const config = { aspectRatio: AspectRatio.SQUARE, fontSize: 18, cardScale: 1 };
+
+    expect(splitTextOffline(text, config)).toEqual(splitTextOffline(text, config));
+  });
+
+  it("packs long text across cards without losing or reordering words", () => {
+    const paragraph = sentences(60, "Gamma");
+    const cards = body(splitTextOffline(paragraph).segments);
+
+    expect(cards.length).toBeGreaterThan(1);
+    expect(normalize(cards.map((card) => card.content).join(" "))).toBe(normalize(paragraph));
+  });
+
+  it("starts a fresh card at every break marker and never merges across it", () => {
+    const { segments } = splitTextOffline("# Deck\n\nShort one.\n\n---card---\n\nShort two.\n\n<!-- card -->\n\nShort three.");
+
+    expect(body(segments)).toEqual([
+      { title: "", content: "Short one.", layout: "standard" },
+      { title: "", content: "Short two.", layout: "standard", breakBefore: true },
+      { title: "", content: "Short three.", layout: "standard", breakBefore: true },
+    ]);
+  });
+
+  it("opens a cover card for `<!-- cover -->` sections", () => {
+    const { segments } = splitTextOffline("Opening text.\n\n<!-- cover -->\n# Part Two\n\nSecond part text.");
+
+    expect(body(segments)).toEqual([
+      { title: "", content: "Opening text.", layout: "standard" },
+      { title: "Part Two", content: "", layout: "cover", breakBefore: true },
+      { title: "", content: "Second part text.", layout: "standard", breakBefore: true },
+    ]);
+  });
+
+  it("treats break markers inside code fences as content", () => {
+    const text = "# Deck\n\n```\n---card---\n```\n\nAfter the fence.";
+    const cards = body(splitTextOffline(text).segments);
+
+    expect(cards.some((card) => card.breakBefore)).toBe(false);
+    expect(cards.map((card) => card.content).join("\n\n")).toContain("---card---");
+  });
+});
+
+describe("extractCoverTitle", () => {
+  it("finds the first heading and ignores sentences and markers", () => {
+    expect(extractCoverTitle("<!-- card -->\nA full sentence, not a title.\n\n## Real Title\n\nText.")).toBe("Real Title");
+    expect(extractCoverTitle("Only a sentence here.")).toBe("");
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/CardSegment/SplitResponse，
+ *          依赖 ../utils/cardCapacity 的 getCapacityGuide / estimateSegmentOccupancy，
+ *          依赖 ../utils/textSplit 的 splitIntoMarkdownBlocks / carvePrefixForRebalance / splitFencedMarkdownBlock / isAtomicMarkdownBlock，
+ *          依赖 ../utils/cardBreaks 的 splitSourceSections / readSectionCover / stripCardBreakMarkers
+ * [OUTPUT]: 对外提供 splitTextOffline(text, config, { passage }): SplitResponse / extractCoverTitle(text)
+ * [POS]: services/ 的确定性本地切分器；零网络、零随机、同输入必同输出，
+ *        既是 Console "Local" 模式的主路径，也是 AI 供应商失败时的兜底；
+ *        只负责"标题识别 + 按容量装箱"，手动分卡标记之间各自装箱、互不合并，后处理仍统一交给 geminiService
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardConfig, CardSegment, SplitResponse } from "../types";
+import {
+  CapacityGuide,
+  estimateSegmentOccupancy,
+  getCapacityGuide,
+} from "../utils/cardCapacity";
+import {
+  carvePrefixForRebalance,
+  isAtomicMarkdownBlock,
+  splitFencedMarkdownBlock,
+  splitIntoMarkdownBlocks,
+} from "../utils/textSplit";
+import {
+  readSectionCover,
+  splitSourceSections,
+  stripCardBreakMarkers,
+} from "../utils/cardBreaks";
+
+// A card is "full" a little before the visual limit so overflow passes stay rare.
+const OFFLINE_FILL_TARGET = 0.94;
+const FALLBACK_COVER_TITLE = "Project Text";
+const END_TITLE = "感谢阅读";
+const MAX_HEADING_LENGTH = 24;
+
+// ── Heading detection ───────────────────────────────────────
+
+/**
+ * Return the heading text if `block` is a standalone heading.
+ * Markdown `#` headings always count; plain single-line blocks count when they
+ * are short and carry no sentence punctuation (matches the AI prompt's notion).
+ */
+const readHeading = (block: string) => {
+  const trimmed = block.trim();
+  if (!trimmed || trimmed.includes("\n")) return null;
+
+  const markdownHeading = trimmed.match(/^#{1,6}\s+(.+)$/);
+  if (markdownHeading) {
+    return markdownHeading[1].replace(/[*_`]/g, "").trim() || null;
+  }
+
+  if (isAtomicMarkdownBlock(trimmed)) return null;
+
+  const candidate = trimmed.replace(/^[*\-\d.\s]+/, "").replace(/[*_`]/g, "").trim();
+  if (!candidate || candidate.length > MAX_HEADING_LENGTH) return null;
+  if (/[。！？；：，,.!?;:]/.test(candidate)) return null;
+
+  return candidate;
+};
+
+/**
+ * Cover title = the first heading in the document, or "" when there is none.
+ */
+export const extractCoverTitle = (text: string) => {
+  for (const block of splitIntoMarkdownBlocks(stripCardBreakMarkers(text).replace(/\r\n?/g, "\n"))) {
+    const heading = readHeading(block);
+    if (heading) return heading;
+  }
+  return "";
+};
+
+// ── Capacity-driven packing ─────────────────────────────────
+
+const packSection = (
+  title: string,
+  blocks: string[],
+  capacity: CapacityGuide,
+): CardSegment[] => {
+  const segments: CardSegment[] = [];
+  let currentContent = "";
+
+  const flushCurrent = () => {
+    const trimmed = currentContent.trim();
+    if (!trimmed) return;
+    segments.push({ title, content: trimmed, layout: "standard" });
+    currentContent = "";
+  };
+
+  const appendChunk = (chunk: string) => {
+    const trimmed = chunk.trim();
+    if (!trimmed) return;
+
+    const merged = currentContent ? `${currentContent}\n\n${trimmed}` : trimmed;
+    if (
+      !currentContent ||
+      estimateSegmentOccupancy(merged, capacity) <= OFFLINE_FILL_TARGET
+    ) {
+      currentContent = merged;
+      return;
+    }
+
+    flushCurrent();
+    currentContent = trimmed;
+  };
+
+  for (const block of blocks) {
+    let remainder = block.trim();
+
+    while (remainder) {
+      const occupancy = estimateSegmentOccupancy(remainder, capacity);
+      if (occupancy <= OFFLINE_FILL_TARGET) {
+        appendChunk(remainder);
+        break;
+      }
+
+      // Carve roughly one card's worth off the front of an oversized block.
+      const targetRatio = Math.min(
+        0.7,
+        Math.max(0.28, OFFLINE_FILL_TARGET / Math.max(occupancy, 0.01)),
+      );
+      const split = isAtomicMarkdownBlock(remainder)
+        ? splitFencedMarkdownBlock(remainder, targetRatio, {
+            minRatio: 0.28,
+            maxRatio: 0.7,
+          })
+        : carvePrefixForRebalance(remainder, targetRatio, {
+            minRatio: 0.28,
+            maxRatio: 0.7,
+          });
+
+      if (!split?.prefix || !split?.suffix) {
+        appendChunk(remainder);
+        break;
+      }
+
+      flushCurrent();
+      appendChunk(split.prefix);
+      remainder = split.suffix.trim();
+    }
+  }
+
+  flushCurrent();
+  return segments;
+};
+
+// ── Public splitter ─────────────────────────────────────────
+
+/**
+ * Deterministic paragraph/heading splitter.
+ * A leading heading becomes the cover title and is not repeated on the first
+ * body card; every later heading starts a new titled section that is packed
+ * up to OFFLINE_FILL_TARGET of the card capacity. Manual break markers cut
+ * the packing: each piece between them starts a fresh card (`breakBefore`),
+ * and `<!-- cover -->` pieces open with a cover card of their own.
+ * A `passage` is lifted from the middle of a deck, so its leading heading
+ * stays a body title instead of becoming the cover.
+ */
+export const splitTextOffline = (
+  text: string,
+  config?: Pick<CardConfig, "aspectRatio" | "fontSize" | "cardScale" | "safeAreaInset">,
+  options: { passage?: boolean } = {},
+): SplitResponse => {
+  const capacity = getCapacityGuide(config);
+  const sourceSections = splitSourceSections(text.replace(/\r\n?/g, "\n").trim());
+
+  let coverTitle = "";
+  const bodySegments: CardSegment[] = [];
+  let sectionTitle = "";
+  let sectionBlocks: string[] = [];
+  let breakPending = false;
+
+  const flushSection = () => {
+    const packed = packSection(sectionTitle, sectionBlocks, capacity);
+    if (breakPending && packed.length > 0) {
+      packed[0] = { ...packed[0], breakBefore: true };
+      breakPending = false;
+    }
+    bodySegments.push(...packed);
+    sectionBlocks = [];
+  };
+
+  sourceSections.forEach((sourceSection, sectionIndex) => {
+    let blocks: string[];
+    if (sourceSection.cover) {
+      const { title, body } = readSectionCover(sourceSection.text);
+      if (sectionIndex === 0) {
+        coverTitle = title;
+      } else {
+        bodySegments.push({ title, content: "", layout: "cover", breakBefore: true });
+      }
+      sectionTitle = "";
+      blocks = splitIntoMarkdownBlocks(body);
+    } else {
+      blocks = splitIntoMarkdownBlocks(sourceSection.text);
+      const leadingHeading =
+        sectionIndex === 0 && !options.passage && blocks.length > 1
+          ? readHeading(blocks[0])
+          : null;
+      if (leadingHeading) {
+        coverTitle = leadingHeading;
+        blocks = blocks.slice(1);
+      }
+    }
+    breakPending = sectionIndex > 0;
+
+    for (const block of blocks) {
+      const heading = readHeading(block);
+      if (heading) {
+        flushSection();
+        sectionTitle = heading;
+        continue;
+      }
+      sectionBlocks.push(block);
+    }
+    flushSection();
+  });
+
+  return {
+    segments: [
+      {
+        title: coverTitle || extractCoverTitle(text) || FALLBACK_COVER_TITLE,
+        content: "",
+        layout: "cover",
+      },
+      ...bodySegments,
+      { title: END_TITLE, content: "", layout: "cover" },
+    ],
+  };
+};
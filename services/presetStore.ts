@@ -0,0 +1,132 @@
+/**
+ * [INPUT]: 依赖 ../utils/indexedDb 的 runTransaction / promisifyRequest，
+ *          依赖 ../utils/cardConfig 的 CONFIG_VERSION / pickPresetConfig，依赖 ../types 的 CardConfig/Preset
+ * [OUTPUT]: 对外提供 listPresets() / savePreset(name, config) / renamePreset(id, name) / deletePreset(id) /
+ *           importPresets(presets) / serializePresets(presets) / parsePresetFile(text): Preset[] / DEFAULT_PRESET_NAME
+ * [POS]: services/ 的用户预设库；每个预设 = 名称 + CardConfig 外观与作者字段 + 保存时的 configVersion，
+ *        存于 IndexedDB 的 presets store；导出为带版本号的 JSON 文件供团队共享品牌样式，
+ *        导入时保留原 configVersion，应用时由 utils/cardConfig 的 applyPresetConfig 统一迁移
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardConfig, Preset } from "../types";
+import { promisifyRequest, runTransaction } from "../utils/indexedDb";
+import { CONFIG_VERSION, pickPresetConfig } from "../utils/cardConfig";
+
+const STORE = "presets";
+const FILE_MARKER = "presets";
+const FILE_FORMAT_VERSION = 1;
+export const DEFAULT_PRESET_NAME = "Untitled Preset";
+
+type PresetFile = {
+  textcuts: typeof FILE_MARKER;
+  version: number;
+  presets: Array<Pick<Preset, "name" | "config" | "configVersion">>;
+};
+
+const createPresetId = () =>
+  `preset_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const toPresetName = (name: unknown) =>
+  (typeof name === "string" && name.trim()) || DEFAULT_PRESET_NAME;
+
+// ── CRUD ────────────────────────────────────────────────────
+
+/** Newest first. */
+export const listPresets = async (): Promise<Preset[]> => {
+  const presets = await runTransaction(STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll()),
+  );
+  return (presets as Preset[]).sort(
+    (left, right) => (right.updatedAt ?? 0) - (left.updatedAt ?? 0),
+  );
+};
+
+export const savePreset = async (name: string, config: CardConfig): Promise<Preset> => {
+  const preset: Preset = {
+    id: createPresetId(),
+    name: toPresetName(name),
+    config: pickPresetConfig(config),
+    configVersion: CONFIG_VERSION,
+    updatedAt: Date.now(),
+  };
+  await runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.put(preset));
+  });
+  return preset;
+};
+
+export const renamePreset = (id: string, name: string) =>
+  runTransaction(STORE, "readwrite", async (store) => {
+    const preset = (await promisifyRequest(store.get(id))) as Preset | undefined;
+    if (!preset) return;
+    await promisifyRequest(
+      store.put({ ...preset, name: toPresetName(name), updatedAt: Date.now() }),
+    );
+  });
+
+export const deletePreset = (id: string) =>
+  runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.delete(id));
+  });
+
+/** Store presets read from a file; each gets a fresh id so imports never overwrite. */
+export const importPresets = (presets: Preset[]) =>
+  runTransaction(STORE, "readwrite", async (store) => {
+    const now = Date.now();
+    for (const [index, preset] of presets.entries()) {
+      // Keep the file's order when listing newest first.
+      await promisifyRequest(
+        store.put({ ...preset, id: createPresetId(), updatedAt: now - index }),
+      );
+    }
+  });
+
+// ── JSON files ──────────────────────────────────────────────
+
+export const serializePresets = (presets: Preset[]) => {
+  const file: PresetFile = {
+    textcuts: FILE_MARKER,
+    version: FILE_FORMAT_VERSION,
+    presets: presets.map((preset) => ({
+      name: preset.name,
+      configVersion: preset.configVersion ?? CONFIG_VERSION,
+      config: pickPresetConfig(preset.config),
+    })),
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+};
+
+/**
+ * Read a file written by serializePresets. A single bare preset object is
+ * accepted too, so hand-written brand files stay short.
+ */
+export const parsePresetFile = (text: string): Preset[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+  if (!raw || typeof raw !== "object") throw new Error("Preset file is empty");
+
+  const file = raw as Partial<PresetFile> & Partial<Preset>;
+  if (file.textcuts === FILE_MARKER && Number(file.version) > FILE_FORMAT_VERSION) {
+    throw new Error("These presets were written by a newer version of TextCuts");
+  }
+
+  const entries = Array.isArray(file.presets) ? file.presets : [file];
+  const presets = entries
+    .filter((entry) => entry?.config && typeof entry.config === "object")
+    .map((entry) => ({
+      id: "",
+      name: toPresetName(entry.name),
+      config: pickPresetConfig(entry.config),
+      // Hand-written entries without a version are read as current.
+      configVersion:
+        typeof entry.configVersion === "number" ? entry.configVersion : CONFIG_VERSION,
+    }))
+    .filter((preset) => Object.keys(preset.config).length > 0);
+
+  if (presets.length === 0) throw new Error("Preset file contains no presets");
+  return presets;
+};
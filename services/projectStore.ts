@@ -0,0 +1,152 @@
+/**
+ * [INPUT]: 依赖 ../utils/indexedDb 的 runTransaction / promisifyRequest，依赖 ./imageStore 的图片存取与清理，
+ *          依赖 ../types 的 Project/ProjectSummary
+ * [OUTPUT]: 对外提供 listProjects() / loadProject(id) / saveProject(project) / createProjectRecord(seed) /
+ *           duplicateProject(id) / renameProject(id, name) / deleteProject(id) / compactProjectImages() /
+ *           readActiveProjectId() / writeActiveProjectId(id) / DEFAULT_PROJECT_NAME
+ * [POS]: services/ 的多项目文档库；每个项目 = 原文 + CardConfig + 卡片（含裁切配置）+ 生成签名 + 时间戳，
+ *        存于 IndexedDB 的 projects store，卡片图片另存 images store 只留引用；当前项目 id 记在 localStorage，供刷新后恢复
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { Project, ProjectSummary } from "../types";
+import { promisifyRequest, runTransaction } from "../utils/indexedDb";
+import {
+  collectImageRefs,
+  collectTextImageRefs,
+  pruneUnusedImages,
+  restoreCardImages,
+  stashCardImages,
+} from "./imageStore";
+
+const STORE = "projects";
+const ACTIVE_PROJECT_KEY = "textcuts_active_project";
+export const DEFAULT_PROJECT_NAME = "Untitled Project";
+
+const createProjectId = () =>
+  `project_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  cardCount: project.cards.length,
+});
+
+// ── Active project pointer ──────────────────────────────────
+
+export const readActiveProjectId = () => {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const writeActiveProjectId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    // Storage can be unavailable in private windows; the workspace still works in memory.
+  }
+};
+
+// ── CRUD ────────────────────────────────────────────────────
+
+export const createProjectRecord = (
+  seed: Pick<Project, "inputText" | "config" | "configVersion" | "cards"> &
+    Partial<Pick<Project, "lastGeneratedCapacitySignature" | "hasCardEditsSinceGenerate">> & {
+      name?: string;
+    },
+): Project => {
+  const now = Date.now();
+  return {
+    lastGeneratedCapacitySignature: null,
+    hasCardEditsSinceGenerate: false,
+    ...seed,
+    id: createProjectId(),
+    name: seed.name?.trim() || DEFAULT_PROJECT_NAME,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/** Newest first. */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runTransaction(STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll()),
+  );
+  return (projects as Project[])
+    .map(toSummary)
+    .sort((left, right) => right.updatedAt - left.updatedAt);
+};
+
+/** Loads the project with its card images resolved back to data URLs. */
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const project = (await runTransaction(STORE, "readonly", (store) =>
+    promisifyRequest(store.get(id)),
+  )) as Project | undefined;
+  if (!project) return null;
+
+  return { ...project, cards: await restoreCardImages(project.cards) };
+};
+
+export const saveProject = async (project: Project) => {
+  // Stash images first: IndexedDB transactions cannot stay open across hashing.
+  const cards = await stashCardImages(project.cards);
+  await runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.put({ ...project, cards }));
+  });
+};
+
+export const duplicateProject = async (id: string): Promise<Project | null> => {
+  const source = await loadProject(id);
+  if (!source) return null;
+
+  const copy = createProjectRecord({
+    name: `${source.name} Copy`,
+    inputText: source.inputText,
+    config: source.config,
+    configVersion: source.configVersion,
+    cards: source.cards,
+    lastGeneratedCapacitySignature: source.lastGeneratedCapacitySignature,
+    hasCardEditsSinceGenerate: source.hasCardEditsSinceGenerate,
+  });
+  await saveProject(copy);
+  return copy;
+};
+
+export const renameProject = (id: string, name: string) =>
+  runTransaction(STORE, "readwrite", async (store) => {
+    const project = (await promisifyRequest(store.get(id))) as Project | undefined;
+    if (!project) return;
+    await promisifyRequest(
+      store.put({
+        ...project,
+        name: name.trim() || DEFAULT_PROJECT_NAME,
+        updatedAt: Date.now(),
+      }),
+    );
+  });
+
+export const deleteProject = async (id: string) => {
+  await runTransaction(STORE, "readwrite", async (store) => {
+    await promisifyRequest(store.delete(id));
+  });
+  await compactProjectImages();
+};
+
+/** Drop stored images no project references any more, from its cards or its imported source text. */
+export const compactProjectImages = async () => {
+  const projects = (await runTransaction(STORE, "readonly", (store) =>
+    promisifyRequest(store.getAll()),
+  )) as Project[];
+
+  const referenced = new Set<string>();
+  projects.forEach((project) => {
+    collectImageRefs(project.cards).forEach((key) => referenced.add(key));
+    collectTextImageRefs(project.inputText).forEach((key) => referenced.add(key));
+  });
+  await pruneUnusedImages(referenced);
+};
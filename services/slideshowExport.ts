@@ -0,0 +1,312 @@
+/**
+ * [INPUT]: 依赖 ./cardExport 的 captureCardElement / loadImage / createRoundedRectPath，
+ *          依赖 ../utils/gifWriter 的 createGifEncoder，依赖 ../utils/gradientBackground 的 renderGradientBackgroundFrame，
+ *          依赖 ../types 的 CardSegment/ExportSettings/GradientBackgroundConfig/SlideshowFormat
+ * [OUTPUT]: 对外提供 exportDeckSlideshow(options): Promise<Blob> / isSlideshowFormatSupported(format) /
+ *           getSlideshowExtension(format)
+ * [POS]: services/ 的幻灯片视频导出；每张卡先走与单卡导出相同的 toPng 管线捕获一次，
+ *        再在 canvas 上按时间轴合成（停留 + slide / fade 过渡，缓动与轮播吸附一致），
+ *        WebM / MP4 由 MediaRecorder 实时录制，GIF 逐帧离线编码；可选让编辑风渐变背景随时间流动
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import {
+  CardSegment,
+  ExportSettings,
+  GradientBackgroundConfig,
+  SlideshowFormat,
+} from "../types";
+import { createGifEncoder } from "../utils/gifWriter";
+import { renderGradientBackgroundFrame } from "../utils/gradientBackground";
+import {
+  captureCardElement,
+  createRoundedRectPath,
+  loadImage,
+  type DeckExportProgress,
+} from "./cardExport";
+
+const VIDEO_FPS = 30;
+const VIDEO_MAX_EDGE = 1920;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+const GIF_FPS = 12;
+const GIF_MAX_WIDTH = 540;
+const TRANSITION_MS = 420; // Matches the carousel's longest snap landing
+const BACKDROP_COLOR = "#ffffff";
+
+// Gradient drift: shader time per second, plus a slow breathing of `warp`.
+const GRADIENT_TIME_PER_SECOND = 0.35;
+const GRADIENT_WARP_AMPLITUDE = 8;
+const GRADIENT_WARP_PERIOD_MS = 6000;
+
+const VIDEO_MIME_TYPES: Record<Exclude<SlideshowFormat, "gif">, string[]> = {
+  webm: ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"],
+  mp4: ["video/mp4;codecs=avc1.42E01E", "video/mp4"],
+};
+
+const getVideoMimeType = (format: Exclude<SlideshowFormat, "gif">) =>
+  typeof MediaRecorder === "undefined"
+    ? null
+    : VIDEO_MIME_TYPES[format].find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const isSlideshowFormatSupported = (format: SlideshowFormat) =>
+  format === "gif" || getVideoMimeType(format) !== null;
+
+export const getSlideshowExtension = (format: SlideshowFormat) => format;
+
+// Same curve as the carousel's snap landing.
+const easeOutCubic = (progress: number) => 1 - Math.pow(1 - progress, 3);
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+type Slide = {
+  image: HTMLImageElement;
+  animatedBackground: boolean;
+};
+
+type Timeline = {
+  holdMs: number;
+  transitionMs: number;
+  totalMs: number;
+};
+
+const createTimeline = (count: number, settings: ExportSettings): Timeline => {
+  const holdMs = settings.slideshow.secondsPerCard * 1000;
+  const transitionMs =
+    settings.slideshow.transition === "none" ? 0 : Math.min(TRANSITION_MS, holdMs / 2);
+  return { holdMs, transitionMs, totalMs: count * holdMs };
+};
+
+/** Which card is on screen at `time`, and how far into the hand-off to the next one. */
+const locateFrame = (time: number, count: number, timeline: Timeline) => {
+  const index = Math.min(count - 1, Math.floor(time / timeline.holdMs));
+  const local = time - index * timeline.holdMs;
+  const transitionStart = timeline.holdMs - timeline.transitionMs;
+  const progress =
+    timeline.transitionMs > 0 && index < count - 1 && local >= transitionStart
+      ? Math.min(1, (local - transitionStart) / timeline.transitionMs)
+      : null;
+  return { index, progress };
+};
+
+/**
+ * Frame timestamps for offline encoding. Still holds collapse into a single
+ * long frame; animated backgrounds and transitions are sampled at GIF_FPS.
+ */
+const buildFrameTimes = (slides: Slide[], timeline: Timeline) => {
+  const step = 1000 / GIF_FPS;
+  const times: number[] = [];
+  slides.forEach((slide, index) => {
+    const start = index * timeline.holdMs;
+    const end = start + timeline.holdMs;
+    const transitionStart =
+      index < slides.length - 1 ? end - timeline.transitionMs : end;
+
+    if (slide.animatedBackground) {
+      for (let time = start; time < transitionStart; time += step) times.push(time);
+    } else {
+      times.push(start);
+    }
+    for (let time = transitionStart; time < end; time += step) times.push(time);
+  });
+  return times;
+};
+
+const getFrameSize = (el: HTMLElement, settings: ExportSettings) => {
+  const cssWidth = el.offsetWidth;
+  const cssHeight = el.offsetHeight;
+  const requestedWidth =
+    settings.sizeMode === "width"
+      ? settings.targetWidth
+      : Math.round(cssWidth * settings.pixelRatio);
+  const requestedHeight = (requestedWidth * cssHeight) / cssWidth;
+  const limit =
+    settings.slideshow.format === "gif"
+      ? GIF_MAX_WIDTH / requestedWidth
+      : VIDEO_MAX_EDGE / Math.max(requestedWidth, requestedHeight);
+  const scale = Math.min(1, limit);
+  const width = toEven(requestedWidth * scale);
+  const height = toEven(requestedHeight * scale);
+  const borderRadius =
+    (Number.parseFloat(window.getComputedStyle(el).borderTopLeftRadius) || 0) *
+    (width / cssWidth);
+  return { cssWidth, cssHeight, width, height, borderRadius };
+};
+
+// ── Public API ──────────────────────────────────────────────
+
+/**
+ * Capture every card once, then play them back as a slideshow: WebM / MP4
+ * record in real time through MediaRecorder, GIF encodes frame by frame.
+ * Progress counts captures first, then cards played back.
+ */
+export const exportDeckSlideshow = async ({
+  cards,
+  getElement,
+  settings,
+  gradientBackground,
+  signal,
+  onProgress,
+}: {
+  cards: CardSegment[];
+  getElement: (index: number) => HTMLElement | null;
+  settings: ExportSettings;
+  /** The deck's editorial gradient; required for `animateBackground`. */
+  gradientBackground?: GradientBackgroundConfig | null;
+  signal?: AbortSignal;
+  onProgress?: (progress: DeckExportProgress) => void;
+}): Promise<Blob> => {
+  const { format } = settings.slideshow;
+  const mimeType = format === "gif" ? "image/gif" : getVideoMimeType(format);
+  if (!mimeType) {
+    throw new Error(`This browser cannot record ${format.toUpperCase()} video`);
+  }
+
+  const firstElement = getElement(0);
+  if (!firstElement) throw new Error("Card 1 is not rendered");
+  const frame = getFrameSize(firstElement, settings);
+  const total = cards.length * 2;
+  onProgress?.({ completed: 0, total });
+
+  const animate = settings.slideshow.animateBackground && !!gradientBackground;
+  const slides: Slide[] = [];
+  for (let index = 0; index < cards.length; index += 1) {
+    signal?.throwIfAborted();
+    const el = getElement(index);
+    if (!el) throw new Error(`Card ${index + 1} is not rendered`);
+
+    const animatedBackground =
+      animate && !!el.querySelector('[data-export-layer="background"]');
+    const dataUrl = await captureCardElement(
+      el,
+      {
+        format: "png",
+        quality: settings.quality,
+        sizeMode: "width",
+        pixelRatio: 1,
+        targetWidth: frame.width,
+      },
+      { omitBackgroundLayer: animatedBackground },
+    );
+    slides.push({ image: await loadImage(dataUrl), animatedBackground });
+    onProgress?.({ completed: index + 1, total });
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const context = canvas.getContext("2d", { willReadFrequently: format === "gif" });
+  if (!context) {
+    throw new Error("Failed to create slideshow canvas");
+  }
+
+  const timeline = createTimeline(slides.length, settings);
+  const gradientCanvas = document.createElement("canvas");
+  let gradientTime: number | null = null;
+
+  const drawGradient = (time: number) => {
+    if (!gradientBackground || gradientTime === time) return;
+    const phase = (time / GRADIENT_WARP_PERIOD_MS) * Math.PI * 2;
+    const warp = gradientBackground.warp + Math.sin(phase) * GRADIENT_WARP_AMPLITUDE;
+    renderGradientBackgroundFrame(
+      gradientCanvas,
+      { ...gradientBackground, warp: Math.min(100, Math.max(0, warp)) },
+      frame.cssWidth,
+      frame.cssHeight,
+      (time / 1000) * GRADIENT_TIME_PER_SECOND,
+    );
+    gradientTime = time;
+  };
+
+  const drawSlide = (slide: Slide, time: number, offsetX: number, alpha: number) => {
+    context.save();
+    context.globalAlpha = alpha;
+    context.translate(offsetX, 0);
+    if (slide.animatedBackground) {
+      drawGradient(time);
+      createRoundedRectPath(context, frame.width, frame.height, frame.borderRadius);
+      context.clip();
+      context.drawImage(gradientCanvas, 0, 0, frame.width, frame.height);
+    }
+    context.drawImage(slide.image, 0, 0, frame.width, frame.height);
+    context.restore();
+  };
+
+  const drawFrame = (time: number) => {
+    const { index, progress } = locateFrame(time, slides.length, timeline);
+    context.globalAlpha = 1;
+    context.fillStyle = BACKDROP_COLOR;
+    context.fillRect(0, 0, frame.width, frame.height);
+
+    if (progress === null) {
+      drawSlide(slides[index], time, 0, 1);
+    } else if (settings.slideshow.transition === "slide") {
+      const offset = easeOutCubic(progress) * frame.width;
+      drawSlide(slides[index], time, -offset, 1);
+      drawSlide(slides[index + 1], time, frame.width - offset, 1);
+    } else {
+      drawSlide(slides[index], time, 0, 1);
+      drawSlide(slides[index + 1], time, 0, progress);
+    }
+    onProgress?.({
+      completed: slides.length + Math.min(slides.length, Math.floor(time / timeline.holdMs)),
+      total,
+    });
+  };
+
+  if (format === "gif") {
+    const encoder = createGifEncoder({ width: frame.width, height: frame.height });
+    const times = buildFrameTimes(slides, timeline);
+    for (let index = 0; index < times.length; index += 1) {
+      signal?.throwIfAborted();
+      drawFrame(times[index]);
+      const next = times[index + 1] ?? timeline.totalMs;
+      encoder.addFrame(
+        context.getImageData(0, 0, frame.width, frame.height).data,
+        next - times[index],
+      );
+      // Yield so progress paints and Cancel stays clickable.
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    onProgress?.({ completed: total, total });
+    return encoder.finish();
+  }
+
+  const stream = canvas.captureStream(VIDEO_FPS);
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  drawFrame(0);
+  recorder.start(1000);
+  try {
+    // Recording is real time: the canvas is redrawn every animation frame.
+    await new Promise<void>((resolve, reject) => {
+      const startedAt = performance.now();
+      const tick = () => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        const elapsed = performance.now() - startedAt;
+        drawFrame(Math.min(elapsed, timeline.totalMs - 1));
+        if (elapsed >= timeline.totalMs) resolve();
+        else requestAnimationFrame(tick);
+      };
+      requestAnimationFrame(tick);
+    });
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach((track) => track.stop());
+    await stopped;
+  }
+
+  onProgress?.({ completed: total, total });
+  return new Blob(chunks, { type: mimeType.split(";")[0] });
+};
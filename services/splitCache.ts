@@ -0,0 +1,159 @@
+/**
+ * [INPUT]: 依赖 ../utils/indexedDb 的 runTransaction / promisifyRequest，
+ *          依赖 ../utils/cardCapacity 的 getCapacitySignature，依赖 ../utils/contentHash 的 hashString，依赖 ./llmProviders 的 resolveProviderModel，
+ *          依赖 ../types 的 CardConfig/CardSegment/FidelityReport
+ * [OUTPUT]: 对外提供 readCachedSplit(text, config) / writeCachedSplit(text, config, result) /
+ *           clearSplitCache() / getSplitCacheStats() / SplitCacheStats 类型
+ * [POS]: services/ 的切分结果缓存；键 = 规范化原文 + 容量签名 + 供应商/模型 的哈希，
+ *        存于 IndexedDB，按 lastAccessedAt 做 LRU 淘汰；任何 IndexedDB 故障都退化为"未命中"
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardConfig, CardSegment, FidelityReport } from "../types";
+import { getCapacitySignature } from "../utils/cardCapacity";
+import { hashString } from "../utils/contentHash";
+import { promisifyRequest, runTransaction } from "../utils/indexedDb";
+import { resolveProviderModel } from "./llmProviders";
+
+const STORE = "splitCache";
+const MAX_CACHE_ENTRIES = 120;
+const MAX_CACHE_BYTES = 12 * 1024 * 1024;
+
+type CacheConfig = Pick<
+  CardConfig,
+  "aspectRatio" | "fontSize" | "cardScale" | "safeAreaInset" | "aiProvider"
+>;
+
+type SplitCacheEntry = {
+  key: string;
+  segments: CardSegment[];
+  fidelity: FidelityReport;
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+};
+
+export interface SplitCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// ── Keys ────────────────────────────────────────────────────
+
+const normalizeSourceText = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/\s+$/, ""))
+    .join("\n")
+    .trim();
+
+const buildCacheKey = (text: string, config: CacheConfig) =>
+  hashString(
+    JSON.stringify([
+      normalizeSourceText(text),
+      getCapacitySignature(config),
+      config.aiProvider?.id ?? "gemini",
+      resolveProviderModel(config.aiProvider),
+      config.aiProvider?.baseUrl?.trim() ?? "",
+    ]),
+  );
+
+// ── Eviction ────────────────────────────────────────────────
+
+const evictLeastRecentlyUsed = (store: IDBObjectStore) =>
+  new Promise<void>((resolve, reject) => {
+    const request = store.index("lastAccessedAt").openCursor(null, "prev");
+    let keptEntries = 0;
+    let keptBytes = 0;
+
+    // Walk newest → oldest; everything past the caps gets dropped.
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+
+      const entry = cursor.value as SplitCacheEntry;
+      keptEntries += 1;
+      keptBytes += entry.size;
+      if (keptEntries > MAX_CACHE_ENTRIES || keptBytes > MAX_CACHE_BYTES) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+// ── Public API ──────────────────────────────────────────────
+
+export const readCachedSplit = async (
+  text: string,
+  config: CacheConfig,
+): Promise<{ segments: CardSegment[]; fidelity: FidelityReport } | null> => {
+  try {
+    const key = await buildCacheKey(text, config);
+    return await runTransaction(STORE, "readwrite", async (store) => {
+      const entry = (await promisifyRequest(store.get(key))) as
+        | SplitCacheEntry
+        | undefined;
+      if (!entry) return null;
+
+      store.put({ ...entry, lastAccessedAt: Date.now() });
+      return { segments: entry.segments, fidelity: entry.fidelity };
+    });
+  } catch (error) {
+    console.error("Split cache read failed:", error);
+    return null;
+  }
+};
+
+export const writeCachedSplit = async (
+  text: string,
+  config: CacheConfig,
+  result: { segments: CardSegment[]; fidelity: FidelityReport },
+) => {
+  try {
+    const key = await buildCacheKey(text, config);
+    const now = Date.now();
+    const payload = { segments: result.segments, fidelity: result.fidelity };
+    const entry: SplitCacheEntry = {
+      key,
+      ...payload,
+      size: JSON.stringify(payload).length,
+      createdAt: now,
+      lastAccessedAt: now,
+    };
+
+    await runTransaction(STORE, "readwrite", async (store) => {
+      await promisifyRequest(store.put(entry));
+      await evictLeastRecentlyUsed(store);
+    });
+  } catch (error) {
+    console.error("Split cache write failed:", error);
+  }
+};
+
+export const clearSplitCache = async () => {
+  try {
+    await runTransaction(STORE, "readwrite", (store) =>
+      promisifyRequest(store.clear()),
+    );
+  } catch (error) {
+    console.error("Split cache clear failed:", error);
+  }
+};
+
+export const getSplitCacheStats = async (): Promise<SplitCacheStats> => {
+  try {
+    const entries = await runTransaction(STORE, "readonly", (store) =>
+      promisifyRequest(store.getAll()),
+    );
+    return {
+      entries: entries.length,
+      bytes: (entries as SplitCacheEntry[]).reduce((sum, entry) => sum + entry.size, 0),
+    };
+  } catch {
+    return { entries: 0, bytes: 0 };
+  }
+};
@@ -1,8 +1,11 @@
 /**
  * [INPUT]: 无外部依赖（纯类型声明文件）
- * [OUTPUT]: 对外提供所有共享枚举与接口：FontStyle / AspectRatio / Colorway / BackgroundStyle /
- *           Composition / GradientType / WarpShape / GradientBackgroundConfig / CardConfig /
- *           ImageConfig / CardSegment / SplitResponse / Preset / ImageAspectRatio
+ * [OUTPUT]: 对外提供所有共享枚举与接口：FontStyle / AspectRatio / Colorway / ThemeTone / ThemeTokens / BackgroundStyle /
+ *           Composition / BuiltInComposition / CompositionOptionValue / GradientType / WarpShape / GradientBackgroundConfig / CardConfig /
+ *           ImageConfig / CardSegment / SplitResponse / Preset / CustomFont / CustomFontFormat / ImageAspectRatio /
+ *           AiProviderId / AiProviderConfig / SplitMode / FidelityIssueKind / FidelityIssue / FidelityReport /
+ *           Project / ProjectSummary / ExportProfile / ExportFormat / ExportSizeMode / ExportSettings /
+ *           SlideshowFormat / SlideshowTransition / SlideshowSettings
  * [POS]: 全项目类型系统的单一真相源，被所有业务模块引用；禁止在此处放置运行时逻辑
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
@@ -16,14 +19,33 @@ export enum FontStyle {
 
 export enum AspectRatio {
   PORTRAIT = '3:4',
+  FEED = '4:5',
   SQUARE = '1:1',
   WIDE = '16:9',
+  STORY = '9:16',
 }
 
-export type Colorway = 'snow' | 'neon';
+// 'custom' reads its tokens from CardConfig.theme; the built-ins derive theirs in utils/themeTokens.
+export type Colorway = 'snow' | 'neon' | 'custom';
+export type ThemeTone = 'light' | 'dark';
+
+export interface ThemeTokens {
+  tone: ThemeTone;          // Picks shadows, glows and blend modes
+  surface: string;          // Card background (mirrors CardConfig.backgroundColor)
+  text: string;             // Body text (mirrors CardConfig.textColor)
+  muted: string;            // Secondary text: meta lines, captions, code headers
+  border: string;           // Hairlines, chrome borders, code block frames
+  subtle: string;           // Faint fills: footers, quotes, inline code, grid rules
+  codeBackground: string;
+  mermaidNode: string;      // Diagram node fill
+  mermaidEdge: string;      // Diagram edges and arrowheads
+}
 export type BackgroundStyle = 'none' | 'grid' | 'gradient';
 
-export type Composition = 'classic' | 'technical' | 'editorial';
+export type BuiltInComposition = 'classic' | 'technical' | 'editorial' | 'quote';
+// Any id registered in utils/compositionRegistry; the built-ins stay autocompleted.
+export type Composition = BuiltInComposition | (string & {});
+export type CompositionOptionValue = number | string | boolean;
 export type ImageAspectRatio = '1:1' | '4:3' | '16:9' | '3:4' | '21:9' | '9:21' | '9:16';
 export type GradientType =
   | 'simple'
@@ -47,6 +69,15 @@ export type WarpShape =
   | 'flat'
   | 'gravity';
 
+export type AiProviderId = 'gemini' | 'openai' | 'anthropic' | 'local';
+export type SplitMode = 'ai' | 'local';
+
+export interface AiProviderConfig {
+  id: AiProviderId;
+  model?: string;   // Empty → provider default model
+  baseUrl?: string; // OpenAI-compatible / local endpoints only
+}
+
 export interface GradientControlPoint {
   x: number;
   y: number;
@@ -66,25 +97,34 @@ export interface GradientBackgroundConfig {
 export interface CardConfig {
   // Visuals
   colorway: Colorway;
+  theme?: ThemeTokens;          // Custom colorway tokens; only read when colorway is 'custom'
   backgroundStyle: BackgroundStyle;
   backgroundColor: string;
   gradientBackground?: GradientBackgroundConfig;
   textColor: string;
   accentColor: string;
   fontStyle: FontStyle;
+  titleFont?: string;           // FontStyle value or CustomFont id; unset follows fontStyle
+  bodyFont?: string;            // Same, for body text and card chrome
   composition: Composition;
+  compositionOptions?: Record<string, Record<string, CompositionOptionValue>>; // Per composition id, per option key
   
   // Dimensions
   aspectRatio: AspectRatio;
   fontSize: number;
   cardScale: number;
   editorialTitleScale: number; // 0.6–1.6, multiplier for editorial title font size
+  safeAreaInset?: number;      // 0–0.12 of card width kept clear on every edge (platform UI overlays)
 
   // Content
   showMetadata: boolean;
   authorName: string;
   authorAvatar?: string; // Image URL or Base64 data URL for author avatar
   title: string;
+
+  // Splitting
+  splitMode?: SplitMode;        // 'local' → deterministic offline splitter, no network
+  aiProvider?: AiProviderConfig;
 }
 
 export interface ImageConfig {
@@ -109,6 +149,8 @@ export interface CardSegment {
   imageConfig?: ImageConfig;
   editorialBrandLabel?: string; // Custom brand name override for editorial Cover
   editorialBadgeText?: string;  // Custom theme tag override for editorial Cover (e.g. "Design")
+  breakBefore?: boolean;        // Starts at a manual `---card---` / `<!-- card -->` break; never merged into the previous card
+  locked?: boolean;             // Hand-tuned: automatic splits, merges and capacity regeneration leave it as is
 }
 
 export interface SplitResponse {
@@ -116,8 +158,85 @@ export interface SplitResponse {
   themeTag?: string;
 }
 
+export type FidelityIssueKind = 'missing' | 'duplicated' | 'altered';
+
+export interface FidelityIssue {
+  kind: FidelityIssueKind;
+  text: string;      // Source sentence (missing / altered) or the dropped card sentence (duplicated)
+  cardIndex: number; // Card the repair landed on
+}
+
+export interface FidelityReport {
+  sourceSentenceCount: number;
+  matchedSentenceCount: number;
+  issues: FidelityIssue[]; // Every issue listed here has already been repaired
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  inputText: string;
+  config: CardConfig;
+  configVersion: number; // CONFIG_VERSION at save time, fed to migrateConfig on load
+  cards: CardSegment[];
+  lastGeneratedCapacitySignature?: string | null; // Capacity the deck was generated for; drives the regen prompt
+  hasCardEditsSinceGenerate?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt'> & {
+  cardCount: number;
+};
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  aspectRatio: AspectRatio;
+  width: number;  // Output pixels
+  height: number;
+  safeAreaInset: number;
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
+export type ExportSizeMode = 'pixelRatio' | 'width';
+
+export type SlideshowFormat = 'webm' | 'mp4' | 'gif';
+
+export type SlideshowTransition = 'slide' | 'fade' | 'none';
+
+export interface SlideshowSettings {
+  format: SlideshowFormat;
+  secondsPerCard: number;     // Time each card is on screen, transition included
+  transition: SlideshowTransition;
+  animateBackground: boolean; // Drift the editorial gradient over time (gradient backgrounds only)
+}
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number;        // 0.5–1, JPEG / WebP only
+  sizeMode: ExportSizeMode;
+  pixelRatio: number;     // Used when sizeMode = 'pixelRatio'
+  targetWidth: number;    // Exact output width in px when sizeMode = 'width'; height follows the card ratio
+  includeManifest: boolean; // Add manifest.json (titles + text per card) to batch ZIPs
+  slideshow: SlideshowSettings;
+}
+
+export type CustomFontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2';
+
+export interface CustomFont {
+  id: string;
+  name: string;             // Shown in the font pickers; the file name without extension
+  format: CustomFontFormat;
+  dataUrl: string;          // Registered through the FontFace API and inlined into exports
+  createdAt: number;
+}
+
 export interface Preset {
   id: string;
   name: string;
   config: Partial<CardConfig>;
+  configVersion?: number; // CONFIG_VERSION the config was saved under; applied through migrateConfig
+  updatedAt?: number;
 }
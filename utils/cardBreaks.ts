@@ -0,0 +1,103 @@
+/**
+ * [INPUT]: 无外部依赖（纯字符串处理）
+ * [OUTPUT]: 对外提供 isCardBreakLine(line) / hasCardBreakMarkers(text) / splitSourceSections(text): SourceSection[] /
+ *           stripCardBreakMarkers(text) / readSectionCover(text) / SourceSection 类型
+ * [POS]: utils/ 的手动分卡标记解析；原文里独占一行的 `---card---` / `<!-- card -->` 是硬分卡点，
+ *        `<!-- cover -->` 另起一张封面卡（其后第一行作标题）；代码围栏内的同形文本不算标记。
+ *        geminiService / offlineSplitter 按 section 切分，App 的溢出 / 欠填归一化不跨越 CardSegment.breakBefore
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+const CARD_BREAK_PATTERN = /^[ \t]*(?:-{3}\s*card\s*-{3}|<!--\s*card\s*-->)[ \t]*$/i;
+const COVER_BREAK_PATTERN = /^[ \t]*<!--\s*cover\s*-->[ \t]*$/i;
+const FENCE_PATTERN = /^[ \t]*(```|~~~)/;
+
+export interface SourceSection {
+  text: string;
+  /** Opened by `<!-- cover -->`: the first line is a cover card title. */
+  cover: boolean;
+}
+
+export const isCardBreakLine = (line: string) =>
+  CARD_BREAK_PATTERN.test(line) || COVER_BREAK_PATTERN.test(line);
+
+/** Visit each line with whether it sits inside a fenced code block. */
+const forEachSourceLine = (
+  text: string,
+  visit: (line: string, insideFence: boolean) => void,
+) => {
+  let openFence: string | null = null;
+  text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .forEach((line) => {
+      const fence = line.match(FENCE_PATTERN)?.[1] ?? null;
+      if (openFence) {
+        visit(line, true);
+        if (fence === openFence) openFence = null;
+        return;
+      }
+      if (fence) openFence = fence;
+      visit(line, !!fence);
+    });
+};
+
+export const hasCardBreakMarkers = (text: string) => {
+  let found = false;
+  forEachSourceLine(text, (line, insideFence) => {
+    if (!insideFence && isCardBreakLine(line)) found = true;
+  });
+  return found;
+};
+
+/**
+ * Cut the source at every break marker. Empty sections are dropped, so
+ * doubled or leading markers never produce empty cards.
+ */
+export const splitSourceSections = (text: string): SourceSection[] => {
+  const sections: SourceSection[] = [];
+  let lines: string[] = [];
+  let cover = false;
+
+  const flush = () => {
+    const sectionText = lines.join("\n").trim();
+    if (sectionText) sections.push({ text: sectionText, cover });
+    lines = [];
+  };
+
+  forEachSourceLine(text, (line, insideFence) => {
+    if (insideFence || !isCardBreakLine(line)) {
+      lines.push(line);
+      return;
+    }
+    flush();
+    cover = COVER_BREAK_PATTERN.test(line);
+  });
+  flush();
+  return sections;
+};
+
+/** A cover section's title (its first line, without heading markers) and the body after it. */
+export const readSectionCover = (text: string) => {
+  const [firstLine, ...rest] = text.trim().split("\n");
+  return {
+    titleLine: firstLine,
+    title: firstLine.replace(/^#{1,6}\s+/, "").replace(/[*_`]/g, "").trim(),
+    body: rest.join("\n").trim(),
+  };
+};
+
+/**
+ * The source as splitters and the fidelity check should read it: no markers,
+ * and cover titles on their own block so they count as headings.
+ */
+export const stripCardBreakMarkers = (text: string) => {
+  if (!hasCardBreakMarkers(text)) return text;
+  return splitSourceSections(text)
+    .map((section) => {
+      if (!section.cover) return section.text;
+      const { titleLine, body } = readSectionCover(section.text);
+      return body ? `${titleLine}\n\n${body}` : titleLine;
+    })
+    .join("\n\n");
+};
@@ -0,0 +1,90 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/AspectRatio
+ * [OUTPUT]: 对外提供 getCapacityGuide(config) / estimateSegmentOccupancy(text, capacity) / getCapacitySignature(config) / CapacityGuide 类型
+ * [POS]: utils/ 的卡片容量模型；把画幅、字号、卡片缩放、安全边距折算为"每卡可容纳的词数 / CJK 字数"，
+ *        并以此估算任意文本的占用率；被 services/geminiService、services/offlineSplitter、
+ *        services/splitCache 与 App.tsx 共享
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardConfig, AspectRatio } from "../types";
+
+// Relative text area per aspect ratio at the same card scale (3:4 = 1).
+const ASPECT_MULTIPLIERS: Record<AspectRatio, number> = {
+  [AspectRatio.PORTRAIT]: 1,
+  [AspectRatio.FEED]: 1.05,
+  [AspectRatio.SQUARE]: 1.15,
+  [AspectRatio.WIDE]: 1.35,
+  [AspectRatio.STORY]: 0.95,
+};
+
+const getAspectRatioValue = (ratio: AspectRatio) => {
+  const [width, height] = ratio.split(":").map(Number);
+  return width / height;
+};
+
+type CapacityConfig = Pick<CardConfig, "aspectRatio" | "fontSize" | "cardScale" | "safeAreaInset">;
+
+export const getCapacityGuide = (config?: CapacityConfig) => {
+  const aspectRatio = config?.aspectRatio ?? AspectRatio.PORTRAIT;
+  const fontSize = config?.fontSize ?? 1;
+  const cardScale = config?.cardScale ?? 1;
+  const safeAreaInset = config?.safeAreaInset ?? 0;
+
+  const aspectMultiplier = ASPECT_MULTIPLIERS[aspectRatio] ?? 1;
+  // The inset is a fraction of card width on all four edges.
+  const safeAreaMultiplier =
+    (1 - 2 * safeAreaInset) *
+    Math.max(0.5, 1 - 2 * safeAreaInset * getAspectRatioValue(aspectRatio));
+  const scaleMultiplier =
+    (cardScale / 1.35) *
+    Math.pow(1.05 / Math.max(fontSize, 0.8), 0.55) *
+    safeAreaMultiplier;
+  const words = Math.max(
+    130,
+    Math.round(180 * aspectMultiplier * scaleMultiplier),
+  );
+  const cjk = Math.max(
+    240,
+    Math.round(340 * aspectMultiplier * scaleMultiplier),
+  );
+
+  return {
+    words,
+    cjk,
+    targetWordsMin: Math.max(110, Math.round(words * 0.84)),
+    targetCjkMin: Math.max(210, Math.round(cjk * 0.84)),
+    wordsRange: `${Math.max(115, words - 20)}-${words}`,
+    cjkRange: `${Math.max(220, cjk - 40)}-${cjk}`,
+  };
+};
+
+export type CapacityGuide = ReturnType<typeof getCapacityGuide>;
+
+const CJK_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uac00-\ud7af]/g;
+const WORD_PATTERN = /[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g;
+
+export const estimateSegmentOccupancy = (
+  text: string,
+  capacity: CapacityGuide,
+) => {
+  const condensed = text.trim();
+  if (!condensed) return 0;
+
+  const cjkCount = condensed.match(CJK_CHAR_PATTERN)?.length ?? 0;
+  const wordCount = condensed.match(WORD_PATTERN)?.length ?? 0;
+  const nonWhitespaceChars = condensed.replace(/\s+/g, "").length;
+
+  const cjkRatio = cjkCount / Math.max(capacity.cjk, 1);
+  const wordRatio = wordCount / Math.max(capacity.words, 1);
+  const characterRatio = nonWhitespaceChars / Math.max(capacity.cjk * 1.08, 1);
+
+  return Math.max(cjkRatio, wordRatio, characterRatio);
+};
+
+/**
+ * Stable string for everything that changes how much text fits on a card.
+ * Two configs with the same signature split the same text identically.
+ */
+export const getCapacitySignature = (config: CapacityConfig) =>
+  // The inset is only appended when set so signatures saved before it existed still match.
+  `${config.cardScale}|${config.aspectRatio}|${config.fontSize}${config.safeAreaInset ? `|${config.safeAreaInset}` : ""}`;
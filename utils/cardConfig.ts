@@ -0,0 +1,404 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/AspectRatio/FontStyle 等配置类型，依赖 ../services/llmProviders 的 DEFAULT_AI_PROVIDER，
+ *          依赖 ./gradientBackground 的 createDefaultGradientBackground，依赖 ./themeTokens 的 normalizeThemeTokens，
+ *          依赖 ./compositionRegistry 的 isRegisteredComposition / normalizeCompositionOptions
+ * [OUTPUT]: 对外提供 CONFIG_VERSION / createDefaultConfig() / migrateConfig(raw, defaults, savedVersion) /
+ *           PRESET_CONFIG_KEYS / pickPresetConfig(config) / applyPresetConfig(current, preset) /
+ *           getCardWidth(ratio, scale) / getCardHeight(ratio, scale) /
+ *           createGradientBackgroundForConfig(config)
+ * [POS]: utils/ 的卡片配置契约；默认值、旧版本迁移、字段校验与卡片像素尺寸只在这里定义一次，
+ *        App.tsx 与无界面渲染入口（components/RenderHost + cli/）共用，保证两边读到的 CardConfig 完全一致；
+ *        预设只保存外观与作者字段，应用时按保存时的 configVersion 走同一条 migrateConfig 升级路径
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import {
+  AiProviderConfig,
+  AiProviderId,
+  AspectRatio,
+  BackgroundStyle,
+  CardConfig,
+  FontStyle,
+  Preset,
+  GradientBackgroundConfig,
+  GradientType,
+  SplitMode,
+  WarpShape,
+} from "../types";
+import { DEFAULT_AI_PROVIDER } from "../services/llmProviders";
+import { createDefaultGradientBackground } from "./gradientBackground";
+import { normalizeThemeTokens } from "./themeTokens";
+import { isRegisteredComposition, normalizeCompositionOptions } from "./compositionRegistry";
+
+const VALID_ASPECT_RATIOS = new Set([
+  AspectRatio.PORTRAIT,
+  AspectRatio.FEED,
+  AspectRatio.SQUARE,
+  AspectRatio.WIDE,
+  AspectRatio.STORY,
+]);
+const VALID_COLORWAYS = new Set(["snow", "neon", "custom"]);
+const VALID_BACKGROUND_STYLES = new Set<BackgroundStyle>([
+  "none",
+  "grid",
+  "gradient",
+]);
+const VALID_FONT_STYLES = new Set([
+  FontStyle.CHILL,
+  FontStyle.OPPO,
+  FontStyle.SWEI,
+  FontStyle.SMILEY,
+]);
+const VALID_GRADIENT_TYPES = new Set<GradientType>([
+  "simple",
+  "soft-bezier",
+  "mesh-static",
+  "mesh-grid",
+  "sharp-bezier",
+]);
+const VALID_WARP_SHAPES = new Set<WarpShape>([
+  "simplex-noise",
+  "circular",
+  "value-noise",
+  "worley-noise",
+  "fbm-noise",
+  "voronoi-noise",
+  "domain-warping",
+  "waves",
+  "smooth-noise",
+  "oval",
+  "rows",
+  "columns",
+  "flat",
+  "gravity",
+]);
+const VALID_AI_PROVIDERS = new Set<AiProviderId>([
+  "gemini",
+  "openai",
+  "anthropic",
+  "local",
+]);
+const VALID_SPLIT_MODES = new Set<SplitMode>(["ai", "local"]);
+export const CONFIG_VERSION = 9;
+const DEFAULT_AUTHOR_NAME = "DAi";
+const DEFAULT_AUTHOR_AVATAR = "/avatars/dai-avatar.png";
+const CARD_BASE_WIDTHS: Record<AspectRatio, number> = {
+  [AspectRatio.PORTRAIT]: 380,
+  [AspectRatio.FEED]: 400,
+  [AspectRatio.SQUARE]: 480,
+  [AspectRatio.WIDE]: 600,
+  [AspectRatio.STORY]: 320,
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const getCardWidth = (ratio: AspectRatio, scale: number) =>
+  Math.round(CARD_BASE_WIDTHS[ratio] * scale);
+
+const getAspectRatioValue = (ratio: AspectRatio) => {
+  const [width, height] = ratio.split(":").map(Number);
+  return width / height;
+};
+
+export const getCardHeight = (ratio: AspectRatio, scale: number) =>
+  Math.round(getCardWidth(ratio, scale) / getAspectRatioValue(ratio));
+
+const normalizeGradientBackground = (
+  raw?: Partial<GradientBackgroundConfig> | null,
+) => {
+  if (!raw) return undefined;
+
+  const fallback = createDefaultGradientBackground();
+
+  const gradientType = VALID_GRADIENT_TYPES.has(raw.gradientType as GradientType)
+    ? (raw.gradientType as GradientType)
+    : "soft-bezier";
+  const warpShape = VALID_WARP_SHAPES.has(raw.warpShape as WarpShape)
+    ? (raw.warpShape as WarpShape)
+    : "smooth-noise";
+  const colors =
+    Array.isArray(raw.colors) &&
+    raw.colors.length >= 2 &&
+    raw.colors.every((color) => typeof color === "string")
+      ? raw.colors.slice(0, 10)
+      : fallback.colors;
+  const fallbackSeed =
+    typeof raw.seed === "number" && Number.isFinite(raw.seed)
+      ? raw.seed
+      : Math.floor(Math.random() * 99999);
+  const controlPoints =
+    Array.isArray(raw.controlPoints) &&
+    raw.controlPoints.length >= 2 &&
+    raw.controlPoints.every(
+      (point) =>
+        point &&
+        typeof point.x === "number" &&
+        Number.isFinite(point.x) &&
+        typeof point.y === "number" &&
+        Number.isFinite(point.y),
+    )
+      ? raw.controlPoints.slice(0, 10).map((point) => ({
+          x: clamp(point.x, 0, 1),
+          y: clamp(point.y, 0, 1),
+        }))
+      : fallback.controlPoints;
+
+  return {
+    gradientType,
+    warpShape,
+    warp:
+      typeof raw.warp === "number" && Number.isFinite(raw.warp)
+        ? clamp(raw.warp, 0, 100)
+        : 27,
+    warpSize:
+      typeof raw.warpSize === "number" && Number.isFinite(raw.warpSize)
+        ? clamp(raw.warpSize, 0, 100)
+        : 33,
+    noise:
+      typeof raw.noise === "number" && Number.isFinite(raw.noise)
+        ? clamp(raw.noise, 0, 100)
+        : 25,
+    seed: fallbackSeed,
+    colors,
+    controlPoints,
+  } satisfies GradientBackgroundConfig;
+};
+
+export const createGradientBackgroundForConfig = (config: CardConfig) =>
+  createDefaultGradientBackground({
+    backgroundColor: config.backgroundColor,
+    textColor: config.textColor,
+    accentColor: config.accentColor,
+    colorway: config.colorway,
+    theme: config.theme,
+  });
+
+const isLegacyClassicDefaultConfig = (raw: Partial<CardConfig>) =>
+  (raw.composition == null || raw.composition === "classic") &&
+  (raw.colorway == null || raw.colorway === "snow") &&
+  (raw.backgroundStyle == null || raw.backgroundStyle === "grid") &&
+  (raw.backgroundColor == null || raw.backgroundColor === "#f4f4f5") &&
+  (raw.textColor == null || raw.textColor === "#18181b") &&
+  (raw.accentColor == null || raw.accentColor === "#ea580c") &&
+  (raw.fontStyle == null || raw.fontStyle === FontStyle.SWEI) &&
+  (raw.aspectRatio == null || raw.aspectRatio === AspectRatio.PORTRAIT) &&
+  (raw.fontSize == null || raw.fontSize === 1.3) &&
+  (raw.cardScale == null || raw.cardScale === 1.35) &&
+  (raw.editorialTitleScale == null || raw.editorialTitleScale === 0.9) &&
+  (raw.showMetadata == null || raw.showMetadata === true) &&
+  (raw.title == null || raw.title === "") &&
+  (raw.authorName == null || raw.authorName === "");
+
+const isMissingAuthorIdentity = (raw: Partial<CardConfig>) =>
+  raw.authorName == null ||
+  raw.authorName.trim() === "" ||
+  raw.authorAvatar == null ||
+  raw.authorAvatar.trim() === "";
+
+export const migrateConfig = (
+  raw: Partial<CardConfig>,
+  defaults: CardConfig,
+  savedVersion: number,
+): CardConfig => {
+  if (savedVersion >= CONFIG_VERSION) {
+    return normalizeConfig(raw, defaults);
+  }
+
+  const next = { ...raw };
+
+  // Upgrade legacy defaults without stomping on deliberate user choices.
+  if (
+    raw.cardScale == null ||
+    raw.cardScale === 1.15 ||
+    raw.cardScale === 1.5
+  ) {
+    next.cardScale = defaults.cardScale;
+  }
+
+  if (raw.fontSize == null || raw.fontSize === 1.0 || raw.fontSize === 1.05) {
+    next.fontSize = defaults.fontSize;
+  }
+
+  if (raw.editorialTitleScale == null || raw.editorialTitleScale === 1.0) {
+    next.editorialTitleScale = defaults.editorialTitleScale;
+  }
+
+  if (raw.backgroundStyle == null) {
+    next.backgroundStyle = defaults.backgroundStyle;
+  }
+
+  if (isLegacyClassicDefaultConfig(raw)) {
+    next.composition = defaults.composition;
+  }
+
+  if (raw.gradientBackground == null && defaults.gradientBackground) {
+    next.gradientBackground = defaults.gradientBackground;
+  }
+
+  if (isMissingAuthorIdentity(raw)) {
+    if (raw.authorName == null || raw.authorName.trim() === "") {
+      next.authorName = defaults.authorName;
+    }
+
+    if (raw.authorAvatar == null || raw.authorAvatar.trim() === "") {
+      next.authorAvatar = defaults.authorAvatar;
+    }
+  }
+
+  return normalizeConfig(next, defaults);
+};
+
+// ── Presets ─────────────────────────────────────────────────
+
+/** The look a preset carries: never the deck title, the splitter or platform safe areas. */
+export const PRESET_CONFIG_KEYS = [
+  "composition",
+  "compositionOptions",
+  "colorway",
+  "theme",
+  "backgroundStyle",
+  "backgroundColor",
+  "textColor",
+  "accentColor",
+  "gradientBackground",
+  "fontStyle",
+  "titleFont",
+  "bodyFont",
+  "aspectRatio",
+  "fontSize",
+  "cardScale",
+  "editorialTitleScale",
+  "showMetadata",
+  "authorName",
+  "authorAvatar",
+] as const satisfies ReadonlyArray<keyof CardConfig>;
+
+export const pickPresetConfig = (config: Partial<CardConfig>): Partial<CardConfig> => {
+  const picked: Partial<CardConfig> = {};
+  PRESET_CONFIG_KEYS.forEach((key) => {
+    if (config[key] !== undefined) Object.assign(picked, { [key]: config[key] });
+  });
+  return picked;
+};
+
+/**
+ * Lay a preset over the current config. Fields the preset leaves out keep
+ * their current value; the rest get the same upgrades and validation a
+ * stored config saved under the preset's CONFIG_VERSION would.
+ */
+export const applyPresetConfig = (current: CardConfig, preset: Preset): CardConfig => {
+  const presetConfig = pickPresetConfig(preset.config);
+  const migrated = migrateConfig(presetConfig, createDefaultConfig(), preset.configVersion ?? 0);
+  const next = { ...current };
+  (Object.keys(presetConfig) as Array<keyof CardConfig>).forEach((key) => {
+    Object.assign(next, { [key]: migrated[key] });
+  });
+  return next;
+};
+
+const normalizeAiProvider = (
+  raw?: Partial<AiProviderConfig> | null,
+): AiProviderConfig => {
+  if (!raw || !VALID_AI_PROVIDERS.has(raw.id as AiProviderId)) {
+    return { ...DEFAULT_AI_PROVIDER };
+  }
+
+  const model = typeof raw.model === "string" ? raw.model.trim() : "";
+  const baseUrl = typeof raw.baseUrl === "string" ? raw.baseUrl.trim() : "";
+  return {
+    id: raw.id as AiProviderId,
+    ...(model ? { model } : {}),
+    ...(baseUrl ? { baseUrl } : {}),
+  };
+};
+
+const normalizeFontRef = (ref: unknown) =>
+  typeof ref === "string" && ref.trim() ? ref.trim() : undefined;
+
+const normalizeConfig = (
+  raw: Partial<CardConfig>,
+  defaults: CardConfig,
+): CardConfig => {
+  const merged = { ...defaults, ...raw } as CardConfig;
+  const colorway = VALID_COLORWAYS.has(merged.colorway)
+    ? merged.colorway
+    : defaults.colorway;
+  // Built-in colorways keep a stored custom theme so it can be switched back to.
+  const theme =
+    merged.theme || colorway === "custom"
+      ? normalizeThemeTokens(merged.theme, merged)
+      : undefined;
+  return {
+    ...merged,
+    composition: isRegisteredComposition(merged.composition)
+      ? merged.composition
+      : defaults.composition,
+    compositionOptions: normalizeCompositionOptions(merged.compositionOptions),
+    aspectRatio: VALID_ASPECT_RATIOS.has(merged.aspectRatio)
+      ? merged.aspectRatio
+      : defaults.aspectRatio,
+    colorway: colorway === "custom" && !theme ? defaults.colorway : colorway,
+    theme,
+    backgroundStyle: VALID_BACKGROUND_STYLES.has(merged.backgroundStyle)
+      ? merged.backgroundStyle
+      : defaults.backgroundStyle,
+    gradientBackground: normalizeGradientBackground(merged.gradientBackground),
+    splitMode: VALID_SPLIT_MODES.has(merged.splitMode as SplitMode)
+      ? merged.splitMode
+      : defaults.splitMode,
+    aiProvider: normalizeAiProvider(merged.aiProvider),
+    fontStyle: VALID_FONT_STYLES.has(merged.fontStyle)
+      ? merged.fontStyle
+      : defaults.fontStyle,
+    // Built-in names or uploaded font ids; ids missing on this device fall back at render time.
+    titleFont: normalizeFontRef(merged.titleFont),
+    bodyFont: normalizeFontRef(merged.bodyFont),
+    fontSize:
+      typeof merged.fontSize === "number" &&
+      Number.isFinite(merged.fontSize) &&
+      merged.fontSize >= 0.7 &&
+      merged.fontSize <= 1.5
+        ? merged.fontSize
+        : defaults.fontSize,
+    cardScale:
+      typeof merged.cardScale === "number" &&
+      Number.isFinite(merged.cardScale) &&
+      merged.cardScale >= 0.9 &&
+      merged.cardScale <= 1.5
+        ? merged.cardScale
+        : defaults.cardScale,
+    editorialTitleScale:
+      typeof merged.editorialTitleScale === "number" &&
+      Number.isFinite(merged.editorialTitleScale) &&
+      merged.editorialTitleScale >= 0.6 &&
+      merged.editorialTitleScale <= 1.6
+        ? merged.editorialTitleScale
+        : defaults.editorialTitleScale,
+    safeAreaInset:
+      typeof merged.safeAreaInset === "number" &&
+      Number.isFinite(merged.safeAreaInset)
+        ? clamp(merged.safeAreaInset, 0, 0.12)
+        : 0,
+  };
+};
+
+export const createDefaultConfig = (): CardConfig =>
+  ({
+    colorway: "snow",
+    backgroundStyle: "grid",
+    backgroundColor: "#f4f4f5",
+    textColor: "#18181b",
+    accentColor: "#ea580c",
+    fontStyle: FontStyle.SWEI,
+    composition: "editorial",
+    aspectRatio: AspectRatio.PORTRAIT,
+    fontSize: 1.3,
+    cardScale: 1.35,
+    editorialTitleScale: 0.9,
+    showMetadata: true,
+    title: "",
+    authorName: DEFAULT_AUTHOR_NAME,
+    authorAvatar: DEFAULT_AUTHOR_AVATAR,
+    splitMode: "ai",
+    aiProvider: { ...DEFAULT_AI_PROVIDER },
+  }) as CardConfig;
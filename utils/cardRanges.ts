@@ -0,0 +1,98 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardSegment
+ * [OUTPUT]: 对外提供 getUnlockedRanges(cards, within): CardRange[] / hasPinnedCards(cards) / joinCardRange(cards, range) /
+ *           getNeighborTitles(cards, range) / replaceCardRanges(cards, ranges, replacements) / CardRange 类型
+ * [POS]: utils/ 的卡片区间工具（纯函数）；锁定卡（CardSegment.locked）、封面，以及带图片或 editorial 覆盖字段的卡是锚点
+ *        （重切只拼回标题与正文，这些卡自带的数据无法对应到新卡上），
+ *        锚点之间的正文卡可以拼回 Markdown 原文重新切分（相邻卡标题作上下文），再按区间原位替换，锚点本身原样保留；
+ *        容量变化重切与"从此处 / 选中卡片重切"共用
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment } from "../types";
+
+/** Half-open card index range: `start` is included, `end` is not. */
+export interface CardRange {
+  start: number;
+  end: number;
+}
+
+// Re-splitting rebuilds cards from title and content only, so a card carrying
+// anything else stays put rather than losing it.
+const carriesCardData = (card: CardSegment) =>
+  Boolean(card.image || card.originalImage || card.editorialBrandLabel || card.editorialBadgeText);
+
+const isResplittable = (card: CardSegment) =>
+  card.layout !== "cover" && !card.locked && !carriesCardData(card);
+
+/** Whether any body card is an anchor, so regeneration must keep to the ranges between anchors. */
+export const hasPinnedCards = (cards: CardSegment[]) =>
+  cards.some((card) => card.layout !== "cover" && !isResplittable(card));
+
+/** Every maximal run of body cards inside `within` that are not anchors. */
+export const getUnlockedRanges = (
+  cards: CardSegment[],
+  within: CardRange = { start: 0, end: cards.length },
+): CardRange[] => {
+  const ranges: CardRange[] = [];
+  const end = Math.min(within.end, cards.length);
+  let start = -1;
+
+  for (let index = Math.max(0, within.start); index < end; index += 1) {
+    if (isResplittable(cards[index])) {
+      if (start < 0) start = index;
+      continue;
+    }
+    if (start >= 0) ranges.push({ start, end: index });
+    start = -1;
+  }
+  if (start >= 0) ranges.push({ start, end });
+  return ranges;
+};
+
+/**
+ * Rebuild splitter input from a run of cards: titles go back in as headings
+ * (once per run of equal titles) and manual breaks inside the run as markers.
+ */
+export const joinCardRange = (cards: CardSegment[], range: CardRange) => {
+  const blocks: string[] = [];
+  let previousTitle = "";
+
+  cards.slice(range.start, range.end).forEach((card, offset) => {
+    if (offset > 0 && card.breakBefore) blocks.push("---card---");
+    const title = card.title.trim();
+    if (title && title !== previousTitle) blocks.push(`## ${title}`);
+    previousTitle = title;
+    const content = card.content.trim();
+    if (content) blocks.push(content);
+  });
+  return blocks.join("\n\n");
+};
+
+/** Titles of the cards right before and after a range, as context for re-splitting it. */
+export const getNeighborTitles = (cards: CardSegment[], range: CardRange) => ({
+  previousTitle: cards[range.start - 1]?.title.trim() || undefined,
+  nextTitle: cards[range.end]?.title.trim() || undefined,
+});
+
+/**
+ * Swap each range for its replacement cards. Ranges must be sorted and
+ * disjoint; an empty replacement keeps the original cards.
+ */
+export const replaceCardRanges = (
+  cards: CardSegment[],
+  ranges: CardRange[],
+  replacements: CardSegment[][],
+) => {
+  const next = [...cards];
+  for (let index = ranges.length - 1; index >= 0; index -= 1) {
+    const { start, end } = ranges[index];
+    const replacement = replacements[index] ?? [];
+    if (replacement.length === 0) continue;
+
+    const inserted = [...replacement];
+    // A manual break before the range still separates it from its neighbour.
+    if (cards[start].breakBefore) inserted[0] = { ...inserted[0], breakBefore: true };
+    next.splice(start, end - start, ...inserted);
+  }
+  return next;
+};
@@ -0,0 +1,234 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardSegment，依赖 ./textSplit 的 hasAtomicMarkdownSyntax / isAtomicMarkdownBlock
+ * [OUTPUT]: 对外提供 planReflowStep(cards, getHandle, state) / applyOverflowSplitToCards(cards, index, split, sourceText, withId) /
+ *           mergeUnderfilledCard(cards, index, sourceText) / createReflowState() / MAX_REFLOW_PASSES /
+ *           ReflowCardHandle / ReflowSplit / ReflowState / ReflowStep 类型
+ * [POS]: utils/ 的溢出回流规则（纯函数）；每一轮先拆开第一张溢出的正文卡，没有溢出时把第一张欠填卡与下一张合并，
+ *        由调用方应用结果、等重新测量后再走下一轮；App 的归一化 effect 与 components/RenderHost（CLI）共用，
+ *        保证同样的文本与配置在应用里和命令行里得到同一组卡片
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment } from "../types";
+import { hasAtomicMarkdownSyntax, isAtomicMarkdownBlock } from "./textSplit";
+
+/** Reflow gives up after this many passes rather than oscillate forever. */
+export const MAX_REFLOW_PASSES = 48;
+
+const FLOW_FILL_THRESHOLD = 0.92; // absorb next card when below this occupancy
+// Split-off remnants shorter than this join the next card instead of standing alone.
+const SMALL_REMNANT_CHARS = 80;
+
+export interface ReflowSplit {
+  keptSegment: CardSegment;
+  movedSegment: CardSegment;
+}
+
+/** What reflow needs from a rendered card; Card's CardHandle provides it. */
+export interface ReflowCardHandle {
+  isOverflowing: () => boolean;
+  resolveOverflow: () => ReflowSplit | null;
+  getBodyOccupancy: () => number;
+}
+
+/** Carried across the passes of one reflow. */
+export interface ReflowState {
+  /** Cards whose merge split straight back; flow-fill leaves them alone. */
+  stableIndexes: Set<number>;
+  lastMergeIndex: number;
+}
+
+export type ReflowStep =
+  | { type: "split"; index: number; split: ReflowSplit }
+  | { type: "merge"; index: number }
+  /** A card overflows but cannot be split yet; measure again and retry. */
+  | { type: "wait" }
+  | { type: "done" };
+
+export const createReflowState = (): ReflowState => ({
+  stableIndexes: new Set(),
+  lastMergeIndex: -1,
+});
+
+// ── Boundaries ──────────────────────────────────────────────
+
+const normalizeSourceText = (text: string) => text.replace(/\r\n?/g, "\n");
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const getBoundarySeparatorFromSource = (
+  sourceText: string,
+  before: string,
+  after: string,
+) => {
+  const normalizedSource = normalizeSourceText(sourceText);
+  const beforeTrimmed = before.trim();
+  const afterTrimmed = after.trim();
+  if (!beforeTrimmed || !afterTrimmed) return "\n\n";
+
+  let searchFrom = 0;
+  while (searchFrom < normalizedSource.length) {
+    const beforeIndex = normalizedSource.indexOf(beforeTrimmed, searchFrom);
+    if (beforeIndex === -1) break;
+
+    const start = beforeIndex + beforeTrimmed.length;
+    const nearbyAfterIndex = normalizedSource.indexOf(afterTrimmed, start);
+    if (nearbyAfterIndex !== -1 && nearbyAfterIndex - start <= 16) {
+      return normalizedSource.slice(start, nearbyAfterIndex);
+    }
+
+    const tail = escapeRegExp(beforeTrimmed.slice(-24));
+    const head = escapeRegExp(afterTrimmed.slice(0, 24));
+    const matcher = new RegExp(`${tail}([\\s\\S]{0,16}?)${head}`, "g");
+    matcher.lastIndex = Math.max(0, beforeIndex + beforeTrimmed.length - 24);
+    const match = matcher.exec(normalizedSource);
+    if (match) return match[1];
+
+    searchFrom = beforeIndex + 1;
+  }
+
+  return "\n\n";
+};
+
+const canNormalizeAdjacentCards = (
+  current: CardSegment | undefined,
+  next: CardSegment | undefined,
+) => {
+  if (!current || !next) return false;
+  if (current.layout === "cover" || next.layout === "cover") return false;
+  if (current.locked || next.locked) return false;
+  // A manual card break in the source is a hard boundary.
+  if (next.breakBefore) return false;
+  if (
+    hasAtomicMarkdownSyntax(current.content) ||
+    hasAtomicMarkdownSyntax(next.content)
+  ) {
+    return false;
+  }
+
+  const currentTitle = current.title.trim();
+  const nextTitle = next.title.trim();
+  if (!currentTitle || !nextTitle) return true;
+
+  return currentTitle === nextTitle;
+};
+
+// ── Passes ──────────────────────────────────────────────────
+
+/**
+ * Decide one reflow pass over the body cards (the first and last cards are
+ * covers). Phase 1 splits the first overflowing card; phase 2 flow-fills the
+ * first underfilled card by absorbing the next one. The merged card will
+ * likely overflow, which phase 1 handles on the next pass — together they
+ * fill every card to capacity, left to right.
+ */
+export const planReflowStep = (
+  cards: CardSegment[],
+  getHandle: (index: number) => ReflowCardHandle | null | undefined,
+  state: ReflowState,
+): ReflowStep => {
+  let sawUnresolvedOverflow = false;
+  for (let index = 1; index < cards.length - 1; index += 1) {
+    const handle = getHandle(index);
+    if (cards[index].locked || !handle?.isOverflowing()) continue;
+
+    const split = handle.resolveOverflow();
+    if (!split) {
+      sawUnresolvedOverflow = true;
+      continue;
+    }
+
+    // Only mark as stable when this split was caused by a phase 2 merge
+    // (merge-then-split cycle). Initial overflow splits should NOT block
+    // phase 2 from filling the card later.
+    if (index === state.lastMergeIndex) {
+      state.stableIndexes.add(index);
+    }
+    state.lastMergeIndex = -1;
+    return { type: "split", index, split };
+  }
+
+  for (let index = 1; index < cards.length - 2; index += 1) {
+    const handle = getHandle(index);
+    if (!handle) continue;
+    if (!canNormalizeAdjacentCards(cards[index], cards[index + 1])) continue;
+
+    const occupancy = handle.getBodyOccupancy();
+    if (occupancy <= 0 || occupancy >= FLOW_FILL_THRESHOLD) continue;
+    if (state.stableIndexes.has(index)) continue;
+    state.lastMergeIndex = index;
+    return { type: "merge", index };
+  }
+
+  return sawUnresolvedOverflow ? { type: "wait" } : { type: "done" };
+};
+
+/** Replace a card with the part that fits and carry the rest forward. */
+export const applyOverflowSplitToCards = (
+  cards: CardSegment[],
+  index: number,
+  split: ReflowSplit,
+  sourceText: string,
+  withId: (segment: CardSegment) => CardSegment = (segment) => segment,
+) => {
+  const current = cards[index];
+  if (!current) return cards;
+
+  const next = [...cards];
+  next[index] = withId({
+    ...split.keptSegment,
+    id: current.id,
+    breakBefore: current.breakBefore,
+  });
+
+  const movedContent = split.movedSegment.content.trim();
+  const nextCard = next[index + 1];
+  const shouldKeepAtomicSplitIsolated =
+    isAtomicMarkdownBlock(split.keptSegment.content) ||
+    isAtomicMarkdownBlock(movedContent);
+
+  // A small remnant is prepended to the next body card instead of creating a
+  // standalone tiny card that would cause merge-split oscillation. Never
+  // across a manual card break.
+  if (
+    !shouldKeepAtomicSplitIsolated &&
+    movedContent.length < SMALL_REMNANT_CHARS &&
+    nextCard &&
+    nextCard.layout !== "cover" &&
+    !nextCard.breakBefore &&
+    !nextCard.locked
+  ) {
+    const sep = getBoundarySeparatorFromSource(sourceText, movedContent, nextCard.content);
+    next[index + 1] = {
+      ...nextCard,
+      content: `${movedContent}${sep}${nextCard.content.trim()}`.trim(),
+    };
+  } else {
+    next.splice(index + 1, 0, withId(split.movedSegment));
+  }
+
+  return next;
+};
+
+/** Absorb the card after `index` into it. */
+export const mergeUnderfilledCard = (
+  cards: CardSegment[],
+  index: number,
+  sourceText: string,
+) => {
+  if (!cards[index] || !cards[index + 1]) return cards;
+
+  const next = [...cards];
+  const boundary = getBoundarySeparatorFromSource(
+    sourceText,
+    next[index].content,
+    next[index + 1].content,
+  );
+  next[index] = {
+    ...next[index],
+    title: next[index].title.trim() || next[index + 1].title.trim(),
+    content: `${next[index].content.trim()}${boundary}${next[index + 1].content.trim()}`.trim(),
+  };
+  next.splice(index + 1, 1);
+  return next;
+};
@@ -0,0 +1,222 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/Composition/CompositionOptionValue/ImageConfig/ThemeTokens，依赖 react 的 CSSProperties/ReactNode 类型
+ * [OUTPUT]: 对外提供 registerComposition(definition) / getComposition(id) / listCompositions() / isRegisteredComposition(id) /
+ *           getHeroBackgroundClass(composition) / usesGradientBackground(config) / getCompositionOptions(config) /
+ *           setCompositionOption(config, key, value) / normalizeCompositionOptions(raw) /
+ *           CompositionDefinition / CompositionOption / CompositionRenderContext / CompositionTitleOptions 类型
+ * [POS]: utils/ 的构图注册表；每种构图在这里登记 Console / 首页标签、首页输入区样式、背景样式支持、选项 schema 与测量钩子；
+ *        classic / technical / editorial 由 components/Card 内部渲染，只登记元数据；
+ *        新构图作为独立模块放在 components/compositions/，提供 renderCover / renderBody，经 CompositionRenderContext 复用卡片的
+ *        标题编辑、正文测量与溢出拆分，不需要改动 Card / App / Console
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import type { CSSProperties, ReactNode } from "react";
+import {
+  CardConfig,
+  Composition,
+  CompositionOptionValue,
+  ImageConfig,
+  ThemeTokens,
+} from "../types";
+
+// ── Definition ──────────────────────────────────────────────
+
+/** One user-facing option; values live in CardConfig.compositionOptions[composition][key]. */
+export type CompositionOption =
+  | { type: "range"; key: string; label: string; min: number; max: number; step: number; default: number }
+  | { type: "toggle"; key: string; label: string; default: boolean }
+  | {
+      type: "select";
+      key: string;
+      label: string;
+      choices: Array<{ value: string; label: string }>;
+      default: string;
+    };
+
+export interface CompositionTitleOptions {
+  className?: string;
+  style?: CSSProperties;
+  placeholder?: string;
+  /** Edit in a textarea that grows with the title instead of a single-line input. */
+  multiline?: boolean;
+  /** Display-only rewrite of the title; the stored title is untouched. */
+  format?: (title: string) => string;
+}
+
+/** What a composition module gets from Card when rendering one card. */
+export interface CompositionRenderContext {
+  config: CardConfig;
+  options: Record<string, CompositionOptionValue>;
+  theme: ThemeTokens;
+  title: string;
+  /** False for an empty title outside edit mode. */
+  hasTitle: boolean;
+  isCover: boolean;
+  isEditing: boolean;
+  hasImage: boolean;
+  imagePosition: ImageConfig["position"];
+  showNumber: boolean;
+  displayIndex: string;
+  displayTotal: string;
+  titleFontFamily?: string;
+  /** The shared body type scale; the content frame should set these. */
+  bodyTypography: { fontSize: string; lineHeight: number; letterSpacing: string };
+  /** Chrome sizes that follow cardScale. */
+  px: (value: number) => string;
+  rem: (value: number) => string;
+  /** The title, or its editor in edit mode. */
+  renderTitle: (options?: CompositionTitleOptions) => ReactNode;
+  /**
+   * The Markdown body, or its editor in edit mode. It fills its parent, which
+   * must have a definite height: overflow and occupancy are measured against it.
+   */
+  renderContent: () => ReactNode;
+  renderImage: (className?: string) => ReactNode;
+  /** The "Split Overflow" control; place it inside a `relative` content frame. */
+  renderOverflowControl: () => ReactNode;
+}
+
+export interface CompositionDefinition {
+  id: Composition;
+  /** Short Console chip label. */
+  label: string;
+  /** Hero tab label; defaults to `label`. */
+  heroLabel?: string;
+  /** Tailwind background class shared by the hero tab and its input panel. */
+  heroBackgroundClass: string;
+  /** Which hero input panel the composition uses. */
+  heroPanel: "classic" | "technical" | "editorial";
+  /** Whether the grid / gradient backgroundStyle applies to this composition's cards. */
+  backgroundStyles?: boolean;
+  options?: CompositionOption[];
+  /** How renderContent lays out the Markdown body. */
+  body?: {
+    align?: "justify" | "left";
+    /** Center the body vertically; an overflowing body still starts at the top. */
+    center?: boolean;
+    /** Display-only rewrite of the Markdown before it renders. */
+    format?: (markdown: string) => string;
+  };
+  measure?: {
+    /** Scale range for the body; Card grows it to the largest scale that still fits. */
+    fitScale?: (options: Record<string, CompositionOptionValue>) => [number, number];
+    /** Adjust the occupancy flow-fill reads; at 1 or above the next card is never merged in. */
+    getBodyOccupancy?: (occupancy: number) => number;
+    /** Replace the default `scrollHeight > clientHeight + 4` overflow test. */
+    isOverflowing?: (scrollHeight: number, clientHeight: number) => boolean;
+  };
+  /** Cover-card layout; falls back to renderBody. */
+  renderCover?: (context: CompositionRenderContext) => ReactNode;
+  /** Body-card layout. Built-in compositions render inside Card and leave it unset. */
+  renderBody?: (context: CompositionRenderContext) => ReactNode;
+}
+
+// ── Registry ────────────────────────────────────────────────
+
+const registry = new Map<string, CompositionDefinition>();
+
+/** Add or replace a composition. Registration order is the order pickers list them in. */
+export const registerComposition = (definition: CompositionDefinition) => {
+  registry.set(definition.id, definition);
+};
+
+registerComposition({
+  id: "classic",
+  label: "Classic",
+  heroBackgroundClass: "bg-[#f4f4f2]",
+  heroPanel: "classic",
+});
+registerComposition({
+  id: "technical",
+  label: "Tech",
+  heroLabel: "Technical",
+  heroBackgroundClass: "bg-[#fafafa]",
+  heroPanel: "technical",
+});
+registerComposition({
+  id: "editorial",
+  label: "Edito",
+  heroLabel: "Editorial",
+  heroBackgroundClass: "bg-white",
+  heroPanel: "editorial",
+  backgroundStyles: true,
+});
+
+export const getComposition = (id: string) => registry.get(id);
+
+export const listCompositions = () => Array.from(registry.values());
+
+export const isRegisteredComposition = (id: unknown): id is Composition =>
+  typeof id === "string" && registry.has(id);
+
+export const getHeroBackgroundClass = (composition: string) =>
+  getComposition(composition)?.heroBackgroundClass ?? "bg-white";
+
+export const usesGradientBackground = (
+  config: Pick<CardConfig, "composition" | "backgroundStyle">,
+) =>
+  Boolean(getComposition(config.composition)?.backgroundStyles) &&
+  config.backgroundStyle === "gradient";
+
+// ── Options ─────────────────────────────────────────────────
+
+const resolveOptionValue = (option: CompositionOption, value: unknown): CompositionOptionValue => {
+  switch (option.type) {
+    case "range":
+      return typeof value === "number" && Number.isFinite(value)
+        ? Math.min(option.max, Math.max(option.min, value))
+        : option.default;
+    case "toggle":
+      return typeof value === "boolean" ? value : option.default;
+    case "select":
+      return option.choices.some((choice) => choice.value === value)
+        ? (value as string)
+        : option.default;
+  }
+};
+
+/** The current composition's options, with defaults filled in and values checked against its schema. */
+export const getCompositionOptions = (
+  config: Pick<CardConfig, "composition" | "compositionOptions">,
+): Record<string, CompositionOptionValue> => {
+  const stored = config.compositionOptions?.[config.composition] ?? {};
+  return Object.fromEntries(
+    (getComposition(config.composition)?.options ?? []).map((option) => [
+      option.key,
+      resolveOptionValue(option, stored[option.key]),
+    ]),
+  );
+};
+
+/** Set one option of the current composition; other compositions keep theirs. */
+export const setCompositionOption = (
+  config: CardConfig,
+  key: string,
+  value: CompositionOptionValue,
+): CardConfig => ({
+  ...config,
+  compositionOptions: {
+    ...config.compositionOptions,
+    [config.composition]: { ...config.compositionOptions?.[config.composition], [key]: value },
+  },
+});
+
+/**
+ * Keep only well-formed stored options. Values are checked against each
+ * schema when read, so options of compositions that are not registered yet
+ * survive a round trip.
+ */
+export const normalizeCompositionOptions = (
+  raw: unknown,
+): CardConfig["compositionOptions"] => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const next: NonNullable<CardConfig["compositionOptions"]> = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([composition, values]) => {
+    if (!values || typeof values !== "object") return;
+    const kept = Object.entries(values as Record<string, unknown>).filter(
+      ([, value]) => ["number", "string", "boolean"].includes(typeof value),
+    );
+    if (kept.length > 0) next[composition] = Object.fromEntries(kept) as Record<string, CompositionOptionValue>;
+  });
+  return Object.keys(next).length > 0 ? next : undefined;
+};
@@ -0,0 +1,28 @@
+/**
+ * [INPUT]: 依赖浏览器 SubtleCrypto（不可用时退化为 FNV-1a）
+ * [OUTPUT]: 对外提供 hashString(value): Promise<string>
+ * [POS]: utils/ 的内容寻址哈希；切分缓存键与图片去重共用，同一输入永远得到同一键
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+// FNV-1a fallback for insecure contexts where SubtleCrypto is unavailable.
+const fnv1aHash = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}-${value.length}`;
+};
+
+export const hashString = async (value: string) => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return fnv1aHash(value);
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
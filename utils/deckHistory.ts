@@ -0,0 +1,99 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/CardSegment
+ * [OUTPUT]: 对外提供 createDeckHistory() / recordDeckHistory(history, entry, now) /
+ *           undoDeckHistory(history, current) / redoDeckHistory(history, current) /
+ *           DeckSnapshot / DeckHistory / DeckHistoryEntry 类型
+ * [POS]: utils/ 的撤销 / 重做栈（纯函数）；每条记录 = 一次操作前的卡片组 + 配置快照，
+ *        同组（group）在时间窗内的连续操作合并为一步（生成 / 重切后的自动回流与触发它的操作同组），App.tsx 只负责在变更前调用 record
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardConfig, CardSegment } from "../types";
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface DeckSnapshot {
+  cards: CardSegment[];
+  config: CardConfig;
+  /** Whether the cards had been edited since they were generated; absent on older entries. */
+  hasCardEdits?: boolean;
+}
+
+export interface DeckHistoryEntry {
+  label: string;
+  snapshot: DeckSnapshot;
+  /** Consecutive records sharing a group within `mergeWindowMs` collapse into one step. */
+  group?: string;
+  mergeWindowMs?: number;
+  recordedAt?: number;
+}
+
+export interface DeckHistory {
+  past: DeckHistoryEntry[];
+  future: DeckHistoryEntry[];
+}
+
+export const createDeckHistory = (): DeckHistory => ({ past: [], future: [] });
+
+/**
+ * Push the state *before* a mutation. A record that continues the group on
+ * top of the stack only refreshes its timestamp, so the step still rewinds
+ * to the state before the first mutation of the burst.
+ */
+export const recordDeckHistory = (
+  history: DeckHistory,
+  entry: DeckHistoryEntry,
+  now = Date.now(),
+): DeckHistory => {
+  const top = history.past[history.past.length - 1];
+  const continuesGroup =
+    entry.group !== undefined &&
+    top?.group === entry.group &&
+    top.recordedAt !== undefined &&
+    now - top.recordedAt <= (entry.mergeWindowMs ?? Infinity);
+
+  if (continuesGroup) {
+    const past = [...history.past];
+    past[past.length - 1] = { ...top, recordedAt: now };
+    return { past, future: [] };
+  }
+
+  return {
+    past: [...history.past, { ...entry, recordedAt: now }].slice(-MAX_HISTORY_ENTRIES),
+    future: [],
+  };
+};
+
+export const undoDeckHistory = (
+  history: DeckHistory,
+  current: DeckSnapshot,
+): { history: DeckHistory; snapshot: DeckSnapshot; label: string } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current }],
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+};
+
+export const redoDeckHistory = (
+  history: DeckHistory,
+  current: DeckSnapshot,
+): { history: DeckHistory; snapshot: DeckSnapshot; label: string } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    history: {
+      // Redone steps never merge with whatever gets recorded next.
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+};
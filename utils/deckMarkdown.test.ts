@@ -0,0 +1,79 @@
+/**
+ * [INPUT]: 依赖 vitest，依赖 ./deckMarkdown 的 serializeDeckMarkdown / parseDeckMarkdown
+ * [OUTPUT]: deckMarkdown 的往返测试
+ * [POS]: utils/deckMarkdown 的单元测试；覆盖正文里的 `---` / `title:` 行、已转义的围栏与多行标题
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { describe, expect, it } from "vitest";
+import { CardSegment } from "../types";
+import { parseDeckMarkdown, serializeDeckMarkdown } from "./deckMarkdown";
+
+const roundTrip = (cards: CardSegment[]) => parseDeckMarkdown(serializeDeckMarkdown(cards))?.cards;
+
+describe("deckMarkdown", () => {
+  it("restores every card field", () => {
+    const cards: CardSegment[] = [
+      { title: "Deck", content: "", layout: "cover" },
+      {
+        title: "One",
+        content: "First paragraph.\n\nSecond paragraph.",
+        layout: "standard",
+        breakBefore: true,
+        locked: true,
+        editorialBrandLabel: "Brand",
+        editorialBadgeText: "",
+        image: "data:image/png;base64,AAAA",
+        originalImage: "data:image/png;base64,AAAA",
+        imageConfig: { position: "top", heightRatio: 0.4, aspectRatio: "4:3", scale: 1.2, panX: 50, panY: 30 },
+      },
+      { title: "End", content: "", layout: "cover" },
+    ];
+    const text = serializeDeckMarkdown(cards, { title: "Deck", authorName: "Ann" });
+
+    expect(text.match(/data:image/g)).toHaveLength(1);
+    expect(parseDeckMarkdown(text)).toEqual({ title: "Deck", authorName: "Ann", cards });
+  });
+
+  it("returns null for ordinary Markdown", () => {
+    expect(parseDeckMarkdown("# Title\n\nSome text.")).toBeNull();
+    expect(parseDeckMarkdown("---\ntitle: Post\n---\nBody")).toBeNull();
+  });
+
+  it("keeps `---` rules and `title:` lines inside content", () => {
+    const cards: CardSegment[] = [
+      { title: "Rule", content: "Above.\n\n---\n\nBelow." },
+      { title: "Sample", content: "A post starts like this:\n\n---\ntitle: Hello\nlayout: cover\n---\n\nThen the body." },
+      { title: "Field", content: "title: not a card\n---" },
+    ];
+
+    expect(roundTrip(cards)).toEqual(cards);
+  });
+
+  it("keeps content lines that already look escaped", () => {
+    const cards: CardSegment[] = [
+      { title: "Escaped", content: "\\---\ntitle: x\n\\\\---\n---\ntitle: y\n---" },
+    ];
+
+    expect(roundTrip(cards)).toEqual(cards);
+  });
+
+  it("keeps titles with line breaks and quotes", () => {
+    const cards: CardSegment[] = [
+      { title: "Line one\nline two: \"quoted\"", content: "Body." },
+      { title: "", content: "Untitled." },
+    ];
+
+    expect(roundTrip(cards)).toEqual(cards);
+  });
+
+  it("reads Windows line endings and a byte order mark", () => {
+    const cards: CardSegment[] = [{ title: "One", content: "Line a\nLine b" }];
+    const text = `\uFEFF${serializeDeckMarkdown(cards).replace(/\n/g, "\r\n")}`;
+
+    expect(parseDeckMarkdown(text)?.cards).toEqual(cards);
+  });
+
+  it("rejects decks from a newer format version", () => {
+    expect(() => parseDeckMarkdown("---\ntextcuts: deck\nversion: 99\n---\n")).toThrow(/newer version/);
+  });
+});
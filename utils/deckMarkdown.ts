@@ -0,0 +1,198 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardSegment/ImageConfig
+ * [OUTPUT]: 对外提供 serializeDeckMarkdown(cards, meta) / parseDeckMarkdown(text): DeckMarkdown | null / DeckMarkdown 类型
+ * [POS]: utils/ 的卡片组 Markdown 格式；整份文件以 `textcuts: deck` 头部 front-matter 开头，
+ *        每张卡一段 `---` front-matter（title / layout / 手动分卡标记 / 锁定 / 图片与裁切配置 / 编辑风徽章）后接正文原文，
+ *        解析结果与导出前的 CardSegment[] 逐字段一致，可绕过 AI 直接还原卡片组，适合放进 git 做版本管理；
+ *        正文里会被读成卡片头的 `---` 行导出时加反斜杠转义，解析时去掉，正文含 front-matter 样例也能原样往返
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment, ImageConfig } from "../types";
+
+const DECK_MARKER = "deck";
+const DECK_FORMAT_VERSION = 1;
+const FENCE = "---";
+const FIELD_PATTERN = /^([A-Za-z][\w-]*):[ \t]*(.*)$/;
+// A fence behind any number of backslashes: the escaped form of a content line.
+const ESCAPED_FENCE_PATTERN = /^\\+---$/;
+
+export interface DeckMarkdown {
+  title?: string;
+  authorName?: string;
+  cards: CardSegment[];
+}
+
+type FrontMatter = {
+  fields: Map<string, string>;
+  /** Line index right after the closing fence. */
+  next: number;
+};
+
+// Values are JSON, which YAML reads as well; hand-edited bare words still parse.
+const formatValue = (value: unknown) => JSON.stringify(value);
+
+const parseValue = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw.trim();
+  }
+};
+
+const readString = (fields: Map<string, string>, key: string) => {
+  const raw = fields.get(key);
+  if (raw === undefined) return undefined;
+  const value = parseValue(raw);
+  return typeof value === "string" ? value : String(value);
+};
+
+const readFrontMatter = (lines: string[], start: number): FrontMatter | null => {
+  if (lines[start] !== FENCE) return null;
+
+  const fields = new Map<string, string>();
+  let index = start + 1;
+  for (; index < lines.length; index += 1) {
+    if (lines[index] === FENCE) break;
+    const match = lines[index].match(FIELD_PATTERN);
+    if (!match) return null;
+    fields.set(match[1], match[2]);
+  }
+  if (index >= lines.length || fields.size === 0) return null;
+  return { fields, next: index + 1 };
+};
+
+// Every card block leads with `title`, so a `---` rule inside content is not mistaken for one.
+const readCardFrontMatter = (lines: string[], start: number) => {
+  const frontMatter = readFrontMatter(lines, start);
+  return frontMatter?.fields.has("title") ? frontMatter : null;
+};
+
+/**
+ * Backslash a content `---` that would read back as a card block, and add one
+ * more to lines already escaped that way, so parsing strips exactly one.
+ */
+const escapeContent = (content: string) => {
+  const lines = content.split("\n");
+  return lines
+    .map((line, index) =>
+      ESCAPED_FENCE_PATTERN.test(line) || (line === FENCE && readCardFrontMatter(lines, index))
+        ? `\\${line}`
+        : line,
+    )
+    .join("\n");
+};
+
+const unescapeContent = (lines: string[]) =>
+  lines.map((line) => (ESCAPED_FENCE_PATTERN.test(line) ? line.slice(1) : line));
+
+const serializeCardFrontMatter = (card: CardSegment) => {
+  const lines = [`title: ${formatValue(card.title)}`];
+  if (card.layout) lines.push(`layout: ${formatValue(card.layout)}`);
+  if (card.breakBefore) lines.push("breakBefore: true");
+  if (card.locked) lines.push("locked: true");
+  if (card.editorialBrandLabel !== undefined) {
+    lines.push(`editorialBrandLabel: ${formatValue(card.editorialBrandLabel)}`);
+  }
+  if (card.editorialBadgeText !== undefined) {
+    lines.push(`editorialBadgeText: ${formatValue(card.editorialBadgeText)}`);
+  }
+  if (card.image) lines.push(`image: ${formatValue(card.image)}`);
+  // The crop source is usually the image itself; don't write the data URL twice.
+  if (card.originalImage && card.originalImage === card.image) {
+    lines.push("imageIsOriginal: true");
+  } else if (card.originalImage) {
+    lines.push(`originalImage: ${formatValue(card.originalImage)}`);
+  }
+  if (card.imageConfig) lines.push(`imageConfig: ${formatValue(card.imageConfig)}`);
+  return [FENCE, ...lines, FENCE].join("\n");
+};
+
+const parseCard = (fields: Map<string, string>, content: string): CardSegment => {
+  const card: CardSegment = { title: readString(fields, "title") ?? "", content };
+
+  const layout = readString(fields, "layout");
+  if (layout === "standard" || layout === "cover") card.layout = layout;
+  if (parseValue(fields.get("breakBefore") ?? "") === true) card.breakBefore = true;
+  if (parseValue(fields.get("locked") ?? "") === true) card.locked = true;
+
+  const brandLabel = readString(fields, "editorialBrandLabel");
+  if (brandLabel !== undefined) card.editorialBrandLabel = brandLabel;
+  const badgeText = readString(fields, "editorialBadgeText");
+  if (badgeText !== undefined) card.editorialBadgeText = badgeText;
+
+  const image = readString(fields, "image");
+  if (image) card.image = image;
+  const originalImage = readString(fields, "originalImage");
+  if (originalImage) {
+    card.originalImage = originalImage;
+  } else if (image && parseValue(fields.get("imageIsOriginal") ?? "") === true) {
+    card.originalImage = image;
+  }
+
+  const imageConfig = parseValue(fields.get("imageConfig") ?? "");
+  if (imageConfig && typeof imageConfig === "object" && !Array.isArray(imageConfig)) {
+    card.imageConfig = imageConfig as ImageConfig;
+  }
+  return card;
+};
+
+// ── Public API ──────────────────────────────────────────────
+
+/** One header block for the deck, then a front-matter block plus raw content per card. */
+export const serializeDeckMarkdown = (
+  cards: CardSegment[],
+  meta: { title?: string; authorName?: string } = {},
+) => {
+  const header = [
+    FENCE,
+    `textcuts: ${DECK_MARKER}`,
+    `version: ${DECK_FORMAT_VERSION}`,
+    ...(meta.title ? [`title: ${formatValue(meta.title)}`] : []),
+    ...(meta.authorName ? [`author: ${formatValue(meta.authorName)}`] : []),
+    FENCE,
+  ].join("\n");
+
+  return `${[header, ...cards.map((card) => `${serializeCardFrontMatter(card)}\n${escapeContent(card.content)}`)].join("\n\n")}\n`;
+};
+
+/**
+ * Rebuild the exact cards of a file written by serializeDeckMarkdown. Returns
+ * null for ordinary Markdown so callers can fall back to splitting it as text.
+ */
+export const parseDeckMarkdown = (text: string): DeckMarkdown | null => {
+  const lines = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  let start = 0;
+  while (start < lines.length && !lines[start].trim()) start += 1;
+
+  const header = readFrontMatter(lines, start);
+  if (!header || readString(header.fields, "textcuts") !== DECK_MARKER) return null;
+  if (Number(readString(header.fields, "version")) > DECK_FORMAT_VERSION) {
+    throw new Error("This deck was written by a newer version of TextCuts");
+  }
+
+  const cards: CardSegment[] = [];
+  let index = header.next;
+  while (index < lines.length && !readCardFrontMatter(lines, index)) index += 1;
+
+  while (index < lines.length) {
+    const frontMatter = readCardFrontMatter(lines, index);
+    if (!frontMatter) break;
+
+    let end = frontMatter.next;
+    while (end < lines.length && !readCardFrontMatter(lines, end)) end += 1;
+
+    // Drop the blank line the serializer puts between blocks (or the file's final newline).
+    const contentLines = lines.slice(frontMatter.next, end);
+    if (contentLines.length > 0 && contentLines[contentLines.length - 1] === "") {
+      contentLines.pop();
+    }
+    cards.push(parseCard(frontMatter.fields, unescapeContent(contentLines).join("\n")));
+    index = end;
+  }
+
+  return {
+    title: readString(header.fields, "title"),
+    authorName: readString(header.fields, "author"),
+    cards,
+  };
+};
@@ -0,0 +1,38 @@
+/**
+ * [INPUT]: 依赖 ../types 的 FontStyle
+ * [OUTPUT]: 对外提供 BUILT_IN_FONT_FAMILIES / getCustomFontFamily(id) / resolveFontFamily(ref, fontStyle) / isBuiltInFontRef(ref) /
+ *           CUSTOM_FONT_FAMILY_PATTERN
+ * [POS]: utils/ 的字体引用解析（纯函数）；CardConfig.titleFont / bodyFont 可以是内置 FontStyle 或用户上传字体的 id，
+ *        这里统一折算成 CSS font-family；上传字体的 family 名由 id 推出，不需要查表，
+ *        字体尚未注册（或在别的设备上）时自动落回 fontStyle 对应的内置字体
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { FontStyle } from "../types";
+
+const CUSTOM_FONT_FAMILY_PREFIX = "textcuts-font-";
+export const CUSTOM_FONT_FAMILY_PATTERN = /textcuts-font-[\w-]+/g;
+
+// Same stacks as the .font-* classes in index.html.
+export const BUILT_IN_FONT_FAMILIES: Record<FontStyle, string> = {
+  [FontStyle.CHILL]: "'ChillDuanHeiSong', sans-serif",
+  [FontStyle.OPPO]: "'OPPOSans', sans-serif",
+  [FontStyle.SWEI]: "'SweiSpringSugar', sans-serif",
+  [FontStyle.SMILEY]: "'SmileySans', sans-serif",
+};
+
+export const isBuiltInFontRef = (ref: string): ref is FontStyle =>
+  Object.prototype.hasOwnProperty.call(BUILT_IN_FONT_FAMILIES, ref);
+
+export const getCustomFontFamily = (id: string) =>
+  `${CUSTOM_FONT_FAMILY_PREFIX}${id.replace(/[^\w-]/g, "")}`;
+
+/**
+ * CSS font-family for a title / body font choice, or undefined when the
+ * choice is unset and the card's fontStyle class should apply.
+ */
+export const resolveFontFamily = (ref: string | undefined, fontStyle: FontStyle) => {
+  if (!ref) return undefined;
+  if (isBuiltInFontRef(ref)) return BUILT_IN_FONT_FAMILIES[ref];
+  const fallback = BUILT_IN_FONT_FAMILIES[fontStyle] ?? BUILT_IN_FONT_FAMILIES[FontStyle.SWEI];
+  return `'${getCustomFontFamily(ref)}', ${fallback}`;
+};
@@ -0,0 +1,236 @@
+/**
+ * [INPUT]: 无外部依赖（纯 TypedArray + Blob）
+ * [OUTPUT]: 对外提供 createGifEncoder({ width, height, loop }) → { addFrame(rgba, delayMs), finish(): Blob }
+ * [POS]: utils/ 的最小 GIF89a 动画写入器；逐帧中位切分量化为 256 色局部调色板、LZW 压缩后立即写出，
+ *        内存只保留已编码字节，整段幻灯片不必同时驻留 RGBA 帧
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+const MAX_COLORS = 256;
+const MAX_CODE_SIZE = 12;
+const MAX_CODES = 1 << MAX_CODE_SIZE;
+const MIN_CODE_SIZE = 8;
+const SUB_BLOCK_SIZE = 255;
+const HASH_SIZE = 5003;
+
+// ── Color quantization ──────────────────────────────────────
+
+type ColorBox = { colors: number[] };
+
+// Colors are bucketed to RGB555 (32 levels per channel) before splitting.
+const toBucket = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const bucketChannel = (bucket: number, shift: number) => (((bucket >> shift) & 31) << 3) | 4;
+
+const getBoxRange = (box: ColorBox, shift: number) => {
+  let min = 31;
+  let max = 0;
+  for (const bucket of box.colors) {
+    const value = (bucket >> shift) & 31;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return max - min;
+};
+
+/**
+ * Median cut over the frame's RGB555 histogram. Returns the palette plus a
+ * bucket → palette index lookup, so mapping a pixel is one table read.
+ */
+const quantizeFrame = (rgba: Uint8ClampedArray | Uint8Array) => {
+  const counts = new Uint32Array(1 << 15);
+  for (let offset = 0; offset < rgba.length; offset += 4) {
+    counts[toBucket(rgba[offset], rgba[offset + 1], rgba[offset + 2])] += 1;
+  }
+
+  const used: number[] = [];
+  counts.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+
+  let boxes: ColorBox[] = [{ colors: used }];
+  while (boxes.length < MAX_COLORS) {
+    // Split the box with the widest channel spread; stop once every box is a single color.
+    let target = -1;
+    let targetShift = 0;
+    let targetRange = 0;
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) return;
+      for (const shift of [10, 5, 0]) {
+        const range = getBoxRange(box, shift);
+        if (range > targetRange) {
+          target = index;
+          targetShift = shift;
+          targetRange = range;
+        }
+      }
+    });
+    if (target < 0) break;
+
+    const sorted = [...boxes[target].colors].sort(
+      (a, b) => ((a >> targetShift) & 31) - ((b >> targetShift) & 31),
+    );
+    const total = sorted.reduce((sum, bucket) => sum + counts[bucket], 0);
+    let running = 0;
+    let split = 1;
+    for (; split < sorted.length - 1; split += 1) {
+      running += counts[sorted[split - 1]];
+      if (running >= total / 2) break;
+    }
+    boxes = [
+      ...boxes.slice(0, target),
+      { colors: sorted.slice(0, split) },
+      { colors: sorted.slice(split) },
+      ...boxes.slice(target + 1),
+    ];
+  }
+
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const lookup = new Uint8Array(1 << 15);
+  boxes.forEach((box, index) => {
+    let weight = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const bucket of box.colors) {
+      const count = counts[bucket];
+      weight += count;
+      r += bucketChannel(bucket, 10) * count;
+      g += bucketChannel(bucket, 5) * count;
+      b += bucketChannel(bucket, 0) * count;
+      lookup[bucket] = index;
+    }
+    palette[index * 3] = Math.round(r / Math.max(1, weight));
+    palette[index * 3 + 1] = Math.round(g / Math.max(1, weight));
+    palette[index * 3 + 2] = Math.round(b / Math.max(1, weight));
+  });
+
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let pixel = 0, offset = 0; pixel < indices.length; pixel += 1, offset += 4) {
+    indices[pixel] = lookup[toBucket(rgba[offset], rgba[offset + 1], rgba[offset + 2])];
+  }
+  return { palette, indices };
+};
+
+// ── LZW ─────────────────────────────────────────────────────
+
+const encodeLzw = (indices: Uint8Array) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Open-addressed (prefix, byte) → code table.
+  const hashKeys = new Int32Array(HASH_SIZE);
+  const hashCodes = new Int32Array(HASH_SIZE);
+  const resetTable = () => {
+    hashKeys.fill(-1);
+    codeSize = MIN_CODE_SIZE + 1;
+  };
+
+  resetTable();
+  emit(clearCode);
+  let nextCode = endCode + 1;
+  let prefix = indices[0] ?? 0;
+
+  for (let index = 1; index < indices.length; index += 1) {
+    const value = indices[index];
+    const key = (value << MAX_CODE_SIZE) + prefix;
+    let slot = ((value << 4) ^ prefix) % HASH_SIZE;
+    const step = slot === 0 ? 1 : HASH_SIZE - slot;
+    while (hashKeys[slot] !== -1 && hashKeys[slot] !== key) {
+      slot -= step;
+      if (slot < 0) slot += HASH_SIZE;
+    }
+    if (hashKeys[slot] === key) {
+      prefix = hashCodes[slot];
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      resetTable();
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens one code late, so widen right before the entry that needs it.
+      if (nextCode >= 1 << codeSize) codeSize += 1;
+      hashKeys[slot] = key;
+      hashCodes[slot] = nextCode;
+      nextCode += 1;
+    }
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+  return output;
+};
+
+// ── Public API ──────────────────────────────────────────────
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  /** 0 = loop forever (the default); otherwise the number of repeats. */
+  loop?: number;
+}
+
+/**
+ * Stream-style encoder: every addFrame() quantizes and compresses the frame
+ * right away. Alpha is ignored — composite onto an opaque background first.
+ */
+export const createGifEncoder = ({ width, height, loop = 0 }: GifEncoderOptions) => {
+  const chunks: Uint8Array[] = [];
+  const push = (bytes: number[]) => chunks.push(Uint8Array.from(bytes));
+  const word = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+  // Header, logical screen (no global color table), then the looping extension.
+  push([...Array.from("GIF89a", (char) => char.charCodeAt(0)), ...word(width), ...word(height), 0x70, 0, 0]);
+  push([
+    0x21, 0xff, 0x0b,
+    ...Array.from("NETSCAPE2.0", (char) => char.charCodeAt(0)),
+    0x03, 0x01, ...word(loop), 0x00,
+  ]);
+
+  return {
+    addFrame(rgba: Uint8ClampedArray | Uint8Array, delayMs: number) {
+      if (rgba.length !== width * height * 4) {
+        throw new Error("GIF frame size does not match the animation size");
+      }
+      const { palette, indices } = quantizeFrame(rgba);
+      const delay = Math.max(2, Math.round(delayMs / 10)); // Centiseconds; browsers clamp < 2
+      push([0x21, 0xf9, 0x04, 0x04, ...word(delay), 0x00, 0x00]);
+      // Image descriptor with a 256-entry local color table.
+      push([0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0x87]);
+      chunks.push(palette);
+      push([MIN_CODE_SIZE]);
+
+      const data = encodeLzw(indices);
+      const blocks: number[] = [];
+      for (let offset = 0; offset < data.length; offset += SUB_BLOCK_SIZE) {
+        const block = data.slice(offset, offset + SUB_BLOCK_SIZE);
+        blocks.push(block.length, ...block);
+      }
+      blocks.push(0x00);
+      push(blocks);
+    },
+
+    finish() {
+      push([0x3b]);
+      return new Blob(chunks as BlobPart[], { type: "image/gif" });
+    },
+  };
+};
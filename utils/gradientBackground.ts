@@ -1,8 +1,11 @@
 /**
- * [INPUT]: 依赖 ../types 的 CardConfig/GradientBackgroundConfig/GradientControlPoint/GradientType/WarpShape/Colorway
- * [OUTPUT]: 对外提供 createDefaultGradientBackground() / renderGradientBackgroundToDataUrl(config, w, h) / getGradientColors(config)
+ * [INPUT]: 依赖 ../types 的 CardConfig/GradientBackgroundConfig/GradientControlPoint/GradientType/WarpShape，
+ *          依赖 ./themeTokens 的 resolveThemeTokens（按配色令牌的明暗取调色板）
+ * [OUTPUT]: 对外提供 createDefaultGradientBackground() / renderGradientBackgroundToDataUrl(config, w, h) /
+ *           renderGradientBackgroundFrame(canvas, config, w, h, time) / getGradientColors(config)
  * [POS]: utils/ 的图形渲染引擎；以 WebGL Fragment Shader (GLSL) 实现 GPU 加速渐变，
- *        Canvas 2D 作降级方案；被 App.tsx 和 Card.tsx 在背景渲染时调用
+ *        Canvas 2D 作降级方案；被 App.tsx 和 Card.tsx 在背景渲染时调用，
+ *        services/slideshowExport 逐帧推进 u_time 生成动态背景
  * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
  */
 import {
@@ -12,6 +15,7 @@ import {
   GradientType,
   WarpShape,
 } from "../types";
+import { resolveThemeTokens } from "./themeTokens";
 
 const MAX_STOPS = 10;
 const MAX_CONTROL_POINTS = 10;
@@ -19,7 +23,7 @@ const DEFAULT_COLOR_COUNT = 5;
 
 type GradientThemeInput = Pick<
   CardConfig,
-  "backgroundColor" | "textColor" | "accentColor" | "colorway"
+  "backgroundColor" | "textColor" | "accentColor" | "colorway" | "theme"
 >;
 
 const GRADIENT_TYPE_INDEX: Record<GradientType, number> = {
@@ -593,7 +597,7 @@ function randomPalette(count: number, theme?: GradientThemeInput) {
     );
   }
 
-  const isDark = theme.colorway === "neon";
+  const isDark = resolveThemeTokens(theme).tone === "dark";
   const [accentHue, accentSat] = hexToHsl(theme.accentColor);
   const darkAccentHue = normalizeHue(accentHue + (Math.random() - 0.5) * 10);
   const darkAccentSat = clampValue(accentSat * 0.62, 24, 58);
@@ -717,6 +721,7 @@ function renderGradient(
   config: GradientBackgroundConfig,
   width: number,
   height: number,
+  time = 0,
 ) {
   const renderColors = config.colors.slice(0, MAX_STOPS);
   canvas.width = width;
@@ -761,7 +766,7 @@ function renderGradient(
   set1i("u_grad_type", GRADIENT_TYPE_INDEX[config.gradientType]);
   set1i("u_warp_shape", WARP_SHAPE_INDEX[config.warpShape]);
   set1f("u_seed", config.seed);
-  set1f("u_time", 0);
+  set1f("u_time", time);
 
   for (let i = 0; i < numCP; i += 1) {
     set2f(`u_cp_pos[${i}]`, positions[i * 2], positions[i * 2 + 1]);
@@ -845,3 +850,24 @@ export function renderGradientBackgroundToDataUrl(
     return null;
   }
 }
+
+/**
+ * Draw one animation frame straight into `canvas` (no data URL, no cache).
+ * `time` drives the shader's u_time, so consecutive values flow smoothly.
+ */
+export function renderGradientBackgroundFrame(
+  canvas: HTMLCanvasElement,
+  config: GradientBackgroundConfig,
+  width: number,
+  height: number,
+  time: number,
+) {
+  renderGradient(
+    canvas,
+    config,
+    Math.max(1, Math.round(width)),
+    Math.max(1, Math.round(height)),
+    time,
+  );
+  return canvas;
+}
@@ -0,0 +1,279 @@
+/**
+ * [INPUT]: 依赖浏览器 DOMParser（无第三方依赖）
+ * [OUTPUT]: 对外提供 htmlToMarkdown(html, options) / htmlElementToMarkdown(root, options) / isRichHtml(html)
+ * [POS]: utils/ 的 HTML → Markdown 转换器；覆盖标题、粗斜体、删除线、列表（含嵌套）、代码、引用、链接、图片、表格，
+ *        识别 Google Docs / Notion / Word 用内联 style 表达的粗体与斜体；
+ *        被 services/documentImport 用于 .html 文件、网页 URL 与富文本粘贴
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+export interface HtmlToMarkdownOptions {
+  /** Resolves relative href / src attributes (pages fetched from a URL). */
+  baseUrl?: string;
+}
+
+type InlineStyle = { bold: boolean; italic: boolean; strike: boolean };
+
+const SKIPPED_TAGS = new Set([
+  "HEAD", "SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "META", "LINK", "TITLE",
+  "SVG", "BUTTON", "INPUT", "SELECT", "TEXTAREA", "IFRAME", "NAV", "FOOTER",
+]);
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "DD", "DETAILS", "DIV", "DL", "DT",
+  "FIELDSET", "FIGCAPTION", "FIGURE", "FORM", "H1", "H2", "H3", "H4", "H5", "H6",
+  "HEADER", "HR", "LI", "MAIN", "OL", "P", "PRE", "SECTION", "SUMMARY", "TABLE", "UL",
+]);
+const RICH_TAGS = /<(h[1-6]|strong|b|em|i|ul|ol|li|blockquote|pre|code|img|table|a)\b/i;
+const RICH_STYLES = /font-weight\s*:\s*(bold|[6-9]00)|font-style\s*:\s*italic/i;
+
+const collapseWhitespace = (text: string) => text.replace(/[ \t\r\n\f]+/g, " ");
+
+// Only characters that would otherwise start emphasis or code; brackets and
+// mid-word underscores are harmless in GFM and would clutter the source text.
+const escapeInline = (text: string) => text.replace(/([\\`*])/g, "\\$1");
+
+const resolveUrl = (value: string | null, baseUrl?: string) => {
+  if (!value) return "";
+  if (!baseUrl || /^(data|blob|idb-image):/i.test(value)) return value;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+};
+
+/** Docs editors express emphasis through inline styles instead of tags. */
+const getInlineStyle = (el: HTMLElement, inherited: InlineStyle): InlineStyle => {
+  const tag = el.tagName;
+  const weight = el.style?.fontWeight ?? "";
+  const fontStyle = el.style?.fontStyle ?? "";
+  const decoration = el.style?.textDecoration || el.style?.textDecorationLine || "";
+  // Google Docs wraps whole pastes in <b style="font-weight:normal">.
+  const explicitNormal = weight === "normal" || weight === "400";
+
+  return {
+    bold:
+      !explicitNormal &&
+      (inherited.bold || tag === "B" || tag === "STRONG" || weight === "bold" || Number(weight) >= 600),
+    italic: inherited.italic || tag === "I" || tag === "EM" || fontStyle === "italic",
+    strike:
+      inherited.strike || tag === "S" || tag === "DEL" || tag === "STRIKE" || decoration.includes("line-through"),
+  };
+};
+
+// Keep the surrounding spaces outside the markers: "** bold **" is not bold in Markdown.
+const wrapInline = (text: string, marker: string) => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+const convertInline = (
+  node: Node,
+  style: InlineStyle,
+  options: HtmlToMarkdownOptions,
+): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeInline(collapseWhitespace(node.textContent ?? ""));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+  const el = node as HTMLElement;
+  if (SKIPPED_TAGS.has(el.tagName)) return "";
+
+  switch (el.tagName) {
+    case "BR":
+      return "\n";
+    case "IMG": {
+      const src = resolveUrl(el.getAttribute("src"), options.baseUrl);
+      const alt = collapseWhitespace(el.getAttribute("alt") ?? "").trim();
+      return src ? `![${escapeInline(alt)}](${src})` : "";
+    }
+    case "CODE":
+    case "KBD":
+    case "SAMP": {
+      const code = el.textContent ?? "";
+      if (!code) return "";
+      const fence = code.includes("`") ? "``" : "`";
+      return `${fence}${code}${fence}`;
+    }
+    case "A": {
+      const text = convertChildrenInline(el, style, options).trim();
+      const href = resolveUrl(el.getAttribute("href"), options.baseUrl);
+      if (!href || href.startsWith("#") || href.startsWith("javascript:")) return text;
+      return text ? `[${text}](${href})` : "";
+    }
+  }
+
+  const nextStyle = getInlineStyle(el, style);
+  let text = convertChildrenInline(el, nextStyle, options);
+  if (nextStyle.strike && !style.strike) text = wrapInline(text, "~~");
+  if (nextStyle.italic && !style.italic) text = wrapInline(text, "*");
+  if (nextStyle.bold && !style.bold) text = wrapInline(text, "**");
+  return text;
+};
+
+const convertChildrenInline = (
+  el: Element,
+  style: InlineStyle,
+  options: HtmlToMarkdownOptions,
+) =>
+  Array.from(el.childNodes)
+    .map((child) => convertInline(child, style, options))
+    .join("");
+
+const cleanParagraph = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\*\*\*\*|~~~~/g, "")
+    .trim();
+
+const prefixLines = (text: string, first: string, rest: string) =>
+  text
+    .split("\n")
+    .map((line, index) => (line ? `${index === 0 ? first : rest}${line}` : line))
+    .join("\n");
+
+const isBlockElement = (node: Node) =>
+  node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+const NO_STYLE: InlineStyle = { bold: false, italic: false, strike: false };
+
+/**
+ * Convert a container's children into Markdown blocks, grouping loose inline
+ * runs into paragraphs. `style` is the emphasis already opened by markers.
+ */
+const convertBlocks = (
+  el: Element,
+  options: HtmlToMarkdownOptions,
+  style: InlineStyle = NO_STYLE,
+): string[] => {
+  const blocks: string[] = [];
+  let inlineRun = "";
+
+  const flush = () => {
+    const paragraph = cleanParagraph(inlineRun);
+    if (paragraph) blocks.push(paragraph);
+    inlineRun = "";
+  };
+
+  el.childNodes.forEach((child) => {
+    if (isBlockElement(child)) {
+      flush();
+      blocks.push(...convertBlock(child as HTMLElement, options, style));
+    } else if (child.nodeType === Node.ELEMENT_NODE && SKIPPED_TAGS.has((child as Element).tagName)) {
+      // Skip chrome such as scripts and navigation entirely.
+    } else if (
+      child.nodeType === Node.ELEMENT_NODE &&
+      Array.from((child as Element).children).some(isBlockElement)
+    ) {
+      // Inline wrappers around block content (Google Docs' <b id="docs-internal-guid">).
+      flush();
+      blocks.push(...convertBlocks(child as Element, options, style));
+    } else {
+      inlineRun += convertInline(child, style, options);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+const convertList = (
+  list: HTMLElement,
+  options: HtmlToMarkdownOptions,
+  style: InlineStyle,
+): string => {
+  const ordered = list.tagName === "OL";
+  let counter = Number(list.getAttribute("start")) || 1;
+  const items: string[] = [];
+
+  Array.from(list.children).forEach((item) => {
+    if (item.tagName !== "LI") return;
+    const marker = ordered ? `${counter++}. ` : "- ";
+    const body = convertBlocks(item, options, style).join("\n");
+    items.push(prefixLines(body || "", marker, " ".repeat(marker.length)));
+  });
+  return items.join("\n");
+};
+
+const convertTable = (table: HTMLElement, options: HtmlToMarkdownOptions, style: InlineStyle) => {
+  const rows = Array.from(table.querySelectorAll("tr")).map((row) =>
+    Array.from(row.children).map((cell) =>
+      convertBlocks(cell, options, style).join(" ").replace(/\n+/g, " ").replace(/\|/g, "\\|"),
+    ),
+  );
+  if (rows.length === 0) return "";
+
+  const columns = Math.max(...rows.map((row) => row.length));
+  const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill("")];
+  const [header, ...body] = rows.map(pad);
+  return [
+    `| ${header.join(" | ")} |`,
+    `| ${Array(columns).fill("---").join(" | ")} |`,
+    ...body.map((row) => `| ${row.join(" | ")} |`),
+  ].join("\n");
+};
+
+const convertBlock = (
+  el: HTMLElement,
+  options: HtmlToMarkdownOptions,
+  style: InlineStyle,
+): string[] => {
+  const tag = el.tagName;
+
+  if (/^H[1-6]$/.test(tag)) {
+    // Headings are bold already; drop redundant emphasis markers.
+    const text = cleanParagraph(convertChildrenInline(el, NO_STYLE, options))
+      .replace(/\n+/g, " ")
+      .replace(/^\*\*([\s\S]*)\*\*$/, "$1");
+    return text ? [`${"#".repeat(Number(tag[1]))} ${text}`] : [];
+  }
+
+  switch (tag) {
+    case "HR":
+      return ["---"];
+    case "PRE": {
+      const code = (el.textContent ?? "").replace(/\n$/, "");
+      const language =
+        el.querySelector("code")?.className.match(/language-([\w-]+)/)?.[1] ?? "";
+      const fence = code.includes("```") ? "````" : "```";
+      return [`${fence}${language}\n${code}\n${fence}`];
+    }
+    case "BLOCKQUOTE": {
+      const inner = convertBlocks(el, options, style).join("\n\n");
+      return inner ? [prefixLines(inner, "> ", "> ").replace(/^$/gm, ">")] : [];
+    }
+    case "UL":
+    case "OL": {
+      const list = convertList(el, options, style);
+      return list ? [list] : [];
+    }
+    case "TABLE": {
+      const table = convertTable(el, options, style);
+      return table ? [table] : [];
+    }
+    default:
+      return convertBlocks(el, options, style);
+  }
+};
+
+// ── Public API ──────────────────────────────────────────────
+
+export const htmlElementToMarkdown = (root: Element, options: HtmlToMarkdownOptions = {}) =>
+  convertBlocks(root, options)
+    .join("\n\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export const htmlToMarkdown = (html: string, options: HtmlToMarkdownOptions = {}) => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return htmlElementToMarkdown(doc.body, options);
+};
+
+/**
+ * Clipboard HTML worth converting: real structure or inline emphasis. Plain
+ * copies (code editors, terminals) also carry HTML and should paste as text.
+ */
+export const isRichHtml = (html: string) => RICH_TAGS.test(html) || RICH_STYLES.test(html);
@@ -0,0 +1,84 @@
+/**
+ * [INPUT]: 依赖浏览器 IndexedDB API（无第三方依赖）
+ * [OUTPUT]: 对外提供 openTextCutsDb() / runTransaction(store, mode, fn) / promisifyRequest(request) / IdbStoreName 类型
+ * [POS]: utils/ 的本地持久化底座；全应用共用一个 "textcuts" 数据库，
+ *        各业务模块只声明自己的 object store，升级版本时在 STORE_SCHEMAS 追加即可
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+const DB_NAME = "textcuts";
+const DB_VERSION = 5;
+
+// Every object store the app owns. New stores: add here and bump DB_VERSION.
+const STORE_SCHEMAS = {
+  splitCache: { keyPath: "key", indexes: ["lastAccessedAt"] },
+  projects: { keyPath: "id", indexes: ["updatedAt"] },
+  images: { keyPath: "key", indexes: [] },
+  presets: { keyPath: "id", indexes: ["updatedAt"] },
+  fonts: { keyPath: "id", indexes: ["createdAt"] },
+} as const;
+
+export type IdbStoreName = keyof typeof STORE_SCHEMAS;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openTextCutsDb = () => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (Object.keys(STORE_SCHEMAS) as IdbStoreName[]).forEach((name) => {
+        if (db.objectStoreNames.contains(name)) return;
+        const schema = STORE_SCHEMAS[name];
+        const store = db.createObjectStore(name, { keyPath: schema.keyPath });
+        schema.indexes.forEach((index) => store.createIndex(index, index));
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let a later call retry if opening failed (e.g. blocked upgrade).
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+/**
+ * Run `fn` inside a single-store transaction and resolve with its result
+ * once the transaction commits.
+ */
+export const runTransaction = async <T>(
+  storeName: IdbStoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openTextCutsDb();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  // Await both together: if `fn` fails the transaction aborts, and `done` must not reject unobserved.
+  const [result] = await Promise.all([
+    Promise.resolve().then(() => fn(transaction.objectStore(storeName))),
+    done,
+  ]);
+  return result;
+};
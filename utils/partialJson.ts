@@ -0,0 +1,82 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardSegment/SplitResponse
+ * [OUTPUT]: 对外提供 parsePartialSplitResponse(source): SplitResponse
+ * [POS]: utils/ 的流式 JSON 解析器；从尚未闭合的模型输出中取出已完整的 segment 对象，
+ *        被 services/geminiService 的流式切分消费；纯函数，不抛错
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardSegment, SplitResponse } from "../types";
+
+const THEME_TAG_RE = /"themeTag"\s*:\s*"((?:[^"\\]|\\.)*)"/;
+const SEGMENTS_KEY_RE = /"segments"\s*:\s*\[/;
+
+const isSegment = (value: unknown): value is CardSegment => {
+  const candidate = value as Partial<CardSegment> | null;
+  return (
+    !!candidate &&
+    typeof candidate.title === "string" &&
+    typeof candidate.content === "string" &&
+    (candidate.layout === "standard" || candidate.layout === "cover")
+  );
+};
+
+/**
+ * Parse whatever is complete in a streamed `{ themeTag, segments: [...] }` payload.
+ * Only fully closed segment objects are returned; the one still being written
+ * is ignored until its closing brace arrives.
+ */
+export const parsePartialSplitResponse = (source: string): SplitResponse => {
+  const text = source.replace(/```json|```/g, "");
+  const segments: CardSegment[] = [];
+
+  const themeMatch = text.match(THEME_TAG_RE);
+  let themeTag: string | undefined;
+  if (themeMatch) {
+    try {
+      themeTag = JSON.parse(`"${themeMatch[1]}"`);
+    } catch {
+      themeTag = undefined;
+    }
+  }
+
+  const keyMatch = SEGMENTS_KEY_RE.exec(text);
+  if (!keyMatch) return { themeTag, segments };
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  for (let index = keyMatch.index + keyMatch[0].length; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      if (depth === 0) objectStart = index;
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0 && objectStart >= 0) {
+        try {
+          const parsed = JSON.parse(text.slice(objectStart, index + 1));
+          if (isSegment(parsed)) segments.push(parsed);
+        } catch {
+          // Malformed fragment — skip it, the final parse will decide.
+        }
+        objectStart = -1;
+      }
+    } else if (char === "]" && depth === 0) {
+      break;
+    }
+  }
+
+  return { themeTag, segments };
+};
@@ -0,0 +1,115 @@
+/**
+ * [INPUT]: 无外部依赖（纯 TypedArray + Blob）
+ * [OUTPUT]: 对外提供 createPdfDocument(pages): Blob、PdfPage / PdfPageImage 类型
+ * [POS]: utils/ 的最小 PDF 1.4 写入器；每页铺满一张图片（JPEG 或无损 Flate 的颜色 + 可选 Flate 压缩的 alpha 软蒙版），
+ *        页面尺寸以 pt 给出；生成的是纯栅格 PDF：不做文字排版与字体嵌入，文字不可选中、不可搜索
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+export interface PdfPageImage {
+  width: number;  // Pixel size of the encoded image
+  height: number;
+  /** `jpeg` is a JPEG file; `flate` is zlib-deflated 8-bit RGB, lossless for text. */
+  encoding: "jpeg" | "flate";
+  data: Uint8Array;
+  /** Zlib-deflated 8-bit alpha channel (width × height bytes before compression). */
+  alpha?: Uint8Array;
+}
+
+export interface PdfPage {
+  widthPt: number;
+  heightPt: number;
+  image: PdfPageImage;
+}
+
+const encoder = new TextEncoder();
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString();
+
+/**
+ * Object layout: 1 = catalog, 2 = page tree, then per page
+ * [page, content stream, image, soft mask?].
+ */
+export const createPdfDocument = (pages: PdfPage[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      push("stream\n");
+      push(stream);
+      push("\nendstream\n");
+    }
+    push("endobj\n");
+  };
+
+  // Assign object ids up front so the page tree can reference its kids.
+  let nextId = 3;
+  const layout = pages.map((page) => {
+    const ids = {
+      page: nextId,
+      content: nextId + 1,
+      image: nextId + 2,
+      mask: page.image.alpha ? nextId + 3 : null,
+    };
+    nextId += page.image.alpha ? 4 : 3;
+    return ids;
+  });
+
+  // Binary comment marks the file as binary for transfer tools.
+  push("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${layout.map((ids) => `${ids.page} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+  );
+
+  pages.forEach((page, index) => {
+    const ids = layout[index];
+    const width = formatNumber(page.widthPt);
+    const height = formatNumber(page.heightPt);
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`);
+
+    writeObject(
+      ids.page,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${ids.image} 0 R >> >> /Contents ${ids.content} 0 R >>`,
+    );
+    writeObject(ids.content, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      ids.image,
+      `<< /Type /XObject /Subtype /Image /Width ${page.image.width} /Height ${page.image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 ` +
+        `/Filter /${page.image.encoding === "jpeg" ? "DCTDecode" : "FlateDecode"}` +
+        `${ids.mask ? ` /SMask ${ids.mask} 0 R` : ""} /Length ${page.image.data.length} >>`,
+      page.image.data,
+    );
+    if (ids.mask && page.image.alpha) {
+      writeObject(
+        ids.mask,
+        `<< /Type /XObject /Subtype /Image /Width ${page.image.width} /Height ${page.image.height} ` +
+          `/ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${page.image.alpha.length} >>`,
+        page.image.alpha,
+      );
+    }
+  });
+
+  const xrefOffset = length;
+  const objectCount = nextId;
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objectCount; id += 1) {
+    xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  push(xref);
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+};
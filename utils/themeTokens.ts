@@ -0,0 +1,226 @@
+/**
+ * [INPUT]: 依赖 ../types 的 CardConfig/ThemeTokens/ThemeTone
+ * [OUTPUT]: 对外提供 resolveThemeTokens(config) / deriveColorway(brandColor, tone) / setThemeToken(config, key, value) /
+ *           normalizeThemeTokens(raw, fallback) / getContrastRatio(a, b) / getAccentContrast(config) / withAlpha(color, alpha) /
+ *           THEME_TOKEN_KEYS / AccentContrast 类型
+ * [POS]: utils/ 的配色令牌系统（纯函数）；Snow / Neon 内置令牌与自定义配色（CardConfig.theme）在这里统一解析成 ThemeTokens，
+ *        components/Card 与 utils/gradientBackground 只读令牌不再判断 colorway；
+ *        surface / text 始终镜像 backgroundColor / textColor；单一品牌色可派生浅色或深色配色，accentColor 按 WCAG 对比度给出提示
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+import { CardConfig, ThemeTokens, ThemeTone } from "../types";
+
+type ThemeInput = Pick<
+  CardConfig,
+  "colorway" | "theme" | "backgroundColor" | "textColor" | "accentColor"
+>;
+type ThemeColorKey = Exclude<keyof ThemeTokens, "tone">;
+
+export const THEME_TOKEN_KEYS = [
+  "surface",
+  "text",
+  "muted",
+  "border",
+  "subtle",
+  "codeBackground",
+  "mermaidNode",
+  "mermaidEdge",
+] as const satisfies ReadonlyArray<ThemeColorKey>;
+
+const HEX_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// ── Color math ──────────────────────────────────────────────
+
+const parseHexColor = (color: string): [number, number, number] | null => {
+  if (!HEX_PATTERN.test(color)) return null;
+  const hex = color.length === 4
+    ? color.slice(1).split("").map((digit) => digit + digit).join("")
+    : color.slice(1);
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16)) as [
+    number,
+    number,
+    number,
+  ];
+};
+
+const toHex = (channels: number[]) =>
+  `#${channels
+    .map((value) => Math.round(Math.max(0, Math.min(255, value))).toString(16).padStart(2, "0"))
+    .join("")}`;
+
+/** Blend `to` into `from` by `amount` (0 keeps `from`). Non-hex input comes back unchanged. */
+const mixColors = (from: string, to: string, amount: number) => {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  if (!a || !b) return from;
+  return toHex(a.map((value, index) => value + (b[index] - value) * amount));
+};
+
+export const withAlpha = (color: string, alpha: number) => {
+  const rgb = parseHexColor(color);
+  if (!rgb) return `color-mix(in srgb, ${color} ${Math.round(alpha * 100)}%, transparent)`;
+  return `rgba(${rgb.join(",")},${alpha})`;
+};
+
+const getRelativeLuminance = ([r, g, b]: [number, number, number]) => {
+  const linear = (value: number) => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+};
+
+/** WCAG 2 contrast ratio (1–21), or null when either color is not a hex value. */
+export const getContrastRatio = (a: string, b: string) => {
+  const left = parseHexColor(a);
+  const right = parseHexColor(b);
+  if (!left || !right) return null;
+  const [light, dark] = [getRelativeLuminance(left), getRelativeLuminance(right)].sort(
+    (x, y) => y - x,
+  );
+  return (light + 0.05) / (dark + 0.05);
+};
+
+// ── Tokens ──────────────────────────────────────────────────
+
+const BUILT_IN_THEMES: Record<"snow" | "neon", (accentColor: string) => Omit<ThemeTokens, "surface" | "text">> = {
+  snow: (accentColor) => ({
+    tone: "light",
+    muted: "rgba(0,0,0,0.4)",
+    border: "rgba(0,0,0,0.1)",
+    subtle: "rgba(0,0,0,0.05)",
+    codeBackground: "#ffffff",
+    mermaidNode: withAlpha(accentColor, 0.06),
+    mermaidEdge: "rgba(0,0,0,0.20)",
+  }),
+  neon: (accentColor) => ({
+    tone: "dark",
+    muted: "rgba(255,255,255,0.4)",
+    border: "rgba(255,255,255,0.1)",
+    subtle: "rgba(255,255,255,0.05)",
+    codeBackground: "#3f3f46",
+    mermaidNode: withAlpha(accentColor, 0.14),
+    mermaidEdge: "rgba(248,250,252,0.68)",
+  }),
+};
+
+/** Fill in every secondary token from a surface, a text color and a brand color. */
+const buildThemeTokens = (
+  surface: string,
+  text: string,
+  brandColor: string,
+  tone: ThemeTone,
+): ThemeTokens => ({
+  tone,
+  surface,
+  text,
+  muted: mixColors(surface, text, 0.58),
+  border: mixColors(surface, text, 0.12),
+  subtle: mixColors(surface, text, 0.05),
+  codeBackground: tone === "dark" ? mixColors(surface, text, 0.16) : mixColors(surface, "#ffffff", 0.7),
+  mermaidNode: mixColors(surface, brandColor, tone === "dark" ? 0.16 : 0.08),
+  mermaidEdge: mixColors(surface, text, tone === "dark" ? 0.65 : 0.3),
+});
+
+const getTone = (surface: string): ThemeTone => {
+  const rgb = parseHexColor(surface);
+  return rgb && getRelativeLuminance(rgb) < 0.18 ? "dark" : "light";
+};
+
+export const resolveThemeTokens = (config: ThemeInput): ThemeTokens => {
+  const base =
+    config.colorway === "custom" && config.theme
+      ? config.theme
+      : BUILT_IN_THEMES[config.colorway === "neon" ? "neon" : "snow"](config.accentColor);
+  return { ...base, surface: config.backgroundColor, text: config.textColor };
+};
+
+/**
+ * A whole custom colorway from one brand color: a tinted paper (light) or
+ * ink (dark) surface, text pushed to at least 7:1 against it, and the brand
+ * color as accent.
+ */
+export const deriveColorway = (
+  brandColor: string,
+  tone: ThemeTone,
+): Pick<CardConfig, "colorway" | "theme" | "backgroundColor" | "textColor" | "accentColor"> => {
+  const surface =
+    tone === "dark" ? mixColors(brandColor, "#0a0a0a", 0.9) : mixColors(brandColor, "#ffffff", 0.93);
+  const extreme = tone === "dark" ? "#ffffff" : "#000000";
+  let text = mixColors(brandColor, extreme, 0.85);
+  for (let step = 0; step < 10 && (getContrastRatio(text, surface) ?? 21) < 7; step += 1) {
+    text = mixColors(text, extreme, 0.3);
+  }
+
+  return {
+    colorway: "custom",
+    theme: buildThemeTokens(surface, text, brandColor, tone),
+    backgroundColor: surface,
+    textColor: text,
+    accentColor: brandColor,
+  };
+};
+
+/** Edit one token of the custom colorway; surface and text stay mirrored on the config. */
+export const setThemeToken = (
+  config: CardConfig,
+  key: ThemeColorKey,
+  value: string,
+): CardConfig => {
+  const theme = { ...resolveThemeTokens(config), [key]: value };
+  if (key === "surface") theme.tone = getTone(value);
+  return {
+    ...config,
+    colorway: "custom",
+    theme,
+    backgroundColor: theme.surface,
+    textColor: theme.text,
+  };
+};
+
+/**
+ * Validate stored tokens. Missing or broken tokens are rebuilt from the
+ * config's own colors so a hand-edited custom colorway still renders.
+ */
+export const normalizeThemeTokens = (
+  raw: unknown,
+  fallback: Pick<CardConfig, "backgroundColor" | "textColor" | "accentColor">,
+): ThemeTokens | undefined => {
+  const rebuilt = () =>
+    HEX_PATTERN.test(fallback.backgroundColor) && HEX_PATTERN.test(fallback.textColor)
+      ? buildThemeTokens(
+          fallback.backgroundColor,
+          fallback.textColor,
+          HEX_PATTERN.test(fallback.accentColor) ? fallback.accentColor : fallback.textColor,
+          getTone(fallback.backgroundColor),
+        )
+      : undefined;
+
+  if (!raw || typeof raw !== "object") return rebuilt();
+  const tokens = raw as Partial<ThemeTokens>;
+  const base = rebuilt();
+  if (!base) return undefined;
+
+  const next: ThemeTokens = { ...base };
+  if (tokens.tone === "light" || tokens.tone === "dark") next.tone = tokens.tone;
+  THEME_TOKEN_KEYS.forEach((key) => {
+    const value = tokens[key];
+    if (typeof value === "string" && HEX_PATTERN.test(value)) next[key] = value;
+  });
+  return next;
+};
+
+// ── Contrast ────────────────────────────────────────────────
+
+export interface AccentContrast {
+  ratio: number;
+  /** "aa": fine for body text (4.5:1); "large": only titles and UI marks (3:1); "fail": neither. */
+  level: "aa" | "large" | "fail";
+}
+
+/** How readable the accent color is on the card surface, per WCAG 2. */
+export const getAccentContrast = (config: ThemeInput): AccentContrast | null => {
+  const ratio = getContrastRatio(config.accentColor, resolveThemeTokens(config).surface);
+  if (ratio === null) return null;
+  return { ratio, level: ratio >= 4.5 ? "aa" : ratio >= 3 ? "large" : "fail" };
+};
@@ -0,0 +1,87 @@
+/**
+ * [INPUT]: 依赖浏览器 DecompressionStream("deflate-raw")（无第三方依赖）
+ * [OUTPUT]: 对外提供 readZipArchive(bytes): ZipArchive（names + read(name) 按需解压）、ZipArchive 类型
+ * [POS]: utils/ 的最小 ZIP 读取器，与 zipWriter 成对；只解析中央目录并支持 STORE / DEFLATE 两种方法，
+ *        供 services/documentImport 打开 .docx（本质是 ZIP 包）
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORE_METHOD = 0;
+const DEFLATE_METHOD = 8;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+type ZipDirectoryEntry = {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+};
+
+export interface ZipArchive {
+  names: string[];
+  /** Decompressed entry bytes, or null when the archive has no such entry. */
+  read: (name: string) => Promise<Uint8Array | null>;
+}
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  const earliest = Math.max(0, view.byteLength - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = view.byteLength - 22; offset >= earliest; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a ZIP archive");
+};
+
+export const readZipArchive = (bytes: Uint8Array): ZipArchive => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  const entries = new Map<string, ZipDirectoryEntry>();
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    read: async (name) => {
+      const entry = entries.get(name);
+      if (!entry) return null;
+
+      const local = entry.localHeaderOffset;
+      if (view.getUint32(local, true) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP entry: ${name}`);
+      }
+      // The local header repeats name and extra field with its own lengths.
+      const dataStart =
+        local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+      if (entry.method === STORE_METHOD) return data;
+      if (entry.method === DEFLATE_METHOD) return inflateRaw(data);
+      throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+    },
+  };
+};
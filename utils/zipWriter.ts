@@ -0,0 +1,116 @@
+/**
+ * [INPUT]: 无外部依赖（纯 TypedArray + Blob）
+ * [OUTPUT]: 对外提供 createZipArchive(entries): Blob、ZipEntry 类型
+ * [POS]: utils/ 的客户端 ZIP 写入器；只用 STORE（不压缩）方式打包——PNG/JPEG 本身已压缩，
+ *        省掉 deflate 换来零依赖和可预期的速度；文件名按 UTF-8 写入，中文标题不会乱码
+ * [PROTOCOL]: 变更时更新此头部，然后检查 CLAUDE.md
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+  modifiedAt?: Date;
+}
+
+const UTF8_FLAG = 0x0800;
+const STORE_METHOD = 0;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    crcTable[index] = value >>> 0;
+  }
+  return crcTable;
+};
+
+const crc32 = (data: Uint8Array) => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = table[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time, local time, 2-second precision (years before 1980 clamp to 1980).
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Pack entries into a ZIP archive: local header + data per entry, then the
+ * central directory and the end-of-central-directory record.
+ */
+export const createZipArchive = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralRecords: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const localHeader = new Uint8Array(30 + nameBytes.length);
+    const local = new DataView(localHeader.buffer);
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, STORE_METHOD, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+    localHeader.set(nameBytes, 30);
+
+    const centralHeader = new Uint8Array(46 + nameBytes.length);
+    const central = new DataView(centralHeader.buffer);
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, ZIP_VERSION, true);
+    central.setUint16(6, ZIP_VERSION, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, STORE_METHOD, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralHeader.set(nameBytes, 46);
+
+    parts.push(localHeader, data);
+    centralRecords.push(centralHeader);
+    offset += localHeader.length + data.length;
+  }
+
+  const centralSize = centralRecords.reduce((sum, record) => sum + record.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralRecords, end] as BlobPart[], {
+    type: "application/zip",
+  });
+};